@@ -0,0 +1,26 @@
+import "dotenv/config";
+import { parseNumber } from "./parse";
+
+export interface BreakEvenConfig {
+  holdingPeriodDays: number;
+  minNetGainBps: number;
+  fallbackSwapCostBps: number;
+  gasQuoteToken: string;
+}
+
+/**
+ * Break-even settings for reallocations
+ * BREAKEVEN_HOLDING_PERIOD_DAYS is how long the extra yield is projected for
+ * BREAKEVEN_MIN_NET_GAIN_BPS is the required net gain as a share of position value
+ * BREAKEVEN_FALLBACK_SWAP_COST_BPS is used when a quote carries no USD values
+ * BREAKEVEN_GAS_QUOTE_TOKEN is the wrapped native token used to price gas (WHYPE)
+ */
+export const getBreakEvenConfig = (): BreakEvenConfig => ({
+  holdingPeriodDays: parseNumber(process.env.BREAKEVEN_HOLDING_PERIOD_DAYS, 30),
+  minNetGainBps: parseNumber(process.env.BREAKEVEN_MIN_NET_GAIN_BPS, 5),
+  fallbackSwapCostBps: parseNumber(process.env.BREAKEVEN_FALLBACK_SWAP_COST_BPS, 30),
+  gasQuoteToken: (
+    process.env.BREAKEVEN_GAS_QUOTE_TOKEN ||
+    "0x5555555555555555555555555555555555555555"
+  ).toLowerCase(),
+});
@@ -0,0 +1,24 @@
+import "dotenv/config";
+import { parseBps, parseNumber } from "./parse";
+
+export interface ExposureConfig {
+  maxVaultTvlShareBps: number; // Max share of a vault's TVL held by the protocol
+  maxProtocolVaultShareBps: number; // Max share of protocol assets in one vault
+  maxProtocolAssetShareBps: number; // Max share of protocol assets in one underlying asset
+  minProtocolTvlUsd: number; // Protocol share limits apply once protocol TVL reaches this
+}
+
+/**
+ * Exposure limits for allocating capital to vaults (10000 bps = no limit)
+ * EXPOSURE_MAX_VAULT_TVL_SHARE_BPS caps our share of any vault's TVL
+ * EXPOSURE_MAX_PROTOCOL_VAULT_SHARE_BPS / EXPOSURE_MAX_PROTOCOL_ASSET_SHARE_BPS cap how much of
+ * the protocol's assets may sit in one vault / one underlying asset
+ * EXPOSURE_MIN_PROTOCOL_TVL_USD keeps the protocol share limits off while TVL is small
+ * (the first deposit is always 100% of the protocol)
+ */
+export const getExposureConfig = (): ExposureConfig => ({
+  maxVaultTvlShareBps: parseBps(process.env.EXPOSURE_MAX_VAULT_TVL_SHARE_BPS, 2_000, 1),
+  maxProtocolVaultShareBps: parseBps(process.env.EXPOSURE_MAX_PROTOCOL_VAULT_SHARE_BPS, 5_000, 1),
+  maxProtocolAssetShareBps: parseBps(process.env.EXPOSURE_MAX_PROTOCOL_ASSET_SHARE_BPS, 8_000, 1),
+  minProtocolTvlUsd: parseNumber(process.env.EXPOSURE_MIN_PROTOCOL_TVL_USD, 100_000),
+});
@@ -0,0 +1,26 @@
+import "dotenv/config";
+import { parseInteger } from "./parse";
+
+export interface IndexerConfig {
+  startBlock: bigint | null; // null when INDEXER_START_BLOCK is unset or not a block number
+  confirmations: number;
+  blockBatchSize: number;
+  pollIntervalMs: number;
+}
+
+/**
+ * Position indexer settings
+ * INDEXER_START_BLOCK should be the YieldOptimizer deployment block; without it a first
+ * run backfills from block 0
+ * INDEXER_CONFIRMATIONS can be set to 0 when running against a local Hardhat node
+ */
+export const getIndexerConfig = (): IndexerConfig => {
+  const startBlock = process.env.INDEXER_START_BLOCK?.trim();
+
+  return {
+    startBlock: startBlock && /^\d+$/.test(startBlock) ? BigInt(startBlock) : null,
+    confirmations: parseInteger(process.env.INDEXER_CONFIRMATIONS, 5),
+    blockBatchSize: parseInteger(process.env.INDEXER_BLOCK_BATCH_SIZE, 1000, 1),
+    pollIntervalMs: parseInteger(process.env.INDEXER_POLL_INTERVAL_MS, 5000, 1),
+  };
+};
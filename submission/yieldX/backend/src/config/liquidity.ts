@@ -0,0 +1,19 @@
+import "dotenv/config";
+import { parseBps } from "./parse";
+
+export interface LiquidityConfig {
+  bufferBps: number; // Headroom kept below a vault's maxRedeem / maxDeposit
+  minPartialBps: number; // Smallest share of a position worth moving on its own
+}
+
+/**
+ * Liquidity limits for reallocations
+ * LIQUIDITY_BUFFER_BPS keeps a limited move this far below the vault's reported limit, since
+ * liquidity can change before the transaction is mined
+ * LIQUIDITY_MIN_PARTIAL_BPS skips a move when less than this share of the position can go
+ * (positions leaving a quarantined vault move any amount)
+ */
+export const getLiquidityConfig = (): LiquidityConfig => ({
+  bufferBps: parseBps(process.env.LIQUIDITY_BUFFER_BPS, 100),
+  minPartialBps: parseBps(process.env.LIQUIDITY_MIN_PARTIAL_BPS, 1_000),
+});
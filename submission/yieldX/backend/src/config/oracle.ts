@@ -0,0 +1,22 @@
+import "dotenv/config";
+import { parseNumber } from "./parse";
+
+export interface YieldOracleConfig {
+  cacheTtlMs: number;
+  historyLookbackMs: number; // Snapshots used as the APY history of a vault served from the store
+  collectorCron: string;
+  collectorEnabled: boolean;
+}
+
+/**
+ * Yield oracle settings
+ * APY_CACHE_TTL_MS is how long a vault APY is served from cache or the latest snapshot
+ * APY_COLLECTOR_CRON schedules snapshot collection (default every 15 minutes)
+ * APY_HISTORY_LOOKBACK_HOURS is the snapshot window scored for APY stability (default 7 days, at least 1 hour)
+ */
+export const getYieldOracleConfig = (): YieldOracleConfig => ({
+  cacheTtlMs: parseNumber(process.env.APY_CACHE_TTL_MS, 5 * 60 * 1000),
+  historyLookbackMs: parseNumber(process.env.APY_HISTORY_LOOKBACK_HOURS, 7 * 24, 1) * 60 * 60 * 1000,
+  collectorCron: process.env.APY_COLLECTOR_CRON || "*/15 * * * *",
+  collectorEnabled: process.env.APY_COLLECTOR_ENABLED !== "false",
+});
@@ -0,0 +1,23 @@
+// Parsers for numeric environment settings; each falls back when the value is unset,
+// not a number or outside [min, max]
+
+export const parseNumber = (
+  value: string | undefined,
+  fallback: number,
+  min: number = 0,
+  max: number = Number.POSITIVE_INFINITY
+): number => {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) && parsed >= min && parsed <= max ? parsed : fallback;
+};
+
+export const parseInteger = (
+  value: string | undefined,
+  fallback: number,
+  min: number = 0,
+  max: number = Number.POSITIVE_INFINITY
+): number => Math.floor(parseNumber(value, fallback, min, max));
+
+// Basis points, 0 to 10000 unless `min` is raised
+export const parseBps = (value: string | undefined, fallback: number, min: number = 0): number =>
+  parseInteger(value, fallback, min, 10_000);
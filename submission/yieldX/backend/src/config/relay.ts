@@ -0,0 +1,43 @@
+import "dotenv/config";
+import { parseNumber } from "./parse";
+import { createWalletClient, http } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { hyperevmMainnet } from "./chains";
+
+export interface RelayConfig {
+  maxRequestsPerUser: number; // Relayed requests a user may submit per window
+  rateWindowMinutes: number;
+  maxDeadlineMinutes: number; // Refuse requests valid for longer than this
+  receiptTimeoutMs: number; // Stop waiting for the relayed transaction after this long
+}
+
+/**
+ * Gasless relay settings
+ * RELAY_MAX_REQUESTS_PER_USER / RELAY_RATE_WINDOW_MINUTES cap how much relayer gas one user
+ * can spend; RELAY_MAX_DEADLINE_MINUTES keeps signed requests short-lived
+ */
+export const getRelayConfig = (): RelayConfig => ({
+  maxRequestsPerUser: parseNumber(process.env.RELAY_MAX_REQUESTS_PER_USER, 5),
+  rateWindowMinutes: parseNumber(process.env.RELAY_RATE_WINDOW_MINUTES, 60),
+  maxDeadlineMinutes: parseNumber(process.env.RELAY_MAX_DEADLINE_MINUTES, 60),
+  receiptTimeoutMs: parseNumber(process.env.RELAY_RECEIPT_TIMEOUT_MS, 120_000),
+});
+
+/**
+ * Wallet that submits signed user requests and pays their gas
+ * Kept apart from the keeper wallet; returns null when RELAYER_PRIVATE_KEY is not set.
+ */
+export const createRelayerWallet = () => {
+  if (!process.env.RELAYER_PRIVATE_KEY) {
+    return null;
+  }
+  return createWalletClient({
+    chain: hyperevmMainnet,
+    transport: http(
+      process.env.RPC_URL ||
+        process.env.HYPEREVM_RPC_URL ||
+        "https://rpc.hyperevm.com"
+    ),
+    account: privateKeyToAccount(process.env.RELAYER_PRIVATE_KEY as `0x`),
+  });
+};
@@ -0,0 +1,40 @@
+import "dotenv/config";
+
+export interface KnownRouter {
+  address: string; // Lowercase
+  codeHash?: string; // Expected keccak256 of the runtime bytecode; taken from chain when omitted
+}
+
+export interface RouterPolicyConfig {
+  knownRouters: KnownRouter[];
+}
+
+/**
+ * Router allowlist seed
+ * GLUEX_ROUTER_ALLOWLIST lists known GlueX routers, e.g. "0xrouter1:0xcodehash1,0xrouter2".
+ * GLUEX_ROUTER_ADDRESS is included as well. Seeded routers are approved; every other router
+ * returned by a quote waits for an admin decision.
+ */
+export const getRouterPolicyConfig = (): RouterPolicyConfig => {
+  const entries = (process.env.GLUEX_ROUTER_ALLOWLIST || "").split(",");
+  if (process.env.GLUEX_ROUTER_ADDRESS) {
+    entries.push(process.env.GLUEX_ROUTER_ADDRESS);
+  }
+
+  const knownRouters = new Map<string, KnownRouter>();
+  for (const entry of entries) {
+    const [address, codeHash] = entry.split(":").map((part) => part.trim());
+    if (!address || !/^0x[0-9a-fA-F]{40}$/.test(address)) continue;
+
+    const key = address.toLowerCase();
+    const existing = knownRouters.get(key);
+    knownRouters.set(key, {
+      address: key,
+      codeHash: codeHash ? codeHash.toLowerCase() : existing?.codeHash,
+    });
+  }
+
+  return {
+    knownRouters: Array.from(knownRouters.values()),
+  };
+};
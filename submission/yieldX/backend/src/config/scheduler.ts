@@ -0,0 +1,19 @@
+import "dotenv/config";
+import { parseInteger, parseNumber } from "./parse";
+
+export interface SchedulerSettings {
+  cronExpression: string;
+  optimizationThreshold: number; // Minimum APY difference (%) before a move is considered
+  maxPositionsPerRun: number; // 0 = unlimited
+  enabled: boolean;
+}
+
+/**
+ * Default optimization scheduler settings, used until settings are stored in MongoDB
+ */
+export const getSchedulerConfig = (): SchedulerSettings => ({
+  cronExpression: process.env.OPTIMIZATION_CRON || "0 * * * *",
+  optimizationThreshold: parseNumber(process.env.OPTIMIZATION_THRESHOLD, 0.5),
+  maxPositionsPerRun: parseInteger(process.env.OPTIMIZATION_MAX_POSITIONS_PER_RUN, 0),
+  enabled: process.env.OPTIMIZATION_SCHEDULER_ENABLED === "true",
+});
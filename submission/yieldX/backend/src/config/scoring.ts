@@ -0,0 +1,54 @@
+import "dotenv/config";
+import { parseNumber } from "./parse";
+
+export type RiskTier = "low" | "medium" | "high";
+
+export interface ScoringConfig {
+  weights: Record<string, number>;
+  vaultRiskTiers: Record<string, RiskTier>;
+  maxVaultShare: number;
+  gasCostBps: number;
+  swapCostBps: number;
+}
+
+const DEFAULT_WEIGHTS: Record<string, number> = {
+  yield: 0.4,
+  stability: 0.2,
+  depth: 0.15,
+  risk: 0.15,
+  cost: 0.1,
+};
+
+const parseList = (value: string | undefined): Array<[string, string]> =>
+  (value || "")
+    .split(",")
+    .map((entry) => entry.split(":").map((part) => part.trim()))
+    .filter((parts) => parts.length === 2 && parts[0] && parts[1])
+    .map(([key, val]) => [key, val]);
+
+/**
+ * Vault scoring settings
+ * SCORING_WEIGHTS overrides factor weights, e.g. "yield:0.5,stability:0.2,risk:0.3"
+ * VAULT_RISK_TIERS assigns tiers, e.g. "0xvault1:low,0xvault2:high"
+ */
+export const getScoringConfig = (): ScoringConfig => {
+  const weights = { ...DEFAULT_WEIGHTS };
+  for (const [factor, weight] of parseList(process.env.SCORING_WEIGHTS)) {
+    weights[factor] = parseNumber(weight, weights[factor] ?? 0);
+  }
+
+  const vaultRiskTiers: Record<string, RiskTier> = {};
+  for (const [vault, tier] of parseList(process.env.VAULT_RISK_TIERS)) {
+    if (tier === "low" || tier === "medium" || tier === "high") {
+      vaultRiskTiers[vault.toLowerCase()] = tier;
+    }
+  }
+
+  return {
+    weights,
+    vaultRiskTiers,
+    maxVaultShare: parseNumber(process.env.SCORING_MAX_VAULT_SHARE, 0.1),
+    gasCostBps: parseNumber(process.env.SCORING_GAS_COST_BPS, 5),
+    swapCostBps: parseNumber(process.env.SCORING_SWAP_COST_BPS, 30),
+  };
+};
@@ -0,0 +1,43 @@
+import "dotenv/config";
+import { parseBps } from "./parse";
+
+export interface SlippageConfig {
+  defaultToleranceBps: number;
+  assetToleranceBps: Record<string, number>;
+}
+
+/**
+ * Slippage tolerance settings
+ * SLIPPAGE_TOLERANCE_BPS sets the default (100 = 1%)
+ * ASSET_SLIPPAGE_TOLERANCE_BPS overrides it per asset, e.g. "0xasset1:30,0xasset2:150"
+ */
+export const getSlippageConfig = (): SlippageConfig => {
+  const defaultToleranceBps = parseBps(
+    process.env.SLIPPAGE_TOLERANCE_BPS,
+    100
+  );
+
+  const assetToleranceBps: Record<string, number> = {};
+  const overrides = process.env.ASSET_SLIPPAGE_TOLERANCE_BPS || "";
+  for (const entry of overrides.split(",")) {
+    const [asset, bps] = entry.split(":").map((part) => part.trim());
+    if (!asset || !bps) continue;
+    assetToleranceBps[asset.toLowerCase()] = parseBps(
+      bps,
+      defaultToleranceBps
+    );
+  }
+
+  return {
+    defaultToleranceBps,
+    assetToleranceBps,
+  };
+};
+
+/**
+ * Get the slippage tolerance (in basis points) to apply for an asset
+ */
+export const getSlippageToleranceBps = (asset: string): number => {
+  const config = getSlippageConfig();
+  return config.assetToleranceBps[asset.toLowerCase()] ?? config.defaultToleranceBps;
+};
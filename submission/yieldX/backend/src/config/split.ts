@@ -0,0 +1,23 @@
+import "dotenv/config";
+import { parseInteger } from "./parse";
+
+export interface SplitConfig {
+  enabled: boolean;
+  maxTargets: number; // Most vaults a position is spread over, counting the one it stays in
+  minLegBps: number; // Smallest part of a position worth its own leg
+  stepBps: number; // Granularity of the allocation search
+}
+
+/**
+ * Split reallocation settings
+ * SPLIT_ENABLED lets the optimizer spread a position over several vaults when our deposit
+ * would noticeably dilute a single target's APY
+ * SPLIT_MAX_TARGETS / SPLIT_MIN_LEG_BPS bound how finely a position is split
+ * SPLIT_STEP_BPS is the slice size the planner allocates at a time
+ */
+export const getSplitConfig = (): SplitConfig => ({
+  enabled: process.env.SPLIT_ENABLED !== "false",
+  maxTargets: parseInteger(process.env.SPLIT_MAX_TARGETS, 3, 1, 10),
+  minLegBps: parseInteger(process.env.SPLIT_MIN_LEG_BPS, 1_000, 0, 10_000),
+  stepBps: parseInteger(process.env.SPLIT_STEP_BPS, 250, 1, 10_000),
+});
@@ -0,0 +1,47 @@
+import "dotenv/config";
+import { parseNumber } from "./parse";
+import { parseGwei } from "viem";
+
+export interface TransactionManagerConfig {
+  maxFeePerGas: bigint; // Hard cap on maxFeePerGas, including replacements
+  maxPriorityFeePerGas: bigint; // Hard cap on the tip
+  baseFeeMultiplier: number; // maxFeePerGas = baseFee * multiplier + tip, so a few rising blocks still fit
+  gasLimitBufferPercent: number; // Added on top of the gas estimate
+  feeBumpPercent: number; // Fee increase per replacement (nodes require at least 10%)
+  stuckTimeoutMs: number; // Replace a transaction that has not been mined after this long
+  maxSpeedUps: number; // Replacements with the same call before it is cancelled
+  maxBackoffMs: number; // Longest wait between attempts when a replacement cannot be sent
+  receiptTimeoutMs: number; // How long callers wait before moving on; tracking continues
+  pollIntervalMs: number;
+}
+
+const parseGweiValue = (value: string | undefined, fallback: string): bigint => {
+  try {
+    return parseGwei(value && Number(value) > 0 ? value : fallback);
+  } catch {
+    return parseGwei(fallback);
+  }
+};
+
+/**
+ * Keeper transaction manager settings
+ * TX_MAX_FEE_GWEI / TX_MAX_PRIORITY_FEE_GWEI cap what the keeper ever pays; a transaction
+ * that needs more than the cap is not sent. A transaction not mined within
+ * TX_STUCK_TIMEOUT_MS is re-sent with TX_FEE_BUMP_PERCENT higher fees, up to
+ * TX_MAX_SPEED_UPS times, and then cancelled with a self-transfer so its nonce is freed.
+ * A speed-up that would pass the cap turns into the cancel, priced at the cap; when even that
+ * cannot be sent the transaction is flagged as stuck and retried with backoff up to
+ * TX_MAX_BACKOFF_MS.
+ */
+export const getTransactionManagerConfig = (): TransactionManagerConfig => ({
+  maxFeePerGas: parseGweiValue(process.env.TX_MAX_FEE_GWEI, "100"),
+  maxPriorityFeePerGas: parseGweiValue(process.env.TX_MAX_PRIORITY_FEE_GWEI, "2"),
+  baseFeeMultiplier: parseNumber(process.env.TX_BASE_FEE_MULTIPLIER, 2),
+  gasLimitBufferPercent: parseNumber(process.env.TX_GAS_LIMIT_BUFFER_PERCENT, 20),
+  feeBumpPercent: Math.max(parseNumber(process.env.TX_FEE_BUMP_PERCENT, 15), 10),
+  stuckTimeoutMs: parseNumber(process.env.TX_STUCK_TIMEOUT_MS, 60_000),
+  maxSpeedUps: parseNumber(process.env.TX_MAX_SPEED_UPS, 3),
+  maxBackoffMs: parseNumber(process.env.TX_MAX_BACKOFF_MS, 600_000),
+  receiptTimeoutMs: parseNumber(process.env.TX_RECEIPT_TIMEOUT_MS, 180_000),
+  pollIntervalMs: parseNumber(process.env.TX_POLL_INTERVAL_MS, 3_000),
+});
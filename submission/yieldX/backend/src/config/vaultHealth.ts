@@ -0,0 +1,26 @@
+import "dotenv/config";
+import { parseNumber } from "./parse";
+
+export interface VaultHealthConfig {
+  monitorCron: string;
+  monitorEnabled: boolean;
+  maxSharePriceDropBps: number; // Quarantine when the share price falls this far below its recent peak
+  maxTvlDropBps: number; // Quarantine when totalAssets falls this far below its recent peak
+  lookbackMinutes: number; // Window for the recent peaks
+  autoEmergencyExit: boolean; // Call emergencyExit on quarantine (keeper needs GUARDIAN_ROLE)
+}
+
+/**
+ * Vault health monitor settings
+ * VAULT_HEALTH_CRON schedules sampling of share price, totalAssets and liquidity
+ * VAULT_HEALTH_MAX_SHARE_PRICE_DROP_BPS / VAULT_HEALTH_MAX_TVL_DROP_BPS set the quarantine triggers
+ * VAULT_HEALTH_LOOKBACK_MINUTES is the window the drops are measured over
+ */
+export const getVaultHealthConfig = (): VaultHealthConfig => ({
+  monitorCron: process.env.VAULT_HEALTH_CRON || "*/5 * * * *",
+  monitorEnabled: process.env.VAULT_HEALTH_ENABLED !== "false",
+  maxSharePriceDropBps: parseNumber(process.env.VAULT_HEALTH_MAX_SHARE_PRICE_DROP_BPS, 50),
+  maxTvlDropBps: parseNumber(process.env.VAULT_HEALTH_MAX_TVL_DROP_BPS, 3_000),
+  lookbackMinutes: parseNumber(process.env.VAULT_HEALTH_LOOKBACK_MINUTES, 60),
+  autoEmergencyExit: process.env.VAULT_HEALTH_AUTO_EXIT !== "false",
+});
@@ -0,0 +1,8 @@
+// GlueX Vault addresses (from requirements)
+export const GLUEX_VAULTS = [
+  "0xe25514992597786e07872e6c5517fe1906c0cadd",
+  "0xcdc3975df9d1cf054f44ed238edfb708880292ea",
+  "0x8f9291606862eef771a97e5b71e4b98fd1fa216a",
+  "0x9f75eac57d1c6f7248bd2aede58c95689f3827f7",
+  "0x63cf7ee583d9954febf649ad1c40c97a6493b1be",
+] as const;
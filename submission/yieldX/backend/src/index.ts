@@ -1,9 +1,26 @@
 import express from "express";
+import mongoose from "mongoose";
 import cors from "cors";
-import { Request, Response } from "express";
+import { NextFunction, Request, Response } from "express";
 import { DatabaseService } from "./services/DatabaseService";
 import { DatabaseConnection } from "./config/database";
-import { YieldOptimizationService } from "./services/YieldOptimizationService";
+import {
+  YieldOptimizationService,
+  validateSchedulerSettings,
+} from "./services/YieldOptimizationService";
+import { YieldPositionIndexer } from "./services/YieldPositionIndexer";
+import { YieldOracleService } from "./services/YieldOracleService";
+import { GovernanceService } from "./services/GovernanceService";
+import { RouterPolicyService } from "./services/RouterPolicyService";
+import { ExposureService } from "./services/ExposureService";
+import { VaultHealthMonitor } from "./services/VaultHealthMonitor";
+import { ZapService } from "./services/ZapService";
+import { parseSignedRequest, RelayService } from "./services/RelayService";
+import { TransactionManager } from "./services/TransactionManager";
+import { getVaultHealthConfig } from "./config/vaultHealth";
+import { RouterPolicyStatus } from "./models/RouterPolicy";
+import { KeeperTransactionStatus } from "./models/KeeperTransaction";
+import { getYieldOracleConfig } from "./config/oracle";
 
 const app = express();
 const PORT = process.env.PORT || 3001;
@@ -11,11 +28,38 @@ const PORT = process.env.PORT || 3001;
 let dbService: DatabaseService | null = null;
 let dbConnection: DatabaseConnection | null = null;
 let yieldOptimizationService: YieldOptimizationService | null = null;
+let yieldPositionIndexer: YieldPositionIndexer | null = null;
+let yieldOracleService: YieldOracleService | null = null;
+let governanceService: GovernanceService | null = null;
+let routerPolicyService: RouterPolicyService | null = null;
+let exposureService: ExposureService | null = null;
+let vaultHealthMonitor: VaultHealthMonitor | null = null;
+let zapService: ZapService | null = null;
+let relayService: RelayService | null = null;
+let transactionManager: TransactionManager | null = null;
 
 // Middleware
 app.use(cors());
 app.use(express.json());
 
+// Dry-run flag can be passed as ?dryRun=true or in the JSON body
+const isDryRun = (req: Request): boolean =>
+  req.query.dryRun === "true" || req.body?.dryRun === true;
+
+// Admin endpoints require the ADMIN_API_KEY in the x-admin-key header
+const requireAdmin = (req: Request, res: Response, next: NextFunction): void => {
+  const adminKey = process.env.ADMIN_API_KEY;
+  if (!adminKey) {
+    res.status(503).json({ error: "Admin API disabled (ADMIN_API_KEY not set)" });
+    return;
+  }
+  if (req.header("x-admin-key") !== adminKey) {
+    res.status(401).json({ error: "Unauthorized" });
+    return;
+  }
+  next();
+};
+
 // Health check endpoint
 app.get("/health", (_req: Request, res: Response) => {
   const databaseStats = dbConnection?.getConnectionInfo() || {
@@ -30,7 +74,15 @@ app.get("/health", (_req: Request, res: Response) => {
     version: "1.0.0",
     yield: {
       initialized: yieldOptimizationService !== null,
+      keeperRoles: yieldOptimizationService?.getKeeperRoles() || null,
     },
+    indexer: yieldPositionIndexer?.getStatus() || { running: false },
+    vaultHealth: {
+      running: vaultHealthMonitor?.getStatus().running || false,
+      quarantinedVaults: vaultHealthMonitor?.getQuarantinedVaults() || [],
+    },
+    relay: { enabled: relayService !== null },
+    transactions: transactionManager?.getStatus() || { started: false },
     database: databaseStats,
   });
 });
@@ -43,11 +95,30 @@ app.get("/", (_req: Request, res: Response) => {
     endpoints: {
       health: "/health",
       "yield-positions": "/api/yield/positions/:userAddress",
-      "yield-optimize": "/api/yield/optimize/:userAddress/:positionIndex",
+      "yield-optimize": "/api/yield/optimize/:positionId",
       "yield-optimize-all": "/api/yield/optimize-all",
+      "yield-jobs": "/api/yield/jobs",
+      "yield-job": "/api/yield/jobs/:id",
       "yield-statistics": "/api/yield/statistics",
+      "yield-vault-history": "/api/yield/vaults/:vault/history",
       "yield-optimizations": "/api/yield/optimizations/:userAddress",
       "yield-stats": "/api/yield/stats",
+      "yield-exposure": "/api/yield/exposure",
+      "yield-vault-health": "/api/yield/vaults/health",
+      "yield-zap-deposit": "/api/yield/zap/deposit",
+      "yield-zap-withdraw": "/api/yield/zap/withdraw/:userAddress/:positionId",
+      relay: "/api/relay",
+      "relay-nonce": "/api/relay/nonce/:userAddress",
+      "governance-pending": "/api/governance/pending",
+      "admin-scheduler": "/api/admin/scheduler",
+      "admin-scheduler-start": "/api/admin/scheduler/start",
+      "admin-scheduler-stop": "/api/admin/scheduler/stop",
+      "admin-vault-quarantine": "/api/admin/vaults/:vault/quarantine",
+      "admin-vault-release": "/api/admin/vaults/:vault/release",
+      "admin-routers": "/api/admin/routers",
+      "admin-router-approve": "/api/admin/routers/:address/approve",
+      "admin-router-reject": "/api/admin/routers/:address/reject",
+      "admin-transactions": "/api/admin/transactions",
     },
   });
 });
@@ -83,9 +154,9 @@ app.get(
   }
 );
 
-// Optimize a specific position
+// Optimize a specific position on behalf of whoever holds its receipt
 app.post(
-  "/api/yield/optimize/:userAddress/:positionIndex",
+  "/api/yield/optimize/:positionId",
   async (req: Request, res: Response): Promise<void> => {
     try {
       if (!yieldOptimizationService) {
@@ -93,21 +164,24 @@ app.post(
         return;
       }
 
-      const { userAddress, positionIndex } = req.params;
-      const positionIdx = parseInt(positionIndex);
+      const positionId = parseInt(req.params.positionId);
 
-      if (isNaN(positionIdx)) {
-        res.status(400).json({ error: "Invalid position index" });
+      if (isNaN(positionId) || positionId < 1) {
+        res.status(400).json({ error: "Invalid position ID" });
         return;
       }
 
-      const result = await yieldOptimizationService.optimizePosition(
-        userAddress,
-        positionIdx
-      );
+      const dryRun = isDryRun(req);
+      const result = await yieldOptimizationService.optimizePosition(positionId, { dryRun });
+
+      let message = result.success ? "Position optimized successfully" : "Optimization skipped";
+      if (dryRun) {
+        message = result.success ? "Dry run: position would be optimized" : "Dry run: optimization would be skipped";
+      }
 
       res.json({
-        message: result.success ? "Position optimized successfully" : "Optimization skipped",
+        message,
+        dryRun,
         result,
       });
     } catch (error) {
@@ -123,23 +197,44 @@ app.post(
 // Optimize all positions (manual trigger)
 app.post(
   "/api/yield/optimize-all",
-  async (_req: Request, res: Response): Promise<void> => {
+  async (req: Request, res: Response): Promise<void> => {
     try {
       if (!yieldOptimizationService) {
         res.status(500).json({ error: "Yield Optimization Service not initialized" });
         return;
       }
 
-      // Start optimization in background
-      yieldOptimizationService.optimizeAllPositions().catch((error) => {
-        console.error("❌ Background yield optimization failed:", error);
-      });
+      // Dry run: simulate every position and return the preview
+      if (isDryRun(req)) {
+        const results = await yieldOptimizationService.optimizeAllPositions({ dryRun: true });
 
-      res.json({
+        res.json({
+          message: "Yield optimization dry run complete",
+          dryRun: true,
+          results,
+          count: results.length,
+          wouldOptimize: results.filter((result) => result.success).length,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      // Start optimization in background as a tracked job
+      const job = await yieldOptimizationService.startOptimizationJob("manual");
+      if (!job) {
+        res.status(409).json({
+          error: "An optimization run is already in progress",
+          activeJobId: yieldOptimizationService.getActiveJobId(),
+        });
+        return;
+      }
+
+      res.status(202).json({
         message: "Yield optimization started",
-        status: "optimizing",
-        timestamp: new Date().toISOString(),
-        note: "Optimization is running in the background. Check logs for progress.",
+        status: job.status,
+        jobId: job._id,
+        timestamp: job.startedAt.toISOString(),
+        note: `Optimization is running in the background. Track progress at /api/yield/jobs/${job._id}`,
       });
     } catch (error) {
       console.error("Failed to start yield optimization:", error);
@@ -151,6 +246,80 @@ app.post(
   }
 );
 
+// List optimize-all jobs
+app.get(
+  "/api/yield/jobs",
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!dbService) {
+        res.status(500).json({ error: "Database service not initialized" });
+        return;
+      }
+
+      const limit = parseInt(req.query.limit as string) || 20;
+      const status = req.query.status as string | undefined;
+      if (status && !["running", "completed", "failed"].includes(status)) {
+        res.status(400).json({ error: "Invalid job status" });
+        return;
+      }
+
+      const jobs = await dbService.getOptimizationJobs(
+        limit,
+        status as "running" | "completed" | "failed" | undefined
+      );
+
+      res.json({
+        message: "Optimization Jobs",
+        activeJobId: yieldOptimizationService?.getActiveJobId() || null,
+        jobs,
+        count: jobs.length,
+      });
+    } catch (error) {
+      console.error("Failed to get optimization jobs:", error);
+      res.status(500).json({
+        error: "Failed to get optimization jobs",
+        details: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  }
+);
+
+// Get an optimize-all job with per-position results
+app.get(
+  "/api/yield/jobs/:id",
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!dbService) {
+        res.status(500).json({ error: "Database service not initialized" });
+        return;
+      }
+
+      const { id } = req.params;
+      if (!mongoose.isValidObjectId(id)) {
+        res.status(400).json({ error: "Invalid job id" });
+        return;
+      }
+
+      const job = await dbService.getOptimizationJob(id);
+      if (!job) {
+        res.status(404).json({ error: "Job not found" });
+        return;
+      }
+
+      res.json({
+        message: "Optimization Job",
+        job,
+      });
+    } catch (error) {
+      console.error("Failed to get optimization job:", error);
+      res.status(500).json({
+        error: "Failed to get optimization job",
+        details: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  }
+);
+
 // Get yield statistics across all vaults
 app.get(
   "/api/yield/statistics",
@@ -177,6 +346,57 @@ app.get(
   }
 );
 
+// Get APY history for a vault from the local snapshot store
+app.get(
+  "/api/yield/vaults/:vault/history",
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!yieldOracleService) {
+        res.status(500).json({ error: "Yield Oracle Service not initialized" });
+        return;
+      }
+
+      const { vault } = req.params;
+      const to = req.query.to ? new Date(req.query.to as string) : new Date();
+      const from = req.query.from
+        ? new Date(req.query.from as string)
+        : new Date(to.getTime() - 7 * 24 * 60 * 60 * 1000);
+      const resolution = (req.query.resolution as string) || "1h";
+
+      if (isNaN(from.getTime()) || isNaN(to.getTime()) || from > to) {
+        res.status(400).json({ error: "Invalid time range" });
+        return;
+      }
+
+      let history;
+      try {
+        history = await yieldOracleService.getVaultHistory(vault, from, to, resolution);
+      } catch (error) {
+        res.status(400).json({
+          error: error instanceof Error ? error.message : "Invalid resolution",
+        });
+        return;
+      }
+
+      res.json({
+        message: "Vault APY History",
+        vault,
+        from: from.toISOString(),
+        to: to.toISOString(),
+        resolution,
+        history,
+        count: history.length,
+      });
+    } catch (error) {
+      console.error("Failed to get vault APY history:", error);
+      res.status(500).json({
+        error: "Failed to get vault APY history",
+        details: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  }
+);
+
 // Get yield optimizations for a user
 app.get(
   "/api/yield/optimizations/:userAddress",
@@ -234,6 +454,654 @@ app.get(
   }
 );
 
+// Get protocol exposure per vault and asset; with vault and amount, check a deposit against the limits
+app.get(
+  "/api/yield/exposure",
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!exposureService) {
+        res.status(500).json({ error: "Exposure Service not initialized" });
+        return;
+      }
+
+      const vault = req.query.vault as string | undefined;
+      const amount = req.query.amount as string | undefined;
+      if ((vault === undefined) !== (amount === undefined)) {
+        res.status(400).json({ error: "vault and amount must be given together" });
+        return;
+      }
+      if (vault !== undefined && !/^0x[0-9a-fA-F]{40}$/.test(vault)) {
+        res.status(400).json({ error: "Invalid vault address" });
+        return;
+      }
+      if (amount !== undefined && !/^\d+$/.test(amount)) {
+        res.status(400).json({ error: "amount must be an integer in asset units" });
+        return;
+      }
+
+      const exposure = await exposureService.getProtocolExposure();
+      const depositCheck =
+        vault !== undefined && amount !== undefined
+          ? await exposureService.checkAllocation({ vault, amount: BigInt(amount) }, exposure)
+          : undefined;
+
+      res.json({
+        message: "Protocol exposure",
+        exposure,
+        depositCheck,
+      });
+    } catch (error) {
+      console.error("Failed to get protocol exposure:", error);
+      res.status(500).json({
+        error: "Failed to get protocol exposure",
+        details: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  }
+);
+
+// Get the latest health sample of each vault and all quarantine records
+app.get(
+  "/api/yield/vaults/health",
+  async (_req: Request, res: Response): Promise<void> => {
+    try {
+      if (!vaultHealthMonitor || !dbService) {
+        res.status(500).json({ error: "Vault Health Monitor not initialized" });
+        return;
+      }
+
+      const quarantines = await dbService.getVaultQuarantines();
+
+      res.json({
+        message: "Vault health",
+        ...vaultHealthMonitor.getStatus(),
+        quarantines,
+      });
+    } catch (error) {
+      console.error("Failed to get vault health:", error);
+      res.status(500).json({
+        error: "Failed to get vault health",
+        details: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  }
+);
+
+// Build the swap quote and unsigned transaction for depositing any token (or native HYPE)
+// into a vault; the user signs and sends it
+app.post(
+  "/api/yield/zap/deposit",
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!zapService) {
+        res.status(500).json({ error: "Zap Service not initialized" });
+        return;
+      }
+
+      const { userAddress, token, amount, vault } = req.body || {};
+      const addressPattern = /^0x[0-9a-fA-F]{40}$/;
+
+      if (typeof userAddress !== "string" || !addressPattern.test(userAddress)) {
+        res.status(400).json({ error: "Invalid userAddress" });
+        return;
+      }
+      if (typeof vault !== "string" || !addressPattern.test(vault)) {
+        res.status(400).json({ error: "Invalid vault address" });
+        return;
+      }
+      // "native" (or the zero address) deposits native HYPE
+      const inputToken = token === "native" ? "0x0000000000000000000000000000000000000000" : token;
+      if (typeof inputToken !== "string" || !addressPattern.test(inputToken)) {
+        res.status(400).json({ error: "Invalid token (use a token address or \"native\")" });
+        return;
+      }
+      if (typeof amount !== "string" || !/^[0-9]+$/.test(amount) || BigInt(amount) === BigInt(0)) {
+        res.status(400).json({ error: "amount must be a positive integer string in token base units" });
+        return;
+      }
+
+      const result = await zapService.buildDeposit({
+        userAddress,
+        token: inputToken,
+        amount: BigInt(amount),
+        vault,
+      });
+
+      if (!result.success) {
+        res.status(400).json({ error: result.error, result });
+        return;
+      }
+
+      res.json({
+        message: "Zap deposit transaction",
+        result,
+      });
+    } catch (error) {
+      console.error("Failed to build zap deposit:", error);
+      res.status(500).json({
+        error: "Failed to build zap deposit",
+        details: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  }
+);
+
+// Preview withdrawing a position straight into another token (or native HYPE) and build the
+// unsigned withdrawWithSwap transaction
+app.get(
+  "/api/yield/zap/withdraw/:userAddress/:positionId",
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!zapService) {
+        res.status(500).json({ error: "Zap Service not initialized" });
+        return;
+      }
+
+      const { userAddress } = req.params;
+      const addressPattern = /^0x[0-9a-fA-F]{40}$/;
+      const positionId = parseInt(req.params.positionId);
+
+      if (!addressPattern.test(userAddress)) {
+        res.status(400).json({ error: "Invalid userAddress" });
+        return;
+      }
+      if (isNaN(positionId) || positionId < 1) {
+        res.status(400).json({ error: "Invalid position ID" });
+        return;
+      }
+      // "native" (or the zero address) exits to native HYPE
+      const outputToken =
+        req.query.outputToken === "native"
+          ? "0x0000000000000000000000000000000000000000"
+          : req.query.outputToken;
+      if (typeof outputToken !== "string" || !addressPattern.test(outputToken)) {
+        res.status(400).json({ error: "Invalid outputToken (use a token address or \"native\")" });
+        return;
+      }
+      const { shares } = req.query;
+      if (shares !== undefined && (typeof shares !== "string" || !/^[0-9]+$/.test(shares))) {
+        res.status(400).json({ error: "shares must be an integer string (omit for the whole position)" });
+        return;
+      }
+
+      const result = await zapService.previewWithdraw({
+        userAddress,
+        positionId,
+        shares: shares !== undefined ? BigInt(shares) : undefined,
+        outputToken,
+      });
+
+      if (!result.success) {
+        res.status(400).json({ error: result.error, result });
+        return;
+      }
+
+      res.json({
+        message: "Zap withdrawal preview",
+        result,
+      });
+    } catch (error) {
+      console.error("Failed to preview zap withdrawal:", error);
+      res.status(500).json({
+        error: "Failed to preview zap withdrawal",
+        details: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  }
+);
+
+// ===== GASLESS RELAY API ENDPOINTS =====
+
+// Get the nonce and EIP-712 domain a user signs relayed requests with
+app.get(
+  "/api/relay/nonce/:userAddress",
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!relayService) {
+        res.status(500).json({ error: "Relay Service not initialized" });
+        return;
+      }
+
+      const { userAddress } = req.params;
+      if (!/^0x[0-9a-fA-F]{40}$/.test(userAddress)) {
+        res.status(400).json({ error: "Invalid userAddress" });
+        return;
+      }
+
+      const nonce = await relayService.getNonce(userAddress);
+
+      res.json({
+        message: "Relay nonce",
+        userAddress,
+        nonce: nonce.toString(),
+        domain: relayService.getDomain(),
+      });
+    } catch (error) {
+      console.error("Failed to get relay nonce:", error);
+      res.status(500).json({
+        error: "Failed to get relay nonce",
+        details: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  }
+);
+
+// Submit a user's EIP-712 signed deposit (with permit) or withdrawal from the relayer wallet
+app.post(
+  "/api/relay",
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!relayService) {
+        res.status(500).json({ error: "Relay Service not initialized" });
+        return;
+      }
+
+      const signed = parseSignedRequest(req.body);
+      if (typeof signed === "string") {
+        res.status(400).json({ error: signed });
+        return;
+      }
+
+      const result = await relayService.relay(signed);
+
+      if (!result.success) {
+        res.status(result.rateLimited ? 429 : 400).json({ error: result.error, result });
+        return;
+      }
+
+      res.json({
+        message:
+          result.status === "confirmed" ? "Request relayed" : "Request relayed, awaiting confirmation",
+        result,
+      });
+    } catch (error) {
+      console.error("Failed to relay request:", error);
+      res.status(500).json({
+        error: "Failed to relay request",
+        details: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  }
+);
+
+// ===== GOVERNANCE API ENDPOINTS =====
+
+// Get queued timelock operations (whitelists, fee and delay changes) and when they can execute
+app.get(
+  "/api/governance/pending",
+  async (_req: Request, res: Response): Promise<void> => {
+    try {
+      if (!governanceService) {
+        res.status(500).json({ error: "Governance Service not initialized" });
+        return;
+      }
+
+      const [timelockDelay, operations] = await Promise.all([
+        governanceService.getTimelockDelay(),
+        governanceService.getPendingOperations(),
+      ]);
+
+      res.json({
+        message: "Pending governance operations",
+        timelockDelay,
+        count: operations.length,
+        operations,
+      });
+    } catch (error) {
+      console.error("Failed to get pending governance operations:", error);
+      res.status(500).json({
+        error: "Failed to get pending governance operations",
+        details: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  }
+);
+
+// ===== ADMIN API ENDPOINTS =====
+
+// Get optimization scheduler state
+app.get(
+  "/api/admin/scheduler",
+  requireAdmin,
+  async (_req: Request, res: Response): Promise<void> => {
+    if (!yieldOptimizationService) {
+      res.status(500).json({ error: "Yield Optimization Service not initialized" });
+      return;
+    }
+
+    res.json({
+      message: "Optimization Scheduler",
+      scheduler: yieldOptimizationService.getSchedulerState(),
+      activeJobId: yieldOptimizationService.getActiveJobId(),
+    });
+  }
+);
+
+// Reconfigure the optimization scheduler
+app.put(
+  "/api/admin/scheduler",
+  requireAdmin,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!yieldOptimizationService) {
+        res.status(500).json({ error: "Yield Optimization Service not initialized" });
+        return;
+      }
+
+      const { cronExpression, optimizationThreshold, maxPositionsPerRun, enabled } =
+        req.body || {};
+      const update = { cronExpression, optimizationThreshold, maxPositionsPerRun, enabled };
+
+      const validationError = validateSchedulerSettings(update);
+      if (validationError) {
+        res.status(400).json({ error: validationError });
+        return;
+      }
+
+      const scheduler = await yieldOptimizationService.updateSchedulerSettings(update);
+
+      res.json({
+        message: "Optimization scheduler updated",
+        scheduler,
+      });
+    } catch (error) {
+      console.error("Failed to update optimization scheduler:", error);
+      res.status(500).json({
+        error: "Failed to update optimization scheduler",
+        details: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  }
+);
+
+// Start the optimization scheduler
+app.post(
+  "/api/admin/scheduler/start",
+  requireAdmin,
+  async (_req: Request, res: Response): Promise<void> => {
+    try {
+      if (!yieldOptimizationService) {
+        res.status(500).json({ error: "Yield Optimization Service not initialized" });
+        return;
+      }
+
+      const scheduler = await yieldOptimizationService.updateSchedulerSettings({
+        enabled: true,
+      });
+
+      res.json({
+        message: "Optimization scheduler started",
+        scheduler,
+      });
+    } catch (error) {
+      console.error("Failed to start optimization scheduler:", error);
+      res.status(500).json({
+        error: "Failed to start optimization scheduler",
+        details: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  }
+);
+
+// Stop the optimization scheduler
+app.post(
+  "/api/admin/scheduler/stop",
+  requireAdmin,
+  async (_req: Request, res: Response): Promise<void> => {
+    try {
+      if (!yieldOptimizationService) {
+        res.status(500).json({ error: "Yield Optimization Service not initialized" });
+        return;
+      }
+
+      const scheduler = await yieldOptimizationService.updateSchedulerSettings({
+        enabled: false,
+      });
+
+      res.json({
+        message: "Optimization scheduler stopped",
+        scheduler,
+      });
+    } catch (error) {
+      console.error("Failed to stop optimization scheduler:", error);
+      res.status(500).json({
+        error: "Failed to stop optimization scheduler",
+        details: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  }
+);
+
+// Quarantine a vault by hand, optionally pulling the optimizer's funds out of it
+app.post(
+  "/api/admin/vaults/:vault/quarantine",
+  requireAdmin,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!vaultHealthMonitor) {
+        res.status(500).json({ error: "Vault Health Monitor not initialized" });
+        return;
+      }
+
+      const { vault } = req.params;
+      if (!/^0x[0-9a-fA-F]{40}$/.test(vault)) {
+        res.status(400).json({ error: "Invalid vault address" });
+        return;
+      }
+
+      const { reason, exit } = req.body || {};
+      if (exit !== undefined && typeof exit !== "boolean") {
+        res.status(400).json({ error: "exit must be a boolean" });
+        return;
+      }
+
+      const quarantine = await vaultHealthMonitor.quarantineVault(
+        vault,
+        { trigger: "manual", reason: reason || "Quarantined by admin" },
+        exit === true
+      );
+
+      res.json({
+        message: "Vault quarantined",
+        quarantine,
+      });
+    } catch (error) {
+      console.error("Failed to quarantine vault:", error);
+      res.status(500).json({
+        error: "Failed to quarantine vault",
+        details: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  }
+);
+
+// Lift a vault quarantine
+app.post(
+  "/api/admin/vaults/:vault/release",
+  requireAdmin,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!vaultHealthMonitor) {
+        res.status(500).json({ error: "Vault Health Monitor not initialized" });
+        return;
+      }
+
+      const quarantine = await vaultHealthMonitor.releaseVault(req.params.vault);
+      if (!quarantine) {
+        res.status(404).json({ error: "Vault is not quarantined" });
+        return;
+      }
+
+      res.json({
+        message: "Vault released from quarantine",
+        quarantine,
+      });
+    } catch (error) {
+      console.error("Failed to release vault:", error);
+      res.status(500).json({
+        error: "Failed to release vault",
+        details: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  }
+);
+
+// List swap routers on the allowlist, pending review or rejected
+app.get(
+  "/api/admin/routers",
+  requireAdmin,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!routerPolicyService) {
+        res.status(500).json({ error: "Router Policy Service not initialized" });
+        return;
+      }
+
+      const status = req.query.status as RouterPolicyStatus | undefined;
+      if (status && !["approved", "pending", "rejected"].includes(status)) {
+        res.status(400).json({ error: "status must be approved, pending or rejected" });
+        return;
+      }
+
+      const routers = await routerPolicyService.listRouters(status);
+
+      res.json({
+        message: "Swap routers",
+        count: routers.length,
+        routers,
+      });
+    } catch (error) {
+      console.error("Failed to list swap routers:", error);
+      res.status(500).json({
+        error: "Failed to list swap routers",
+        details: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  }
+);
+
+// Approve a router, pinning the hash of the bytecode currently deployed at it
+app.post(
+  "/api/admin/routers/:address/approve",
+  requireAdmin,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!routerPolicyService) {
+        res.status(500).json({ error: "Router Policy Service not initialized" });
+        return;
+      }
+
+      const { address } = req.params;
+      if (!/^0x[0-9a-fA-F]{40}$/.test(address)) {
+        res.status(400).json({ error: "Invalid router address" });
+        return;
+      }
+
+      const { label, codeHash, reviewedBy } = req.body || {};
+      const result = await routerPolicyService.approveRouter(address, {
+        label,
+        codeHash,
+        reviewedBy,
+      });
+      if (!result.success) {
+        res.status(400).json({ error: result.error });
+        return;
+      }
+
+      res.json({
+        message: "Router approved",
+        router: result.router,
+      });
+    } catch (error) {
+      console.error("Failed to approve router:", error);
+      res.status(500).json({
+        error: "Failed to approve router",
+        details: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  }
+);
+
+// Reject a router so quotes pointing at it are refused
+app.post(
+  "/api/admin/routers/:address/reject",
+  requireAdmin,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!routerPolicyService) {
+        res.status(500).json({ error: "Router Policy Service not initialized" });
+        return;
+      }
+
+      const { address } = req.params;
+      if (!/^0x[0-9a-fA-F]{40}$/.test(address)) {
+        res.status(400).json({ error: "Invalid router address" });
+        return;
+      }
+
+      const { reason, reviewedBy } = req.body || {};
+      const result = await routerPolicyService.rejectRouter(address, { reason, reviewedBy });
+
+      res.json({
+        message: "Router rejected",
+        router: result.router,
+      });
+    } catch (error) {
+      console.error("Failed to reject router:", error);
+      res.status(500).json({
+        error: "Failed to reject router",
+        details: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  }
+);
+
+// List transactions sent from the keeper wallet, newest first
+app.get(
+  "/api/admin/transactions",
+  requireAdmin,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!dbService || !transactionManager) {
+        res.status(500).json({ error: "Transaction Manager not initialized" });
+        return;
+      }
+
+      const status = req.query.status as KeeperTransactionStatus | undefined;
+      if (
+        status &&
+        !["pending", "confirmed", "reverted", "cancelled", "dropped"].includes(status)
+      ) {
+        res.status(400).json({
+          error: "status must be pending, confirmed, reverted, cancelled or dropped",
+        });
+        return;
+      }
+
+      const limit = req.query.limit ? Number(req.query.limit) : 50;
+      if (!Number.isInteger(limit) || limit < 1 || limit > 500) {
+        res.status(400).json({ error: "limit must be an integer between 1 and 500" });
+        return;
+      }
+
+      const transactions = await dbService.getKeeperTransactions(status, limit);
+
+      res.json({
+        message: "Keeper transactions",
+        manager: transactionManager.getStatus(),
+        count: transactions.length,
+        transactions,
+      });
+    } catch (error) {
+      console.error("Failed to list keeper transactions:", error);
+      res.status(500).json({
+        error: "Failed to list keeper transactions",
+        details: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  }
+);
+
 // Initialize services on startup
 async function initializeServices() {
   try {
@@ -247,18 +1115,75 @@ async function initializeServices() {
     dbService = DatabaseService.getInstance();
     console.log("✅ Database services initialized");
 
+    const interruptedJobs = await dbService.failInterruptedOptimizationJobs();
+    if (interruptedJobs > 0) {
+      console.log(`⚠️  Marked ${interruptedJobs} interrupted optimization jobs as failed`);
+    }
+
+    // Resume tracking keeper transactions left pending by the previous run
+    transactionManager = TransactionManager.getInstance();
+    try {
+      await transactionManager.start();
+    } catch (error) {
+      console.error("⚠️  Transaction manager could not sync the keeper nonce; retrying on first send:", error);
+    }
+
+    // Initialize Yield Oracle (cached APYs + snapshot collector)
+    yieldOracleService = new YieldOracleService();
+    if (getYieldOracleConfig().collectorEnabled) {
+      yieldOracleService.startCollector();
+      yieldOracleService.collectSnapshots().catch((error) => {
+        console.error("❌ Initial APY snapshot collection failed:", error);
+      });
+    }
+
+    // Initialize the swap router allowlist and approve configured GlueX routers
+    routerPolicyService = new RouterPolicyService();
+    await routerPolicyService.seedAllowlist();
+
     // Initialize Yield Optimization Service
     const optimizerContractAddress =
       process.env.YIELD_OPTIMIZER_CONTRACT_ADDRESS ||
       "0x0000000000000000000000000000000000000000";
     
     if (optimizerContractAddress !== "0x0000000000000000000000000000000000000000") {
-      yieldOptimizationService = new YieldOptimizationService(optimizerContractAddress);
+      exposureService = new ExposureService(optimizerContractAddress, yieldOracleService);
+
+      // Watch vault share prices and TVL; quarantined vaults never receive funds
+      vaultHealthMonitor = new VaultHealthMonitor(optimizerContractAddress);
+      await vaultHealthMonitor.loadQuarantines();
+      if (getVaultHealthConfig().monitorEnabled) {
+        vaultHealthMonitor.start();
+      }
+
+      yieldOptimizationService = new YieldOptimizationService(
+        optimizerContractAddress,
+        yieldOracleService,
+        routerPolicyService,
+        exposureService,
+        vaultHealthMonitor
+      );
       console.log("✅ Yield Optimization Service initialized");
+
+      governanceService = new GovernanceService(optimizerContractAddress);
+      zapService = new ZapService(optimizerContractAddress, routerPolicyService, exposureService);
+
+      // Gasless deposits and withdrawals need a funded relayer wallet
+      if (process.env.RELAYER_PRIVATE_KEY) {
+        relayService = new RelayService(optimizerContractAddress);
+      } else {
+        console.log("⚠️  RELAYER_PRIVATE_KEY not set; gasless relay disabled");
+      }
+
+      // Keep YieldPosition in sync with on-chain position events
+      yieldPositionIndexer = new YieldPositionIndexer(optimizerContractAddress);
+      await yieldPositionIndexer.start();
       
-      // Optionally start automated optimization (runs every hour)
-      // yieldOptimizationService.startOptimization();
-      // console.log("✅ Automated yield optimization started");
+      // Detect keeper wallet roles so features it lacks are turned off
+      await yieldOptimizationService.detectKeeperRoles();
+
+      // Apply stored scheduler settings (starts automated optimization if enabled)
+      await yieldOptimizationService.loadSchedulerSettings();
     } else {
       console.log(
         "⚠️  Warning: Yield Optimizer contract address not set. Please set YIELD_OPTIMIZER_CONTRACT_ADDRESS environment variable."
@@ -276,6 +1201,15 @@ process.on("SIGINT", async () => {
   if (yieldOptimizationService) {
     yieldOptimizationService.stopOptimization();
   }
+  if (yieldPositionIndexer) {
+    yieldPositionIndexer.stop();
+  }
+  if (vaultHealthMonitor) {
+    vaultHealthMonitor.stop();
+  }
+  if (yieldOracleService) {
+    yieldOracleService.stopCollector();
+  }
   if (dbConnection) {
     await dbConnection.disconnect();
   }
@@ -287,6 +1221,15 @@ process.on("SIGTERM", async () => {
   if (yieldOptimizationService) {
     yieldOptimizationService.stopOptimization();
   }
+  if (yieldPositionIndexer) {
+    yieldPositionIndexer.stop();
+  }
+  if (vaultHealthMonitor) {
+    vaultHealthMonitor.stop();
+  }
+  if (yieldOracleService) {
+    yieldOracleService.stopCollector();
+  }
   if (dbConnection) {
     await dbConnection.disconnect();
   }
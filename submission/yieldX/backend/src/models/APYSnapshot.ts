@@ -0,0 +1,51 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+export interface IAPYSnapshot extends Document {
+  vault: string;
+  asset: string;
+  apy: number;
+  apr: number;
+  tvl?: string;
+  timestamp: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const APYSnapshotSchema: Schema = new Schema(
+  {
+    vault: {
+      type: String,
+      required: true,
+      lowercase: true,
+    },
+    asset: {
+      type: String,
+      required: true,
+      lowercase: true,
+    },
+    apy: {
+      type: Number,
+      required: true,
+    },
+    apr: {
+      type: Number,
+      required: true,
+    },
+    tvl: {
+      type: String,
+    },
+    timestamp: {
+      type: Date,
+      required: true,
+      index: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Index for vault time-series queries
+APYSnapshotSchema.index({ vault: 1, timestamp: -1 });
+
+export default mongoose.model<IAPYSnapshot>("APYSnapshot", APYSnapshotSchema);
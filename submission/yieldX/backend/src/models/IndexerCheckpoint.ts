@@ -0,0 +1,30 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+export interface IIndexerCheckpoint extends Document {
+  name: string;
+  lastProcessedBlock: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const IndexerCheckpointSchema: Schema = new Schema(
+  {
+    name: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    lastProcessedBlock: {
+      type: Number,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+export default mongoose.model<IIndexerCheckpoint>(
+  "IndexerCheckpoint",
+  IndexerCheckpointSchema
+);
@@ -0,0 +1,126 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+// pending: broadcast, not mined yet; cancelled: a self-transfer took the nonce instead;
+// dropped: the nonce was used by a transaction this backend did not send
+export type KeeperTransactionStatus =
+  | "pending"
+  | "confirmed"
+  | "reverted"
+  | "cancelled"
+  | "dropped";
+
+export interface IKeeperTransaction extends Document {
+  from: string;
+  nonce: number;
+  label: string; // What the transaction does, e.g. "optimize position 12"
+  to: string;
+  data: string;
+  value: string;
+  gas: string;
+  maxFeePerGas: string; // Of the latest broadcast
+  maxPriorityFeePerGas: string;
+  hashes: string[]; // Every broadcast with this nonce, oldest first
+  speedUps: number;
+  cancelling: boolean; // The latest broadcast is a cancelling self-transfer
+  stuck: boolean; // Not even a cancel could be sent within the fee cap; needs attention
+  status: KeeperTransactionStatus;
+  transactionHash?: string; // The broadcast that was mined
+  blockNumber?: string;
+  gasUsed?: string;
+  lastBroadcastAt: Date;
+  error?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const KeeperTransactionSchema: Schema = new Schema(
+  {
+    from: {
+      type: String,
+      required: true,
+      lowercase: true,
+    },
+    nonce: {
+      type: Number,
+      required: true,
+    },
+    label: {
+      type: String,
+      required: true,
+    },
+    to: {
+      type: String,
+      required: true,
+      lowercase: true,
+    },
+    data: {
+      type: String,
+      required: true,
+    },
+    value: {
+      type: String,
+      default: "0",
+    },
+    gas: {
+      type: String,
+      required: true,
+    },
+    maxFeePerGas: {
+      type: String,
+      required: true,
+    },
+    maxPriorityFeePerGas: {
+      type: String,
+      required: true,
+    },
+    hashes: {
+      type: [String],
+      default: [],
+    },
+    speedUps: {
+      type: Number,
+      default: 0,
+    },
+    cancelling: {
+      type: Boolean,
+      default: false,
+    },
+    stuck: {
+      type: Boolean,
+      default: false,
+    },
+    status: {
+      type: String,
+      enum: ["pending", "confirmed", "reverted", "cancelled", "dropped"],
+      required: true,
+      index: true,
+    },
+    transactionHash: {
+      type: String,
+    },
+    blockNumber: {
+      type: String,
+    },
+    gasUsed: {
+      type: String,
+    },
+    lastBroadcastAt: {
+      type: Date,
+      required: true,
+    },
+    error: {
+      type: String,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// One record per nonce of a wallet
+KeeperTransactionSchema.index({ from: 1, nonce: 1 }, { unique: true });
+
+export default mongoose.model<IKeeperTransaction>(
+  "KeeperTransaction",
+  KeeperTransactionSchema
+);
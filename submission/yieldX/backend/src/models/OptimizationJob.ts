@@ -0,0 +1,78 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+export type OptimizationJobStatus = "running" | "completed" | "failed";
+
+export interface IOptimizationJob extends Document {
+  status: OptimizationJobStatus;
+  trigger: "manual" | "scheduled";
+  totalPositions: number;
+  processedPositions: number;
+  optimizedCount: number;
+  skippedCount: number;
+  failedCount: number;
+  results: Record<string, any>[];
+  error?: string;
+  startedAt: Date;
+  completedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const OptimizationJobSchema: Schema = new Schema(
+  {
+    status: {
+      type: String,
+      enum: ["running", "completed", "failed"],
+      default: "running",
+      index: true,
+    },
+    trigger: {
+      type: String,
+      enum: ["manual", "scheduled"],
+      required: true,
+    },
+    totalPositions: {
+      type: Number,
+      default: 0,
+    },
+    processedPositions: {
+      type: Number,
+      default: 0,
+    },
+    optimizedCount: {
+      type: Number,
+      default: 0,
+    },
+    skippedCount: {
+      type: Number,
+      default: 0,
+    },
+    failedCount: {
+      type: Number,
+      default: 0,
+    },
+    results: {
+      type: [Schema.Types.Mixed],
+      default: [],
+    },
+    error: {
+      type: String,
+    },
+    startedAt: {
+      type: Date,
+      required: true,
+      index: true,
+    },
+    completedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+export default mongoose.model<IOptimizationJob>(
+  "OptimizationJob",
+  OptimizationJobSchema
+);
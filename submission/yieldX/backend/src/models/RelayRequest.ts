@@ -0,0 +1,79 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+export type RelayRequestKind = "deposit" | "withdraw";
+export type RelayRequestStatus = "submitted" | "confirmed" | "failed";
+
+export interface IRelayRequest extends Document {
+  userAddress: string;
+  kind: RelayRequestKind;
+  nonce: string;
+  deadline: Date;
+  vault?: string; // Deposits
+  amount?: string; // Deposits, in asset units
+  positionId?: number; // Withdrawals
+  shares?: string; // Withdrawals
+  status: RelayRequestStatus;
+  transactionHash?: string;
+  gasUsed?: string;
+  error?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const RelayRequestSchema: Schema = new Schema(
+  {
+    userAddress: {
+      type: String,
+      required: true,
+      lowercase: true,
+    },
+    kind: {
+      type: String,
+      enum: ["deposit", "withdraw"],
+      required: true,
+    },
+    nonce: {
+      type: String,
+      required: true,
+    },
+    deadline: {
+      type: Date,
+      required: true,
+    },
+    vault: {
+      type: String,
+      lowercase: true,
+    },
+    amount: {
+      type: String,
+    },
+    positionId: {
+      type: Number,
+    },
+    shares: {
+      type: String,
+    },
+    status: {
+      type: String,
+      enum: ["submitted", "confirmed", "failed"],
+      required: true,
+    },
+    transactionHash: {
+      type: String,
+    },
+    gasUsed: {
+      type: String,
+    },
+    error: {
+      type: String,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Per-user rate limit lookups
+RelayRequestSchema.index({ userAddress: 1, createdAt: -1 });
+
+export default mongoose.model<IRelayRequest>("RelayRequest", RelayRequestSchema);
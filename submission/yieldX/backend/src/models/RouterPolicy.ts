@@ -0,0 +1,71 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+export type RouterPolicyStatus = "approved" | "pending" | "rejected";
+
+export interface IRouterPolicy extends Document {
+  address: string; // Lowercase router address
+  status: RouterPolicyStatus;
+  codeHash?: string; // keccak256 of the runtime bytecode approved (or last seen) for this address
+  label?: string;
+  source: "config" | "quote" | "admin";
+  seenCount: number; // Quotes that pointed at this router
+  firstSeenAt?: Date;
+  lastSeenAt?: Date;
+  reviewedBy?: string;
+  reviewedAt?: Date;
+  reason?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const RouterPolicySchema: Schema = new Schema(
+  {
+    address: {
+      type: String,
+      required: true,
+      unique: true,
+      lowercase: true,
+    },
+    status: {
+      type: String,
+      enum: ["approved", "pending", "rejected"],
+      required: true,
+      index: true,
+    },
+    codeHash: {
+      type: String,
+    },
+    label: {
+      type: String,
+    },
+    source: {
+      type: String,
+      enum: ["config", "quote", "admin"],
+      required: true,
+    },
+    seenCount: {
+      type: Number,
+      default: 0,
+    },
+    firstSeenAt: {
+      type: Date,
+    },
+    lastSeenAt: {
+      type: Date,
+    },
+    reviewedBy: {
+      type: String,
+    },
+    reviewedAt: {
+      type: Date,
+    },
+    reason: {
+      type: String,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+export default mongoose.model<IRouterPolicy>("RouterPolicy", RouterPolicySchema);
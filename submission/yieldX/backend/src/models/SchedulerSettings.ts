@@ -0,0 +1,45 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+export interface ISchedulerSettings extends Document {
+  name: string;
+  cronExpression: string;
+  optimizationThreshold: number;
+  maxPositionsPerRun: number;
+  enabled: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const SchedulerSettingsSchema: Schema = new Schema(
+  {
+    name: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    cronExpression: {
+      type: String,
+      required: true,
+    },
+    optimizationThreshold: {
+      type: Number,
+      required: true,
+    },
+    maxPositionsPerRun: {
+      type: Number,
+      default: 0,
+    },
+    enabled: {
+      type: Boolean,
+      default: false,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+export default mongoose.model<ISchedulerSettings>(
+  "SchedulerSettings",
+  SchedulerSettingsSchema
+);
@@ -0,0 +1,54 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+export interface IVaultHealthSnapshot extends Document {
+  vault: string;
+  sharePrice: string; // convertToAssets(1e18)
+  totalAssets: string;
+  withdrawableAssets: string; // maxWithdraw of the optimizer
+  holdings: string; // Assets the optimizer holds in the vault
+  timestamp: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const VaultHealthSnapshotSchema: Schema = new Schema(
+  {
+    vault: {
+      type: String,
+      required: true,
+      lowercase: true,
+    },
+    sharePrice: {
+      type: String,
+      required: true,
+    },
+    totalAssets: {
+      type: String,
+      required: true,
+    },
+    withdrawableAssets: {
+      type: String,
+      required: true,
+    },
+    holdings: {
+      type: String,
+      required: true,
+    },
+    timestamp: {
+      type: Date,
+      required: true,
+      index: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Index for vault time-series queries
+VaultHealthSnapshotSchema.index({ vault: 1, timestamp: -1 });
+
+export default mongoose.model<IVaultHealthSnapshot>(
+  "VaultHealthSnapshot",
+  VaultHealthSnapshotSchema
+);
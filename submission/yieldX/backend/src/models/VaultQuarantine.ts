@@ -0,0 +1,80 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+export type VaultQuarantineStatus = "quarantined" | "released";
+
+export interface IVaultQuarantine extends Document {
+  vault: string;
+  status: VaultQuarantineStatus;
+  reason: string;
+  trigger: "sharePrice" | "tvl" | "manual";
+  sharePrice?: string;
+  peakSharePrice?: string;
+  totalAssets?: string;
+  peakTotalAssets?: string;
+  quarantinedAt: Date;
+  exitTransactionHash?: string;
+  exitAssets?: string;
+  exitError?: string;
+  releasedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const VaultQuarantineSchema: Schema = new Schema(
+  {
+    vault: {
+      type: String,
+      required: true,
+      unique: true,
+      lowercase: true,
+    },
+    status: {
+      type: String,
+      enum: ["quarantined", "released"],
+      required: true,
+      index: true,
+    },
+    reason: {
+      type: String,
+      required: true,
+    },
+    trigger: {
+      type: String,
+      enum: ["sharePrice", "tvl", "manual"],
+      required: true,
+    },
+    sharePrice: {
+      type: String,
+    },
+    peakSharePrice: {
+      type: String,
+    },
+    totalAssets: {
+      type: String,
+    },
+    peakTotalAssets: {
+      type: String,
+    },
+    quarantinedAt: {
+      type: Date,
+      required: true,
+    },
+    exitTransactionHash: {
+      type: String,
+    },
+    exitAssets: {
+      type: String,
+    },
+    exitError: {
+      type: String,
+    },
+    releasedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+export default mongoose.model<IVaultQuarantine>("VaultQuarantine", VaultQuarantineSchema);
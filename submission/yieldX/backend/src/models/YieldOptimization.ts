@@ -2,12 +2,13 @@ import mongoose, { Schema, Document } from "mongoose";
 
 export interface IYieldOptimization extends Document {
   userAddress: string;
-  positionIndex: number;
+  positionId: number;
   fromVault: string;
   toVault: string;
   assetsReallocated: string;
   previousAPY: number;
   newAPY: number;
+  feeCharged: string;
   transactionHash?: string;
   timestamp: Date;
   createdAt: Date;
@@ -22,9 +23,10 @@ const YieldOptimizationSchema: Schema = new Schema(
       lowercase: true,
       index: true,
     },
-    positionIndex: {
+    positionId: {
       type: Number,
       required: true,
+      index: true,
     },
     fromVault: {
       type: String,
@@ -48,6 +50,10 @@ const YieldOptimizationSchema: Schema = new Schema(
       type: Number,
       required: true,
     },
+    feeCharged: {
+      type: String,
+      default: "0",
+    },
     transactionHash: {
       type: String,
       lowercase: true,
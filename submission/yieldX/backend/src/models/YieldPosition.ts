@@ -1,8 +1,8 @@
 import mongoose, { Schema, Document } from "mongoose";
 
 export interface IYieldPosition extends Document {
-  userAddress: string;
-  positionIndex: number;
+  positionId: number; // Global position ID (receipt token ID)
+  userAddress: string; // Current holder of the position receipt
   vault: string;
   asset: string;
   shares: string;
@@ -15,16 +15,17 @@ export interface IYieldPosition extends Document {
 
 const YieldPositionSchema: Schema = new Schema(
   {
+    positionId: {
+      type: Number,
+      required: true,
+      unique: true,
+    },
     userAddress: {
       type: String,
       required: true,
       lowercase: true,
       index: true,
     },
-    positionIndex: {
-      type: Number,
-      required: true,
-    },
     vault: {
       type: String,
       required: true,
@@ -58,9 +59,6 @@ const YieldPositionSchema: Schema = new Schema(
   }
 );
 
-// Compound index for user and position
-YieldPositionSchema.index({ userAddress: 1, positionIndex: 1 }, { unique: true });
-
 export default mongoose.model<IYieldPosition>(
   "YieldPosition",
   YieldPositionSchema
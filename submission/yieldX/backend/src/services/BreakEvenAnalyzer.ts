@@ -0,0 +1,101 @@
+import { BreakEvenConfig, getBreakEvenConfig } from "../config/breakeven";
+
+/**
+ * Inputs for a break-even check, all amounts in source asset units
+ */
+export interface BreakEvenInput {
+  positionValue: bigint; // convertToAssets(shares) on the source vault
+  exitCost: bigint; // positionValue - previewRedeem(shares)
+  swapCost: bigint; // Value lost to swap price impact
+  entryCost: bigint; // Deposited assets - convertToAssets(previewDeposit(assets))
+  gasCost: bigint; // Estimated gas converted to asset units
+  gasUnits: bigint;
+  currentAPY: number; // Percent
+  targetAPY: number; // Percent
+}
+
+export interface CostBenefitBreakdown {
+  positionValue: string;
+  exitCost: string;
+  swapCost: string;
+  entryCost: string;
+  gasCost: string;
+  gasUnits: string;
+  totalCost: string;
+  apyDifference: number;
+  holdingPeriodDays: number;
+  projectedExtraYield: string;
+  netGain: string;
+  minNetGain: string;
+  worthwhile: boolean;
+}
+
+const BPS_DENOMINATOR = BigInt(10_000);
+const DAYS_PER_YEAR = BigInt(365);
+
+/**
+ * Break-Even Analyzer
+ * Weighs the total cost of switching vaults against the extra yield over a holding period
+ */
+export class BreakEvenAnalyzer {
+  private config: BreakEvenConfig;
+
+  constructor(config: BreakEvenConfig = getBreakEvenConfig()) {
+    this.config = config;
+  }
+
+  getConfig(): BreakEvenConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * Swap cost from a quote: USD price impact when available, otherwise the fallback estimate
+   */
+  estimateSwapCost(inputAssets: bigint, quoteResult: any): bigint {
+    const inputUSD = Number(quoteResult?.inputAmountUSD);
+    const outputUSD = Number(quoteResult?.outputAmountUSD);
+
+    let costBps = this.config.fallbackSwapCostBps;
+    if (Number.isFinite(inputUSD) && Number.isFinite(outputUSD) && inputUSD > 0) {
+      costBps = Math.max(0, ((inputUSD - outputUSD) / inputUSD) * 10_000);
+    }
+
+    return (inputAssets * BigInt(Math.ceil(costBps))) / BPS_DENOMINATOR;
+  }
+
+  /**
+   * Compare switching cost with projected extra yield
+   */
+  analyze(input: BreakEvenInput): CostBenefitBreakdown {
+    const totalCost =
+      input.exitCost + input.swapCost + input.entryCost + input.gasCost;
+
+    const apyDifference = input.targetAPY - input.currentAPY;
+    const apyDifferenceBps = BigInt(Math.round(apyDifference * 100));
+    const holdingDays = BigInt(Math.round(this.config.holdingPeriodDays));
+
+    const projectedExtraYield =
+      (input.positionValue * apyDifferenceBps * holdingDays) /
+      (BPS_DENOMINATOR * DAYS_PER_YEAR);
+    const netGain = projectedExtraYield - totalCost;
+    const minNetGain =
+      (input.positionValue * BigInt(Math.round(this.config.minNetGainBps))) /
+      BPS_DENOMINATOR;
+
+    return {
+      positionValue: input.positionValue.toString(),
+      exitCost: input.exitCost.toString(),
+      swapCost: input.swapCost.toString(),
+      entryCost: input.entryCost.toString(),
+      gasCost: input.gasCost.toString(),
+      gasUnits: input.gasUnits.toString(),
+      totalCost: totalCost.toString(),
+      apyDifference,
+      holdingPeriodDays: this.config.holdingPeriodDays,
+      projectedExtraYield: projectedExtraYield.toString(),
+      netGain: netGain.toString(),
+      minNetGain: minNetGain.toString(),
+      worthwhile: netGain > BigInt(0) && netGain >= minNetGain,
+    };
+  }
+}
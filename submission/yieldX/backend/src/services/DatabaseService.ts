@@ -5,6 +5,29 @@ import TWAPOrder, { ITWAPOrder } from "../models/TWAPOrder";
 import TWAPExecution, { ITWAPExecution } from "../models/TWAPExecution";
 import YieldPosition, { IYieldPosition } from "../models/YieldPosition";
 import YieldOptimization, { IYieldOptimization } from "../models/YieldOptimization";
+import IndexerCheckpoint from "../models/IndexerCheckpoint";
+import APYSnapshot, { IAPYSnapshot } from "../models/APYSnapshot";
+import OptimizationJob, {
+  IOptimizationJob,
+  OptimizationJobStatus,
+} from "../models/OptimizationJob";
+import SchedulerSettings from "../models/SchedulerSettings";
+import { SchedulerSettings as SchedulerSettingsValues } from "../config/scheduler";
+import RouterPolicy, { IRouterPolicy, RouterPolicyStatus } from "../models/RouterPolicy";
+import VaultHealthSnapshot, { IVaultHealthSnapshot } from "../models/VaultHealthSnapshot";
+import VaultQuarantine, {
+  IVaultQuarantine,
+  VaultQuarantineStatus,
+} from "../models/VaultQuarantine";
+import RelayRequest, {
+  IRelayRequest,
+  RelayRequestKind,
+  RelayRequestStatus,
+} from "../models/RelayRequest";
+import KeeperTransaction, {
+  IKeeperTransaction,
+  KeeperTransactionStatus,
+} from "../models/KeeperTransaction";
 import {
   ParsedDCAOrder,
   ParsedLimitOrder,
@@ -1109,12 +1132,13 @@ export class DatabaseService {
   async saveYieldOptimization(
     optimization: {
       userAddress: string;
-      positionIndex: number;
+      positionId: number;
       fromVault: string;
       toVault: string;
       assetsReallocated: string;
       previousAPY: number;
       newAPY: number;
+      feeCharged?: string;
       transactionHash?: string;
       timestamp: Date;
     }
@@ -1122,12 +1146,13 @@ export class DatabaseService {
     try {
       const yieldOptimization = new YieldOptimization({
         userAddress: optimization.userAddress.toLowerCase(),
-        positionIndex: optimization.positionIndex,
+        positionId: optimization.positionId,
         fromVault: optimization.fromVault.toLowerCase(),
         toVault: optimization.toVault.toLowerCase(),
         assetsReallocated: optimization.assetsReallocated,
         previousAPY: optimization.previousAPY,
         newAPY: optimization.newAPY,
+        feeCharged: optimization.feeCharged || "0",
         transactionHash: optimization.transactionHash?.toLowerCase(),
         timestamp: optimization.timestamp,
       });
@@ -1185,12 +1210,12 @@ export class DatabaseService {
   }
 
   /**
-   * Save or update a yield position
+   * Save or update a yield position by its position ID
    */
   async saveYieldPosition(
     position: {
+      positionId: number;
       userAddress: string;
-      positionIndex: number;
       vault: string;
       asset: string;
       shares: string;
@@ -1201,11 +1226,9 @@ export class DatabaseService {
   ): Promise<IYieldPosition> {
     try {
       const yieldPosition = await YieldPosition.findOneAndUpdate(
+        { positionId: position.positionId },
         {
           userAddress: position.userAddress.toLowerCase(),
-          positionIndex: position.positionIndex,
-        },
-        {
           vault: position.vault.toLowerCase(),
           asset: position.asset.toLowerCase(),
           shares: position.shares,
@@ -1223,6 +1246,21 @@ export class DatabaseService {
     }
   }
 
+  /**
+   * Mark a closed or merged position inactive (the contract deletes it and burns its receipt)
+   */
+  async closeYieldPosition(positionId: number): Promise<void> {
+    try {
+      await YieldPosition.updateOne(
+        { positionId },
+        { shares: "0", assets: "0", active: false }
+      );
+    } catch (error) {
+      console.error(`❌ Failed to close yield position ${positionId}:`, error);
+      throw error;
+    }
+  }
+
   /**
    * Get yield optimization statistics
    */
@@ -1230,6 +1268,7 @@ export class DatabaseService {
     totalOptimizations: number;
     successfulOptimizations: number;
     totalAssetsReallocated: string;
+    totalFeesCharged: string;
     averageAPYImprovement: number;
   }> {
     try {
@@ -1244,6 +1283,11 @@ export class DatabaseService {
         (sum, opt) => sum + BigInt(opt.assetsReallocated),
         BigInt(0)
       ).toString();
+
+      const totalFeesCharged = optimizations.reduce(
+        (sum, opt) => sum + BigInt(opt.feeCharged || "0"),
+        BigInt(0)
+      ).toString();
       
       const apyImprovements = optimizations.map(
         (opt) => opt.newAPY - opt.previousAPY
@@ -1258,6 +1302,7 @@ export class DatabaseService {
         totalOptimizations,
         successfulOptimizations,
         totalAssetsReallocated,
+        totalFeesCharged,
         averageAPYImprovement,
       };
     } catch (error) {
@@ -1265,4 +1310,575 @@ export class DatabaseService {
       throw error;
     }
   }
+
+  /**
+   * Get the last block processed by an indexer
+   */
+  async getIndexerCheckpoint(name: string): Promise<bigint | null> {
+    try {
+      const checkpoint = await IndexerCheckpoint.findOne({ name });
+      return checkpoint ? BigInt(checkpoint.lastProcessedBlock) : null;
+    } catch (error) {
+      console.error(`❌ Failed to get indexer checkpoint ${name}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Save the last block processed by an indexer
+   */
+  async saveIndexerCheckpoint(name: string, blockNumber: bigint): Promise<void> {
+    try {
+      await IndexerCheckpoint.findOneAndUpdate(
+        { name },
+        { lastProcessedBlock: Number(blockNumber) },
+        { upsert: true, new: true }
+      );
+    } catch (error) {
+      console.error(`❌ Failed to save indexer checkpoint ${name}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Save APY snapshots collected from the GlueX Yields API
+   */
+  async saveAPYSnapshots(
+    snapshots: Array<{
+      vault: string;
+      asset: string;
+      apy: number;
+      apr: number;
+      tvl?: string;
+      timestamp: Date;
+    }>
+  ): Promise<void> {
+    if (snapshots.length === 0) {
+      return;
+    }
+
+    try {
+      await APYSnapshot.insertMany(
+        snapshots.map((snapshot) => ({
+          ...snapshot,
+          vault: snapshot.vault.toLowerCase(),
+          asset: snapshot.asset.toLowerCase(),
+        }))
+      );
+      console.log(`💾 Saved ${snapshots.length} APY snapshots`);
+    } catch (error) {
+      console.error(`❌ Failed to save APY snapshots:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the most recent APY snapshot for a vault
+   */
+  async getLatestAPYSnapshot(vault: string): Promise<IAPYSnapshot | null> {
+    try {
+      return await APYSnapshot.findOne({ vault: vault.toLowerCase() }).sort({
+        timestamp: -1,
+      });
+    } catch (error) {
+      console.error(`❌ Failed to get latest APY snapshot for ${vault}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Get APY snapshots for a vault in a time range (oldest first)
+   */
+  async getAPYSnapshots(
+    vault: string,
+    from: Date,
+    to: Date
+  ): Promise<IAPYSnapshot[]> {
+    try {
+      return await APYSnapshot.find({
+        vault: vault.toLowerCase(),
+        timestamp: { $gte: from, $lte: to },
+      }).sort({ timestamp: 1 });
+    } catch (error) {
+      console.error(`❌ Failed to get APY snapshots for ${vault}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Create a running optimize-all job
+   */
+  async createOptimizationJob(
+    trigger: "manual" | "scheduled"
+  ): Promise<IOptimizationJob> {
+    try {
+      const job = await new OptimizationJob({
+        status: "running",
+        trigger,
+        startedAt: new Date(),
+      }).save();
+      console.log(`💾 Created optimization job ${job._id} (${trigger})`);
+      return job;
+    } catch (error) {
+      console.error(`❌ Failed to create optimization job:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update job fields (progress, counts, completion)
+   */
+  async updateOptimizationJob(
+    jobId: string,
+    update: Partial<{
+      status: OptimizationJobStatus;
+      totalPositions: number;
+      error: string;
+      completedAt: Date;
+    }>
+  ): Promise<void> {
+    try {
+      await OptimizationJob.findByIdAndUpdate(jobId, update);
+    } catch (error) {
+      console.error(`❌ Failed to update optimization job ${jobId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Append a position result to a job and bump its counters
+   */
+  async addOptimizationJobResult(
+    jobId: string,
+    result: Record<string, any>,
+    outcome: "optimized" | "skipped" | "failed"
+  ): Promise<void> {
+    try {
+      const counter = `${outcome}Count`;
+      await OptimizationJob.findByIdAndUpdate(jobId, {
+        $push: { results: result },
+        $inc: { processedPositions: 1, [counter]: 1 },
+      });
+    } catch (error) {
+      console.error(`❌ Failed to record result for optimization job ${jobId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get recent optimization jobs (without per-position results)
+   */
+  async getOptimizationJobs(
+    limit: number = 20,
+    status?: OptimizationJobStatus
+  ): Promise<IOptimizationJob[]> {
+    try {
+      return await OptimizationJob.find(status ? { status } : {})
+        .select("-results")
+        .sort({ startedAt: -1 })
+        .limit(limit);
+    } catch (error) {
+      console.error(`❌ Failed to get optimization jobs:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get an optimization job with its per-position results
+   */
+  async getOptimizationJob(jobId: string): Promise<IOptimizationJob | null> {
+    try {
+      return await OptimizationJob.findById(jobId);
+    } catch (error) {
+      console.error(`❌ Failed to get optimization job ${jobId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Mark jobs left running by a previous process as failed
+   */
+  async failInterruptedOptimizationJobs(): Promise<number> {
+    try {
+      const result = await OptimizationJob.updateMany(
+        { status: "running" },
+        {
+          status: "failed",
+          error: "Interrupted by service restart",
+          completedAt: new Date(),
+        }
+      );
+      return result.modifiedCount;
+    } catch (error) {
+      console.error(`❌ Failed to fail interrupted optimization jobs:`, error);
+      return 0;
+    }
+  }
+
+  /**
+   * Get stored scheduler settings
+   */
+  async getSchedulerSettings(name: string): Promise<SchedulerSettingsValues | null> {
+    try {
+      const settings = await SchedulerSettings.findOne({ name });
+      if (!settings) {
+        return null;
+      }
+
+      return {
+        cronExpression: settings.cronExpression,
+        optimizationThreshold: settings.optimizationThreshold,
+        maxPositionsPerRun: settings.maxPositionsPerRun,
+        enabled: settings.enabled,
+      };
+    } catch (error) {
+      console.error(`❌ Failed to get scheduler settings ${name}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Save scheduler settings
+   */
+  async saveSchedulerSettings(
+    name: string,
+    settings: SchedulerSettingsValues
+  ): Promise<void> {
+    try {
+      await SchedulerSettings.findOneAndUpdate({ name }, settings, {
+        upsert: true,
+        new: true,
+      });
+    } catch (error) {
+      console.error(`❌ Failed to save scheduler settings ${name}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the allowlist entry for a router
+   */
+  async getRouterPolicy(address: string): Promise<IRouterPolicy | null> {
+    try {
+      return await RouterPolicy.findOne({ address: address.toLowerCase() });
+    } catch (error) {
+      console.error(`❌ Failed to get router policy ${address}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * List router allowlist entries, optionally by status
+   */
+  async getRouterPolicies(status?: RouterPolicyStatus): Promise<IRouterPolicy[]> {
+    try {
+      return await RouterPolicy.find(status ? { status } : {}).sort({ lastSeenAt: -1, createdAt: -1 });
+    } catch (error) {
+      console.error(`❌ Failed to get router policies:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Record that a quote pointed at a router; unknown routers are added as pending
+   */
+  async recordRouterSighting(address: string, codeHash: string | null): Promise<IRouterPolicy> {
+    try {
+      const now = new Date();
+      const policy = await RouterPolicy.findOneAndUpdate(
+        { address: address.toLowerCase() },
+        {
+          $setOnInsert: {
+            status: "pending",
+            source: "quote",
+            codeHash: codeHash || undefined,
+            firstSeenAt: now,
+          },
+          $set: { lastSeenAt: now },
+          $inc: { seenCount: 1 },
+        },
+        { upsert: true, new: true }
+      );
+      return policy as IRouterPolicy;
+    } catch (error) {
+      console.error(`❌ Failed to record router ${address}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Create or update a router allowlist entry
+   */
+  async saveRouterPolicy(
+    address: string,
+    update: Partial<{
+      status: RouterPolicyStatus;
+      codeHash: string;
+      label: string;
+      source: "config" | "quote" | "admin";
+      reviewedBy: string;
+      reviewedAt: Date;
+      reason: string;
+    }>
+  ): Promise<IRouterPolicy> {
+    try {
+      const policy = await RouterPolicy.findOneAndUpdate(
+        { address: address.toLowerCase() },
+        update,
+        { upsert: true, new: true, setDefaultsOnInsert: true }
+      );
+      return policy as IRouterPolicy;
+    } catch (error) {
+      console.error(`❌ Failed to save router policy ${address}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Save vault health samples
+   */
+  async saveVaultHealthSnapshots(
+    snapshots: Array<{
+      vault: string;
+      sharePrice: string;
+      totalAssets: string;
+      withdrawableAssets: string;
+      holdings: string;
+      timestamp: Date;
+    }>
+  ): Promise<void> {
+    if (snapshots.length === 0) {
+      return;
+    }
+
+    try {
+      await VaultHealthSnapshot.insertMany(
+        snapshots.map((snapshot) => ({
+          ...snapshot,
+          vault: snapshot.vault.toLowerCase(),
+        }))
+      );
+    } catch (error) {
+      console.error(`❌ Failed to save vault health snapshots:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get vault health samples since a given time (oldest first)
+   */
+  async getVaultHealthSnapshots(vault: string, from: Date): Promise<IVaultHealthSnapshot[]> {
+    try {
+      return await VaultHealthSnapshot.find({
+        vault: vault.toLowerCase(),
+        timestamp: { $gte: from },
+      }).sort({ timestamp: 1 });
+    } catch (error) {
+      console.error(`❌ Failed to get vault health snapshots for ${vault}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the quarantine record of a vault
+   */
+  async getVaultQuarantine(vault: string): Promise<IVaultQuarantine | null> {
+    try {
+      return await VaultQuarantine.findOne({ vault: vault.toLowerCase() });
+    } catch (error) {
+      console.error(`❌ Failed to get quarantine for ${vault}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * List vault quarantine records, optionally by status
+   */
+  async getVaultQuarantines(status?: VaultQuarantineStatus): Promise<IVaultQuarantine[]> {
+    try {
+      return await VaultQuarantine.find(status ? { status } : {}).sort({ quarantinedAt: -1 });
+    } catch (error) {
+      console.error(`❌ Failed to get vault quarantines:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Create or update the quarantine record of a vault
+   */
+  async saveVaultQuarantine(
+    vault: string,
+    update: Partial<{
+      status: VaultQuarantineStatus;
+      reason: string;
+      trigger: "sharePrice" | "tvl" | "manual";
+      sharePrice: string;
+      peakSharePrice: string;
+      totalAssets: string;
+      peakTotalAssets: string;
+      quarantinedAt: Date;
+      exitTransactionHash: string;
+      exitAssets: string;
+      exitError: string;
+      releasedAt: Date;
+    }>
+  ): Promise<IVaultQuarantine> {
+    try {
+      const quarantine = await VaultQuarantine.findOneAndUpdate(
+        { vault: vault.toLowerCase() },
+        update,
+        { upsert: true, new: true }
+      );
+      return quarantine as IVaultQuarantine;
+    } catch (error) {
+      console.error(`❌ Failed to save quarantine for ${vault}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Record a relayed request
+   */
+  async saveRelayRequest(
+    request: {
+      userAddress: string;
+      kind: RelayRequestKind;
+      nonce: string;
+      deadline: Date;
+      vault?: string;
+      amount?: string;
+      positionId?: number;
+      shares?: string;
+      status: RelayRequestStatus;
+    }
+  ): Promise<IRelayRequest> {
+    try {
+      return await RelayRequest.create(request);
+    } catch (error) {
+      console.error(`❌ Failed to save relay request for ${request.userAddress}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update the status of a relayed request
+   */
+  async updateRelayRequest(
+    id: string,
+    update: Partial<{
+      status: RelayRequestStatus;
+      transactionHash: string;
+      gasUsed: string;
+      error: string;
+    }>
+  ): Promise<void> {
+    try {
+      await RelayRequest.findByIdAndUpdate(id, update);
+    } catch (error) {
+      console.error(`❌ Failed to update relay request ${id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Count a user's relayed requests since a given time
+   */
+  async countRelayRequests(userAddress: string, since: Date): Promise<number> {
+    try {
+      return await RelayRequest.countDocuments({
+        userAddress: userAddress.toLowerCase(),
+        createdAt: { $gte: since },
+      });
+    } catch (error) {
+      console.error(`❌ Failed to count relay requests for ${userAddress}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Record a transaction the keeper wallet broadcast
+   */
+  async saveKeeperTransaction(
+    transaction: {
+      from: string;
+      nonce: number;
+      label: string;
+      to: string;
+      data: string;
+      value: string;
+      gas: string;
+      maxFeePerGas: string;
+      maxPriorityFeePerGas: string;
+      hashes: string[];
+      status: KeeperTransactionStatus;
+      lastBroadcastAt: Date;
+    }
+  ): Promise<IKeeperTransaction> {
+    try {
+      return await KeeperTransaction.create(transaction);
+    } catch (error) {
+      console.error(`❌ Failed to save keeper transaction ${transaction.hashes[0]}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update a keeper transaction after a replacement or once it was mined
+   */
+  async updateKeeperTransaction(
+    id: string,
+    update: Partial<{
+      maxFeePerGas: string;
+      maxPriorityFeePerGas: string;
+      hashes: string[];
+      speedUps: number;
+      cancelling: boolean;
+      stuck: boolean;
+      status: KeeperTransactionStatus;
+      transactionHash: string;
+      blockNumber: string;
+      gasUsed: string;
+      lastBroadcastAt: Date;
+      error: string;
+    }>
+  ): Promise<void> {
+    try {
+      await KeeperTransaction.findByIdAndUpdate(id, update);
+    } catch (error) {
+      console.error(`❌ Failed to update keeper transaction ${id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a wallet's transactions that were broadcast but not mined yet, lowest nonce first
+   */
+  async getPendingKeeperTransactions(from: string): Promise<IKeeperTransaction[]> {
+    try {
+      return await KeeperTransaction.find({
+        from: from.toLowerCase(),
+        status: "pending",
+      }).sort({ nonce: 1 });
+    } catch (error) {
+      console.error(`❌ Failed to get pending keeper transactions for ${from}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get recent keeper transactions, newest first
+   */
+  async getKeeperTransactions(
+    status?: KeeperTransactionStatus,
+    limit: number = 50
+  ): Promise<IKeeperTransaction[]> {
+    try {
+      return await KeeperTransaction.find(status ? { status } : {})
+        .sort({ createdAt: -1 })
+        .limit(limit);
+    } catch (error) {
+      console.error(`❌ Failed to get keeper transactions:`, error);
+      throw error;
+    }
+  }
 }
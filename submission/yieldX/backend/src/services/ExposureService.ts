@@ -0,0 +1,287 @@
+import { createPublicClient, http, parseAbi, PublicClient } from "viem";
+import { hyperevmMainnet } from "../config/chains";
+import { ExposureConfig, getExposureConfig } from "../config/exposure";
+import { GLUEX_VAULTS } from "../config/vaults";
+import { YieldOracleService } from "./YieldOracleService";
+
+const BPS = BigInt(10_000);
+
+// YieldOptimizer exposure views and ERC-4626 reads (minimal interface)
+const EXPOSURE_ABI = parseAbi([
+  "function vaultExposure(address vault) external view returns (uint256)",
+  "function vaultDepositCaps(address vault) external view returns (uint256)",
+  "function asset() external view returns (address)",
+  "function totalAssets() external view returns (uint256)",
+]);
+
+export type ExposureRule =
+  | "vaultCap"
+  | "vaultTvlShare"
+  | "protocolVaultShare"
+  | "protocolAssetShare";
+
+export interface ExposureRuleResult {
+  rule: ExposureRule;
+  passed: boolean;
+  limit: string; // Asset units for vaultCap, bps for share rules
+  actual: string; // Value after the allocation, same unit as limit
+  note?: string; // Why the rule was not (fully) evaluated
+}
+
+export interface ExposureCheck {
+  vault: string;
+  asset: string;
+  amount: string; // Assets being allocated (asset units)
+  allowed: boolean;
+  rules: ExposureRuleResult[];
+}
+
+export interface VaultExposure {
+  vault: string;
+  asset: string;
+  holdings: string; // Assets the optimizer holds in the vault
+  vaultTotalAssets: string;
+  depositCap: string; // On-chain cap, "0" = no cap
+  tvlUsd: number | null; // Vault TVL from GlueX, null when unknown
+  valueUsd: number | null; // Our holdings in USD, null when the vault has no USD TVL
+  tvlShareBps: number; // Our share of the vault's TVL
+}
+
+export interface ProtocolExposure {
+  totalValueUsd: number;
+  vaults: VaultExposure[];
+  assets: Array<{ asset: string; valueUsd: number; shareBps: number }>;
+  limits: ExposureConfig;
+}
+
+/**
+ * Exposure Service
+ * Keeps capital from piling into one vault or asset: enforces the on-chain per-vault cap up
+ * front, our maximum share of a vault's TVL, and the maximum share of protocol assets per
+ * vault and per underlying asset (valued in USD from each vault's GlueX TVL).
+ */
+export class ExposureService {
+  private client: PublicClient;
+  private optimizerContract: string;
+  private yieldOracle: YieldOracleService;
+  private config: ExposureConfig;
+
+  constructor(
+    optimizerContractAddress: string,
+    yieldOracle: YieldOracleService,
+    config: ExposureConfig = getExposureConfig()
+  ) {
+    this.optimizerContract = optimizerContractAddress;
+    this.yieldOracle = yieldOracle;
+    this.config = config;
+
+    // Initialize blockchain client
+    this.client = createPublicClient({
+      chain: hyperevmMainnet,
+      transport: http(
+        process.env.RPC_URL ||
+          process.env.HYPEREVM_RPC_URL ||
+          "https://rpc.hyperevm.com"
+      ),
+    });
+  }
+
+  getConfig(): ExposureConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * Read what the protocol holds in each GlueX vault and how it is spread over assets
+   */
+  async getProtocolExposure(): Promise<ProtocolExposure> {
+    const opportunities = await this.yieldOracle.getYieldOpportunities(GLUEX_VAULTS);
+    const tvlByVault: Record<string, string | undefined> = {};
+    for (const opp of opportunities) {
+      tvlByVault[opp.vault.toLowerCase()] = opp.tvl;
+    }
+
+    const vaults = await Promise.all(
+      GLUEX_VAULTS.map((vault) => this.readVaultExposure(vault, tvlByVault[vault]))
+    );
+
+    const totalValueUsd = vaults.reduce((sum, vault) => sum + (vault.valueUsd || 0), 0);
+
+    const assetValues: Record<string, number> = {};
+    for (const vault of vaults) {
+      assetValues[vault.asset] = (assetValues[vault.asset] || 0) + (vault.valueUsd || 0);
+    }
+
+    return {
+      totalValueUsd,
+      vaults,
+      assets: Object.entries(assetValues).map(([asset, valueUsd]) => ({
+        asset,
+        valueUsd,
+        shareBps: totalValueUsd > 0 ? Math.round((valueUsd / totalValueUsd) * 10_000) : 0,
+      })),
+      limits: this.getConfig(),
+    };
+  }
+
+  /**
+   * Check whether `amount` assets may be allocated to a vault
+   * With `fromVault` the assets move between vaults (protocol TVL is unchanged); without it
+   * they are new deposits. Share rules only fail when the share would rise above the limit.
+   */
+  async checkAllocation(
+    params: { vault: string; amount: bigint; fromVault?: string },
+    snapshot?: ProtocolExposure
+  ): Promise<ExposureCheck> {
+    const exposure = snapshot || (await this.getProtocolExposure());
+    const vaultKey = params.vault.toLowerCase();
+    const target =
+      exposure.vaults.find((vault) => vault.vault === vaultKey) ||
+      (await this.readVaultExposure(vaultKey, undefined));
+    const source = params.fromVault
+      ? exposure.vaults.find((vault) => vault.vault === params.fromVault!.toLowerCase())
+      : undefined;
+
+    const holdings = BigInt(target.holdings);
+    const totalAssets = BigInt(target.vaultTotalAssets);
+    const rules: ExposureRuleResult[] = [];
+
+    // On-chain per-vault cap (the contract reverts above it)
+    const cap = BigInt(target.depositCap);
+    rules.push({
+      rule: "vaultCap",
+      passed: cap === BigInt(0) || holdings + params.amount <= cap,
+      limit: target.depositCap,
+      actual: (holdings + params.amount).toString(),
+      note: cap === BigInt(0) ? "No on-chain cap" : undefined,
+    });
+
+    // Our share of the vault's TVL
+    const tvlAfter = totalAssets + params.amount;
+    const tvlShareAfter =
+      tvlAfter > BigInt(0) ? Number(((holdings + params.amount) * BPS) / tvlAfter) : 0;
+    rules.push({
+      rule: "vaultTvlShare",
+      passed:
+        tvlShareAfter <= this.config.maxVaultTvlShareBps ||
+        tvlShareAfter <= target.tvlShareBps,
+      limit: this.config.maxVaultTvlShareBps.toString(),
+      actual: tvlShareAfter.toString(),
+    });
+
+    // Protocol share rules, valued in USD from the target vault's TVL
+    const usdPerAsset =
+      target.tvlUsd !== null && totalAssets > BigInt(0)
+        ? target.tvlUsd / Number(totalAssets)
+        : null;
+    const protocolRules = ["protocolVaultShare", "protocolAssetShare"] as const;
+
+    if (usdPerAsset === null) {
+      for (const rule of protocolRules) {
+        rules.push({
+          rule,
+          passed: true,
+          limit: this.limitFor(rule).toString(),
+          actual: "0",
+          note: "Vault has no USD TVL; rule not evaluated",
+        });
+      }
+    } else {
+      const amountUsd = Number(params.amount) * usdPerAsset;
+      const moving = source !== undefined;
+      const totalAfter = exposure.totalValueUsd + (moving ? 0 : amountUsd);
+      const assetValue =
+        exposure.assets.find((asset) => asset.asset === target.asset)?.valueUsd || 0;
+      const sameAsset = moving && source!.asset === target.asset;
+
+      const shares: Record<(typeof protocolRules)[number], { before: number; after: number }> = {
+        protocolVaultShare: {
+          before: exposure.totalValueUsd > 0 ? (target.valueUsd || 0) / exposure.totalValueUsd : 0,
+          after: totalAfter > 0 ? ((target.valueUsd || 0) + amountUsd) / totalAfter : 0,
+        },
+        protocolAssetShare: {
+          before: exposure.totalValueUsd > 0 ? assetValue / exposure.totalValueUsd : 0,
+          after: totalAfter > 0 ? (assetValue + (sameAsset ? 0 : amountUsd)) / totalAfter : 0,
+        },
+      };
+      const belowMinTvl = totalAfter < this.config.minProtocolTvlUsd;
+
+      for (const rule of protocolRules) {
+        const limit = this.limitFor(rule);
+        const afterBps = Math.round(shares[rule].after * 10_000);
+        const beforeBps = Math.round(shares[rule].before * 10_000);
+
+        rules.push({
+          rule,
+          passed: belowMinTvl || afterBps <= limit || afterBps <= beforeBps,
+          limit: limit.toString(),
+          actual: afterBps.toString(),
+          note: belowMinTvl
+            ? `Protocol TVL below $${this.config.minProtocolTvlUsd}; limit not enforced`
+            : undefined,
+        });
+      }
+    }
+
+    return {
+      vault: vaultKey,
+      asset: target.asset,
+      amount: params.amount.toString(),
+      allowed: rules.every((rule) => rule.passed),
+      rules,
+    };
+  }
+
+  private limitFor(rule: ExposureRule): number {
+    return rule === "protocolVaultShare"
+      ? this.config.maxProtocolVaultShareBps
+      : this.config.maxProtocolAssetShareBps;
+  }
+
+  private async readVaultExposure(
+    vault: string,
+    tvl: string | undefined
+  ): Promise<VaultExposure> {
+    const [asset, totalAssets, holdings, depositCap] = await Promise.all([
+      this.client.readContract({
+        address: vault as `0x`,
+        abi: EXPOSURE_ABI,
+        functionName: "asset",
+      }),
+      this.client.readContract({
+        address: vault as `0x`,
+        abi: EXPOSURE_ABI,
+        functionName: "totalAssets",
+      }),
+      this.client.readContract({
+        address: this.optimizerContract as `0x`,
+        abi: EXPOSURE_ABI,
+        functionName: "vaultExposure",
+        args: [vault as `0x`],
+      }),
+      this.client.readContract({
+        address: this.optimizerContract as `0x`,
+        abi: EXPOSURE_ABI,
+        functionName: "vaultDepositCaps",
+        args: [vault as `0x`],
+      }),
+    ]);
+
+    const parsedTvl = tvl !== undefined ? Number(tvl) : NaN;
+    const tvlUsd = Number.isFinite(parsedTvl) && parsedTvl >= 0 ? parsedTvl : null;
+    const valueUsd =
+      tvlUsd !== null && totalAssets > BigInt(0)
+        ? (tvlUsd * Number(holdings)) / Number(totalAssets)
+        : null;
+
+    return {
+      vault: vault.toLowerCase(),
+      asset: asset.toLowerCase(),
+      holdings: holdings.toString(),
+      vaultTotalAssets: totalAssets.toString(),
+      depositCap: depositCap.toString(),
+      tvlUsd,
+      valueUsd,
+      tvlShareBps: totalAssets > BigInt(0) ? Number((holdings * BPS) / totalAssets) : 0,
+    };
+  }
+}
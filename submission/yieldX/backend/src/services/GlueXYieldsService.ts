@@ -7,6 +7,7 @@ export interface YieldOpportunity {
   apr: number;
   tvl?: string;
   riskLevel?: string;
+  apyHistory?: number[];
   timestamp: number;
 }
 
@@ -30,6 +31,7 @@ export interface HistoricalAPYResponse {
     }>;
     averageAPY?: number;
     currentAPY?: number;
+    tvl?: string;
   };
   error?: string;
 }
@@ -135,6 +137,7 @@ export class GlueXYieldsService {
         historicalAPY,
         currentAPY: responseData.current_apy || responseData.apy || responseData.currentAPY,
         averageAPY: responseData.average_apy || responseData.averageAPY,
+        tvl: responseData.tvl !== undefined ? String(responseData.tvl) : undefined,
       };
 
       // If we have historical data but no current/average, calculate it
@@ -211,6 +214,8 @@ export class GlueXYieldsService {
               asset: response.data.asset || "unknown",
               apy: apy,
               apr: response.data.currentAPY || apy,
+              tvl: response.data.tvl,
+              apyHistory: response.data.historicalAPY.map((point) => point.apy),
               timestamp: Date.now(),
             });
           } else {
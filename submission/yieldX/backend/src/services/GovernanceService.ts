@@ -0,0 +1,129 @@
+import { createPublicClient, http, parseAbi } from "viem";
+import { hyperevmMainnet } from "../config/chains";
+
+// YieldOptimizer governance timelock (minimal interface)
+export const GOVERNANCE_ABI = parseAbi([
+  "function queueOperation(uint8 _action, address _target, uint256 _value) external returns (bytes32)",
+  "function executeOperation(bytes32 _id) external",
+  "function cancelOperation(bytes32 _id) external",
+  "function getPendingOperations() external view returns (bytes32[] ids, (uint8 action, address target, uint256 value, uint256 executableAt)[] operations)",
+  "function timelockDelay() external view returns (uint256)",
+  "function OPERATION_GRACE_PERIOD() external view returns (uint256)",
+]);
+
+// Mirrors YieldOptimizer.GovernanceAction
+export const GOVERNANCE_ACTIONS = [
+  "WhitelistVault",
+  "WhitelistRouter",
+  "AddGlueXVault",
+  "UpdateProtocolFee",
+  "SetTimelockDelay",
+  "SetVaultDepositCap",
+] as const;
+
+export type GovernanceAction = (typeof GOVERNANCE_ACTIONS)[number];
+
+export interface PendingOperation {
+  id: string;
+  action: GovernanceAction;
+  target: string;
+  value: string;
+  executableAt: string; // ISO timestamp
+  expiresAt: string; // ISO timestamp, executableAt + grace period
+  ready: boolean;
+  expired: boolean;
+  secondsUntilExecutable: number;
+}
+
+/**
+ * Governance Service
+ * Reads the YieldOptimizer timelock queue so pending whitelist and fee changes are visible
+ */
+export class GovernanceService {
+  private client: any;
+  private optimizerContract: string;
+
+  constructor(optimizerContractAddress: string) {
+    this.optimizerContract = optimizerContractAddress;
+
+    // Initialize blockchain client
+    this.client = createPublicClient({
+      chain: hyperevmMainnet,
+      transport: http(
+        process.env.RPC_URL ||
+          process.env.HYPEREVM_RPC_URL ||
+          "https://rpc.hyperevm.com"
+      ),
+    });
+  }
+
+  /**
+   * Get the delay (seconds) between queueing and executing an operation
+   */
+  async getTimelockDelay(): Promise<number> {
+    const delay = await this.client.readContract({
+      address: this.optimizerContract as `0x`,
+      abi: GOVERNANCE_ABI,
+      functionName: "timelockDelay",
+    });
+    return Number(delay);
+  }
+
+  /**
+   * Get all queued operations with their execution window
+   */
+  async getPendingOperations(): Promise<PendingOperation[]> {
+    const [[ids, operations], gracePeriod, block] = await Promise.all([
+      this.client.readContract({
+        address: this.optimizerContract as `0x`,
+        abi: GOVERNANCE_ABI,
+        functionName: "getPendingOperations",
+      }),
+      this.client.readContract({
+        address: this.optimizerContract as `0x`,
+        abi: GOVERNANCE_ABI,
+        functionName: "OPERATION_GRACE_PERIOD",
+      }),
+      this.client.getBlock(),
+    ]);
+
+    // Compare against chain time, which is what the contract checks
+    const now = block.timestamp as bigint;
+
+    return (ids as string[]).map((id, i) => {
+      const operation = operations[i];
+      const executableAt = operation.executableAt as bigint;
+      const expiresAt = executableAt + (gracePeriod as bigint);
+
+      return {
+        id,
+        action: GOVERNANCE_ACTIONS[Number(operation.action)],
+        target: operation.target,
+        value: operation.value.toString(),
+        executableAt: new Date(Number(executableAt) * 1000).toISOString(),
+        expiresAt: new Date(Number(expiresAt) * 1000).toISOString(),
+        ready: now >= executableAt && now <= expiresAt,
+        expired: now > expiresAt,
+        secondsUntilExecutable: now >= executableAt ? 0 : Number(executableAt - now),
+      };
+    });
+  }
+
+  /**
+   * Find a queued operation for an action and target, if any
+   */
+  async findPendingOperation(
+    action: GovernanceAction,
+    target: string
+  ): Promise<PendingOperation | null> {
+    const operations = await this.getPendingOperations();
+    return (
+      operations.find(
+        (operation) =>
+          operation.action === action &&
+          operation.target.toLowerCase() === target.toLowerCase() &&
+          !operation.expired
+      ) || null
+    );
+  }
+}
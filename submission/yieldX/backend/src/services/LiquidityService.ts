@@ -0,0 +1,253 @@
+import { createPublicClient, http, parseAbi, PublicClient } from "viem";
+import { hyperevmMainnet } from "../config/chains";
+import { getLiquidityConfig, LiquidityConfig } from "../config/liquidity";
+
+const BPS = BigInt(10_000);
+const MAX_UINT256 = (BigInt(1) << BigInt(256)) - BigInt(1);
+
+// ERC-4626 liquidity limits and redeem preview (minimal interface)
+const LIQUIDITY_ABI = parseAbi([
+  "function maxRedeem(address owner) external view returns (uint256)",
+  "function maxDeposit(address receiver) external view returns (uint256)",
+  "function previewRedeem(uint256 shares) external view returns (uint256)",
+]);
+
+export type LiquidityAction = "full" | "partial" | "skip";
+
+export interface LiquidityCheck {
+  action: LiquidityAction;
+  positionShares: string;
+  sharesToMove: string; // "0" when skipped
+  maxRedeem: string; // Shares the optimizer can redeem from the source vault right now
+  maxDeposit: string; // Assets the target vault accepts from the optimizer (target asset units)
+  expectedAssets: string; // previewRedeem(sharesToMove) on the source vault
+  reason?: string; // Which limit shrank or blocked the move
+}
+
+/**
+ * Liquidity Service
+ * Sizes a reallocation to what the source vault can redeem (maxRedeem) and the target vault
+ * can accept (maxDeposit), so a limited vault shrinks or skips the move instead of reverting
+ * the whole transaction. Whatever is left in the source vault is picked up by later runs.
+ */
+export class LiquidityService {
+  private client: PublicClient;
+  private optimizerContract: string;
+  private config: LiquidityConfig;
+
+  constructor(optimizerContractAddress: string, config: LiquidityConfig = getLiquidityConfig()) {
+    this.optimizerContract = optimizerContractAddress;
+    this.config = config;
+
+    // Initialize blockchain client
+    this.client = createPublicClient({
+      chain: hyperevmMainnet,
+      transport: http(
+        process.env.RPC_URL ||
+          process.env.HYPEREVM_RPC_URL ||
+          "https://rpc.hyperevm.com"
+      ),
+    });
+  }
+
+  getConfig(): LiquidityConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * Plan how many of a position's shares can move between two vaults
+   * The target's deposit limit is in its own asset, so it is only applied here for same-asset
+   * moves; swaps are checked against the quoted output with `fitToDepositLimit`.
+   * With `allowAnyAmount` any movable part is moved, however small.
+   */
+  async checkLiquidity(params: {
+    sourceVault: string;
+    targetVault: string;
+    positionShares: bigint;
+    sameAsset: boolean;
+    allowAnyAmount?: boolean;
+  }): Promise<LiquidityCheck> {
+    const [maxRedeem, maxDeposit] = await Promise.all([
+      this.client.readContract({
+        address: params.sourceVault as `0x`,
+        abi: LIQUIDITY_ABI,
+        functionName: "maxRedeem",
+        args: [this.optimizerContract as `0x`],
+      }),
+      this.client.readContract({
+        address: params.targetVault as `0x`,
+        abi: LIQUIDITY_ABI,
+        functionName: "maxDeposit",
+        args: [this.optimizerContract as `0x`],
+      }),
+    ]);
+
+    const reasons: string[] = [];
+    let shares = params.positionShares;
+
+    // maxRedeem covers every position the optimizer holds in the vault, so it is a ceiling
+    if (maxRedeem < shares) {
+      shares = this.withBuffer(maxRedeem);
+      reasons.push(
+        `Source vault can only redeem ${maxRedeem} of the position's ${params.positionShares} shares`
+      );
+    }
+
+    let expectedAssets = await this.previewRedeem(params.sourceVault, shares);
+
+    if (params.sameAsset && expectedAssets > maxDeposit) {
+      reasons.push(
+        `Target vault only accepts ${maxDeposit} of the ${expectedAssets} assets being moved`
+      );
+      shares = (shares * this.withBuffer(maxDeposit)) / expectedAssets;
+      expectedAssets = await this.previewRedeem(params.sourceVault, shares);
+    }
+
+    return this.decide({
+      sourceVault: params.sourceVault,
+      positionShares: params.positionShares,
+      shares,
+      expectedAssets,
+      maxRedeem,
+      maxDeposit,
+      reasons,
+      allowAnyAmount: params.allowAnyAmount,
+    });
+  }
+
+  /**
+   * Shrink a planned move so the quoted swap output fits the target vault's deposit limit
+   * Returns the check unchanged when the output already fits.
+   */
+  async fitToDepositLimit(
+    check: LiquidityCheck,
+    sourceVault: string,
+    expectedTargetAssets: bigint,
+    allowAnyAmount?: boolean
+  ): Promise<LiquidityCheck> {
+    const maxDeposit = BigInt(check.maxDeposit);
+    if (check.action === "skip" || expectedTargetAssets <= maxDeposit) {
+      return check;
+    }
+
+    const plannedShares = BigInt(check.sharesToMove);
+    const shares = (plannedShares * this.withBuffer(maxDeposit)) / expectedTargetAssets;
+    const expectedAssets = await this.previewRedeem(sourceVault, shares);
+
+    return this.decide({
+      sourceVault,
+      positionShares: BigInt(check.positionShares),
+      shares,
+      expectedAssets,
+      maxRedeem: BigInt(check.maxRedeem),
+      maxDeposit,
+      reasons: [
+        ...(check.reason ? [check.reason] : []),
+        `Target vault only accepts ${maxDeposit} of the ${expectedTargetAssets} swapped assets`,
+      ],
+      allowAnyAmount,
+    });
+  }
+
+  /**
+   * Read what the optimizer can redeem from a source vault and deposit into target vaults,
+   * keeping LIQUIDITY_BUFFER_BPS below any limit that is not unlimited
+   */
+  async getUsableLimits(
+    sourceVault: string,
+    targetVaults: string[]
+  ): Promise<{ maxRedeem: bigint; maxDeposit: Record<string, bigint> }> {
+    const [maxRedeem, ...maxDeposits] = await Promise.all([
+      this.client.readContract({
+        address: sourceVault as `0x`,
+        abi: LIQUIDITY_ABI,
+        functionName: "maxRedeem",
+        args: [this.optimizerContract as `0x`],
+      }),
+      ...targetVaults.map((vault) =>
+        this.client.readContract({
+          address: vault as `0x`,
+          abi: LIQUIDITY_ABI,
+          functionName: "maxDeposit",
+          args: [this.optimizerContract as `0x`],
+        })
+      ),
+    ]);
+
+    const maxDeposit: Record<string, bigint> = {};
+    targetVaults.forEach((vault, i) => {
+      maxDeposit[vault.toLowerCase()] = this.usable(maxDeposits[i]);
+    });
+
+    return { maxRedeem: this.usable(maxRedeem), maxDeposit };
+  }
+
+  /**
+   * Assets a redeem of `shares` returns from a vault right now
+   */
+  async previewRedeem(vault: string, shares: bigint): Promise<bigint> {
+    if (shares === BigInt(0)) {
+      return BigInt(0);
+    }
+    return this.client.readContract({
+      address: vault as `0x`,
+      abi: LIQUIDITY_ABI,
+      functionName: "previewRedeem",
+      args: [shares],
+    });
+  }
+
+  private decide(params: {
+    sourceVault: string;
+    positionShares: bigint;
+    shares: bigint;
+    expectedAssets: bigint;
+    maxRedeem: bigint;
+    maxDeposit: bigint;
+    reasons: string[];
+    allowAnyAmount?: boolean;
+  }): LiquidityCheck {
+    const { positionShares, shares, expectedAssets, reasons } = params;
+    let action: LiquidityAction = shares >= positionShares ? "full" : "partial";
+
+    if (shares === BigInt(0) || expectedAssets === BigInt(0)) {
+      action = "skip";
+      reasons.push("Nothing can be moved right now");
+    } else if (
+      action === "partial" &&
+      !params.allowAnyAmount &&
+      shares * BPS < positionShares * BigInt(this.config.minPartialBps)
+    ) {
+      action = "skip";
+      reasons.push(
+        `Movable part (${(shares * BPS) / positionShares} bps of the position) is below the ${this.config.minPartialBps} bps minimum`
+      );
+    }
+
+    if (action !== "full") {
+      console.log(
+        `💧 Liquidity for position in ${params.sourceVault}: ${action} (${shares}/${positionShares} shares). ${reasons.join("; ")}`
+      );
+    }
+
+    return {
+      action,
+      positionShares: positionShares.toString(),
+      sharesToMove: action === "skip" ? "0" : shares.toString(),
+      maxRedeem: params.maxRedeem.toString(),
+      maxDeposit: params.maxDeposit.toString(),
+      expectedAssets: action === "skip" ? "0" : expectedAssets.toString(),
+      reason: reasons.length > 0 ? reasons.join("; ") : undefined,
+    };
+  }
+
+  // Keep bufferBps below a reported limit
+  private withBuffer(limit: bigint): bigint {
+    return (limit * (BPS - BigInt(this.config.bufferBps))) / BPS;
+  }
+
+  // Unlimited (type(uint256).max) limits are left as they are
+  private usable(limit: bigint): bigint {
+    return limit === MAX_UINT256 ? limit : this.withBuffer(limit);
+  }
+}
@@ -0,0 +1,414 @@
+import { DatabaseService } from "./DatabaseService";
+import { BaseError, createPublicClient, http, parseAbi, verifyTypedData } from "viem";
+import { hyperevmMainnet } from "../config/chains";
+import { createRelayerWallet, getRelayConfig, RelayConfig } from "../config/relay";
+import { RelayRequestKind, RelayRequestStatus } from "../models/RelayRequest";
+
+const ZERO_BYTES32 = `0x${"0".repeat(64)}` as const;
+
+// YieldOptimizer signed-request entry points (minimal interface)
+const RELAY_OPTIMIZER_ABI = parseAbi([
+  "function depositBySig((address user, address vault, uint256 amount, uint256 minSharesOut, uint256 nonce, uint256 deadline) request, bytes signature, uint8 v, bytes32 r, bytes32 s) external returns (uint256)",
+  "function withdrawBySig((address user, uint256 positionId, uint256 shares, uint256 minAssetsOut, uint256 nonce, uint256 deadline) request, bytes signature) external returns (uint256)",
+  "function nonces(address owner) external view returns (uint256)",
+]);
+
+// EIP-712 types; must match DEPOSIT_TYPEHASH / WITHDRAW_TYPEHASH in YieldOptimizer
+export const RELAY_TYPES = {
+  DepositRequest: [
+    { name: "user", type: "address" },
+    { name: "vault", type: "address" },
+    { name: "amount", type: "uint256" },
+    { name: "minSharesOut", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+  WithdrawRequest: [
+    { name: "user", type: "address" },
+    { name: "positionId", type: "uint256" },
+    { name: "shares", type: "uint256" },
+    { name: "minAssetsOut", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+} as const;
+
+export interface DepositRequest {
+  user: `0x${string}`;
+  vault: `0x${string}`;
+  amount: bigint;
+  minSharesOut: bigint;
+  nonce: bigint;
+  deadline: bigint;
+}
+
+export interface WithdrawRequest {
+  user: `0x${string}`;
+  positionId: bigint;
+  shares: bigint;
+  minAssetsOut: bigint;
+  nonce: bigint;
+  deadline: bigint;
+}
+
+export interface PermitSignature {
+  v: number;
+  r: `0x${string}`;
+  s: `0x${string}`;
+}
+
+export type SignedRequest =
+  | { kind: "deposit"; request: DepositRequest; signature: `0x${string}`; permit?: PermitSignature }
+  | { kind: "withdraw"; request: WithdrawRequest; signature: `0x${string}` };
+
+export interface RelayResult {
+  success: boolean;
+  kind: RelayRequestKind;
+  userAddress: string;
+  status?: RelayRequestStatus; // "submitted" when the receipt did not arrive in time
+  transactionHash?: string;
+  gasUsed?: string;
+  rateLimited?: boolean;
+  error?: string;
+}
+
+// A relayed request that has been broadcast, before its receipt is awaited
+interface SubmittedRelay {
+  recordId: string;
+  transactionHash: `0x${string}`;
+}
+
+const ADDRESS_PATTERN = /^0x[0-9a-fA-F]{40}$/;
+const UINT_PATTERN = /^[0-9]+$/;
+const BYTES32_PATTERN = /^0x[0-9a-fA-F]{64}$/;
+
+/**
+ * Parse a signed request from a JSON body, returning an error message for invalid input
+ * Integers are expected as decimal strings (or numbers for small values).
+ */
+export const parseSignedRequest = (body: any): SignedRequest | string => {
+  const { kind, request, signature, permit } = body || {};
+  if (kind !== "deposit" && kind !== "withdraw") {
+    return 'kind must be "deposit" or "withdraw"';
+  }
+  if (!request || typeof request !== "object") {
+    return "request is required";
+  }
+  if (typeof signature !== "string" || !/^0x[0-9a-fA-F]+$/.test(signature)) {
+    return "signature must be a hex string";
+  }
+
+  const uintFields =
+    kind === "deposit"
+      ? ["amount", "minSharesOut", "nonce", "deadline"]
+      : ["positionId", "shares", "minAssetsOut", "nonce", "deadline"];
+  const addressFields = kind === "deposit" ? ["user", "vault"] : ["user"];
+
+  const parsed: Record<string, unknown> = {};
+  for (const field of addressFields) {
+    if (typeof request[field] !== "string" || !ADDRESS_PATTERN.test(request[field])) {
+      return `request.${field} must be an address`;
+    }
+    parsed[field] = request[field];
+  }
+  for (const field of uintFields) {
+    const value = typeof request[field] === "number" ? String(request[field]) : request[field];
+    if (typeof value !== "string" || !UINT_PATTERN.test(value)) {
+      return `request.${field} must be a non-negative integer string`;
+    }
+    parsed[field] = BigInt(value);
+  }
+
+  if (kind === "withdraw") {
+    return {
+      kind,
+      request: parsed as unknown as WithdrawRequest,
+      signature: signature as `0x${string}`,
+    };
+  }
+
+  if (permit !== undefined) {
+    if (
+      !Number.isInteger(permit?.v) ||
+      permit.v < 27 ||
+      permit.v > 28 ||
+      !BYTES32_PATTERN.test(permit.r) ||
+      !BYTES32_PATTERN.test(permit.s)
+    ) {
+      return "permit must be { v: 27 | 28, r: bytes32, s: bytes32 }";
+    }
+  }
+  return {
+    kind,
+    request: parsed as unknown as DepositRequest,
+    signature: signature as `0x${string}`,
+    permit,
+  };
+};
+
+/**
+ * Relay Service
+ * Submits users' EIP-712 signed deposits (with an EIP-2612 permit) and withdrawals from a
+ * relayer wallet so they never need HYPE for gas. Signatures, nonces and deadlines are
+ * checked and the call is simulated before anything is sent; every relayed transaction is
+ * recorded in MongoDB, which also backs the per-user rate limit. Submissions are serialized,
+ * so concurrent or duplicate requests cannot both pass the checks and be broadcast.
+ */
+export class RelayService {
+  private dbService: DatabaseService;
+  private client: any;
+  private relayerWallet: NonNullable<ReturnType<typeof createRelayerWallet>>;
+  private optimizerContract: string;
+  private config: RelayConfig;
+  private submitQueue: Promise<unknown> = Promise.resolve();
+  // Nonce of each user's latest broadcast request, held until it is mined or its deadline passes
+  private reservedNonces: Map<string, { nonce: bigint; deadline: bigint }> = new Map();
+
+  constructor(optimizerContractAddress: string, config: RelayConfig = getRelayConfig()) {
+    const relayerWallet = createRelayerWallet();
+    if (!relayerWallet) {
+      throw new Error("RELAYER_PRIVATE_KEY is not set");
+    }
+
+    this.dbService = DatabaseService.getInstance();
+    this.relayerWallet = relayerWallet;
+    this.optimizerContract = optimizerContractAddress;
+    this.config = config;
+
+    // Initialize blockchain client
+    this.client = createPublicClient({
+      chain: hyperevmMainnet,
+      transport: http(
+        process.env.RPC_URL ||
+          process.env.HYPEREVM_RPC_URL ||
+          "https://rpc.hyperevm.com"
+      ),
+    });
+
+    console.log(`📨 Relay Service initialized (relayer ${this.relayerWallet.account.address})`);
+  }
+
+  getConfig(): RelayConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * EIP-712 domain users sign their requests for
+   */
+  getDomain() {
+    return {
+      name: "YieldOptimizer",
+      version: "1",
+      chainId: hyperevmMainnet.id,
+      verifyingContract: this.optimizerContract as `0x${string}`,
+    };
+  }
+
+  /**
+   * Next nonce a user's signed request must carry
+   */
+  async getNonce(userAddress: string): Promise<bigint> {
+    return (await this.client.readContract({
+      address: this.optimizerContract as `0x`,
+      abi: RELAY_OPTIMIZER_ABI,
+      functionName: "nonces",
+      args: [userAddress as `0x`],
+    })) as bigint;
+  }
+
+  /**
+   * Check a signed request and submit it from the relayer wallet
+   */
+  async relay(signed: SignedRequest): Promise<RelayResult> {
+    const { request } = signed;
+    const result: RelayResult = {
+      success: false,
+      kind: signed.kind,
+      userAddress: request.user,
+    };
+
+    const now = BigInt(Math.floor(Date.now() / 1000));
+    if (request.deadline < now) {
+      return { ...result, error: "Request expired" };
+    }
+    if (request.deadline > now + BigInt(this.config.maxDeadlineMinutes * 60)) {
+      return {
+        ...result,
+        error: `Deadline is more than ${this.config.maxDeadlineMinutes} minutes away`,
+      };
+    }
+
+    const validSignature =
+      signed.kind === "deposit"
+        ? await verifyTypedData({
+            address: request.user,
+            domain: this.getDomain(),
+            types: RELAY_TYPES,
+            primaryType: "DepositRequest",
+            message: signed.request,
+            signature: signed.signature,
+          })
+        : await verifyTypedData({
+            address: request.user,
+            domain: this.getDomain(),
+            types: RELAY_TYPES,
+            primaryType: "WithdrawRequest",
+            message: signed.request,
+            signature: signed.signature,
+          });
+    if (!validSignature) {
+      return { ...result, error: "Invalid signature" };
+    }
+
+    const submission = this.submitQueue.then(() => this.submit(signed, result));
+    this.submitQueue = submission.catch(() => undefined);
+    const submitted = await submission;
+    if (!("recordId" in submitted)) {
+      return submitted;
+    }
+
+    const { recordId, transactionHash } = submitted;
+    try {
+      const receipt = await this.client.waitForTransactionReceipt({
+        hash: transactionHash,
+        timeout: this.config.receiptTimeoutMs,
+      });
+      const status: RelayRequestStatus = receipt.status === "success" ? "confirmed" : "failed";
+      const gasUsed = receipt.gasUsed.toString();
+      this.releaseNonce(request.user, request.nonce);
+      await this.dbService.updateRelayRequest(recordId, {
+        status,
+        gasUsed,
+        ...(status === "failed" ? { error: "Transaction reverted" } : {}),
+      });
+
+      return {
+        ...result,
+        success: status === "confirmed",
+        status,
+        transactionHash,
+        gasUsed,
+        ...(status === "failed" ? { error: "Transaction reverted" } : {}),
+      };
+    } catch (error) {
+      // Still pending; the record keeps the hash so it can be followed up
+      console.log(`⏳ Relayed ${signed.kind} ${transactionHash} not mined yet:`, error);
+      return { ...result, success: true, status: "submitted", transactionHash };
+    }
+  }
+
+  /**
+   * Run the rate limit, nonce check and simulation, then broadcast and reserve the nonce
+   * Called through the submit queue only, one request at a time.
+   */
+  private async submit(
+    signed: SignedRequest,
+    result: RelayResult
+  ): Promise<SubmittedRelay | RelayResult> {
+    const { request } = signed;
+
+    // Only verified requests are recorded, so others cannot use up a user's allowance
+    const windowStart = new Date(Date.now() - this.config.rateWindowMinutes * 60_000);
+    const recent = await this.dbService.countRelayRequests(request.user, windowStart);
+    if (recent >= this.config.maxRequestsPerUser) {
+      return {
+        ...result,
+        rateLimited: true,
+        error: `Rate limit reached: ${this.config.maxRequestsPerUser} relayed requests per ${this.config.rateWindowMinutes} minutes`,
+      };
+    }
+
+    const nonce = await this.getNonce(request.user);
+    const now = BigInt(Math.floor(Date.now() / 1000));
+    const reserved = this.reservedNonces.get(request.user.toLowerCase());
+    if (reserved && reserved.nonce >= nonce && reserved.deadline >= now) {
+      return {
+        ...result,
+        error: `Request with nonce ${reserved.nonce} is already being relayed; wait for it to be mined`,
+      };
+    }
+    if (request.nonce !== nonce) {
+      return { ...result, error: `Invalid nonce: expected ${nonce}` };
+    }
+
+    const call =
+      signed.kind === "deposit"
+        ? {
+            functionName: "depositBySig" as const,
+            args: [
+              signed.request,
+              signed.signature,
+              signed.permit?.v ?? 0,
+              signed.permit?.r ?? ZERO_BYTES32,
+              signed.permit?.s ?? ZERO_BYTES32,
+            ] as const,
+          }
+        : {
+            functionName: "withdrawBySig" as const,
+            args: [signed.request, signed.signature] as const,
+          };
+
+    // Simulate first so a request that would revert never costs the relayer gas
+    try {
+      await this.client.simulateContract({
+        address: this.optimizerContract as `0x`,
+        abi: RELAY_OPTIMIZER_ABI,
+        account: this.relayerWallet.account,
+        ...call,
+      });
+    } catch (error) {
+      const reason =
+        error instanceof BaseError
+          ? error.shortMessage
+          : error instanceof Error
+            ? error.message
+            : "unknown reason";
+      return { ...result, error: `Request would revert: ${reason}` };
+    }
+
+    const record = await this.dbService.saveRelayRequest({
+      userAddress: request.user,
+      kind: signed.kind,
+      nonce: request.nonce.toString(),
+      deadline: new Date(Number(request.deadline) * 1000),
+      ...(signed.kind === "deposit"
+        ? { vault: signed.request.vault, amount: signed.request.amount.toString() }
+        : {
+            positionId: Number(signed.request.positionId),
+            shares: signed.request.shares.toString(),
+          }),
+      status: "submitted",
+    });
+    const recordId = String(record._id);
+
+    let transactionHash: `0x${string}`;
+    try {
+      transactionHash = await this.relayerWallet.writeContract({
+        address: this.optimizerContract as `0x`,
+        abi: RELAY_OPTIMIZER_ABI,
+        ...call,
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      await this.dbService.updateRelayRequest(recordId, { status: "failed", error: message });
+      return { ...result, status: "failed", error: message };
+    }
+
+    // Held until the receipt arrives, so a copy of this request is refused meanwhile
+    this.reservedNonces.set(request.user.toLowerCase(), {
+      nonce: request.nonce,
+      deadline: request.deadline,
+    });
+    await this.dbService.updateRelayRequest(recordId, { transactionHash });
+    console.log(`📨 Relayed ${signed.kind} for ${request.user}: ${transactionHash}`);
+
+    return { recordId, transactionHash };
+  }
+
+  private releaseNonce(userAddress: string, nonce: bigint): void {
+    const key = userAddress.toLowerCase();
+    if (this.reservedNonces.get(key)?.nonce === nonce) {
+      this.reservedNonces.delete(key);
+    }
+  }
+}
@@ -0,0 +1,206 @@
+import { DatabaseService } from "./DatabaseService";
+import { createPublicClient, http, keccak256 } from "viem";
+import { hyperevmMainnet } from "../config/chains";
+import { getRouterPolicyConfig, RouterPolicyConfig } from "../config/routerPolicy";
+import { IRouterPolicy, RouterPolicyStatus } from "../models/RouterPolicy";
+
+export interface RouterCheckResult {
+  allowed: boolean;
+  status: RouterPolicyStatus;
+  codeHash: string | null;
+  reason?: string;
+}
+
+export interface RouterReviewResult {
+  success: boolean;
+  router?: IRouterPolicy;
+  error?: string;
+}
+
+/**
+ * Router Policy Service
+ * Decides which swap routers returned by the GlueX quote API may be used. Routers must be
+ * on the MongoDB allowlist with a matching bytecode hash; unknown routers are queued for
+ * admin review and rejected until approved.
+ */
+export class RouterPolicyService {
+  private dbService: DatabaseService;
+  private client: any;
+  private config: RouterPolicyConfig;
+
+  constructor(config: RouterPolicyConfig = getRouterPolicyConfig()) {
+    this.dbService = DatabaseService.getInstance();
+    this.config = config;
+
+    // Initialize blockchain client
+    this.client = createPublicClient({
+      chain: hyperevmMainnet,
+      transport: http(
+        process.env.RPC_URL ||
+          process.env.HYPEREVM_RPC_URL ||
+          "https://rpc.hyperevm.com"
+      ),
+    });
+
+    console.log("🛡️  Router Policy Service initialized");
+  }
+
+  /**
+   * Approve the configured known GlueX routers that have no admin decision yet
+   */
+  async seedAllowlist(): Promise<void> {
+    for (const known of this.config.knownRouters) {
+      try {
+        const existing = await this.dbService.getRouterPolicy(known.address);
+        if (existing && existing.status !== "pending") {
+          continue; // Never override an admin decision
+        }
+
+        const codeHash = await this.getCodeHash(known.address);
+        if (!codeHash) {
+          console.log(`⚠️  Known router ${known.address} has no contract code; not approving it`);
+          continue;
+        }
+        if (known.codeHash && known.codeHash !== codeHash) {
+          console.log(
+            `⚠️  Known router ${known.address} bytecode hash ${codeHash} does not match the configured ${known.codeHash}; not approving it`
+          );
+          continue;
+        }
+
+        await this.dbService.saveRouterPolicy(known.address, {
+          status: "approved",
+          codeHash,
+          source: existing ? existing.source : "config",
+          reviewedBy: "config",
+          reviewedAt: new Date(),
+        });
+        console.log(`✅ Router ${known.address} approved from configuration`);
+      } catch (error) {
+        console.error(`❌ Failed to seed router ${known.address}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Check a router returned by a quote against the allowlist
+   * Unknown routers are added to the pending queue; only approved routers whose bytecode
+   * still matches the approved hash are allowed.
+   */
+  async checkRouter(address: string): Promise<RouterCheckResult> {
+    const codeHash = await this.getCodeHash(address);
+    const policy = await this.dbService.recordRouterSighting(address, codeHash);
+
+    if (!codeHash) {
+      return {
+        allowed: false,
+        status: policy.status,
+        codeHash,
+        reason: `Router ${address} has no contract code`,
+      };
+    }
+
+    if (policy.status === "pending") {
+      return {
+        allowed: false,
+        status: policy.status,
+        codeHash,
+        reason: `Router ${address} is awaiting admin approval`,
+      };
+    }
+
+    if (policy.status === "rejected") {
+      return {
+        allowed: false,
+        status: policy.status,
+        codeHash,
+        reason: `Router ${address} was rejected${policy.reason ? `: ${policy.reason}` : ""}`,
+      };
+    }
+
+    if (policy.codeHash !== codeHash) {
+      // Send it back for review rather than trusting changed code at an approved address
+      const reason = `Bytecode hash changed from ${policy.codeHash} to ${codeHash}`;
+      await this.dbService.saveRouterPolicy(address, { status: "pending", reason });
+      console.log(`⚠️  Router ${address}: ${reason}; moved back to pending review`);
+      return {
+        allowed: false,
+        status: "pending",
+        codeHash,
+        reason: `Router ${address} bytecode changed since approval`,
+      };
+    }
+
+    return { allowed: true, status: policy.status, codeHash };
+  }
+
+  /**
+   * Approve a router, pinning its current bytecode hash
+   * If an expected hash is given it must match the code deployed at the address.
+   */
+  async approveRouter(
+    address: string,
+    options: { label?: string; codeHash?: string; reviewedBy?: string } = {}
+  ): Promise<RouterReviewResult> {
+    const codeHash = await this.getCodeHash(address);
+    if (!codeHash) {
+      return { success: false, error: `Router ${address} has no contract code` };
+    }
+    if (options.codeHash && options.codeHash.toLowerCase() !== codeHash) {
+      return {
+        success: false,
+        error: `Bytecode hash ${codeHash} does not match the expected ${options.codeHash}`,
+      };
+    }
+
+    const existing = await this.dbService.getRouterPolicy(address);
+    const router = await this.dbService.saveRouterPolicy(address, {
+      status: "approved",
+      codeHash,
+      source: existing ? existing.source : "admin",
+      reviewedBy: options.reviewedBy || "admin",
+      reviewedAt: new Date(),
+      reason: "",
+      ...(options.label !== undefined ? { label: options.label } : {}),
+    });
+
+    console.log(`✅ Router ${address} approved (code hash ${codeHash})`);
+    return { success: true, router };
+  }
+
+  /**
+   * Reject a router so quotes pointing at it are refused
+   */
+  async rejectRouter(
+    address: string,
+    options: { reason?: string; reviewedBy?: string } = {}
+  ): Promise<RouterReviewResult> {
+    const existing = await this.dbService.getRouterPolicy(address);
+    const router = await this.dbService.saveRouterPolicy(address, {
+      status: "rejected",
+      source: existing ? existing.source : "admin",
+      reviewedBy: options.reviewedBy || "admin",
+      reviewedAt: new Date(),
+      reason: options.reason || "",
+    });
+
+    console.log(`🚫 Router ${address} rejected${options.reason ? `: ${options.reason}` : ""}`);
+    return { success: true, router };
+  }
+
+  /**
+   * List routers on the allowlist, pending queue or reject list
+   */
+  async listRouters(status?: RouterPolicyStatus): Promise<IRouterPolicy[]> {
+    return this.dbService.getRouterPolicies(status);
+  }
+
+  // keccak256 of the runtime bytecode, or null for an address without code
+  private async getCodeHash(address: string): Promise<string | null> {
+    const code = await this.client.getBytecode({ address: address as `0x` });
+    if (!code || code === "0x") {
+      return null;
+    }
+    return keccak256(code).toLowerCase();
+  }
+}
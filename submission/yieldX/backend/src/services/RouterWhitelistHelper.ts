@@ -1,21 +1,29 @@
-import { keeperWallet } from "../config/blockchain";
 import { parseAbi } from "viem";
+import { GOVERNANCE_ABI, GOVERNANCE_ACTIONS, GovernanceService } from "./GovernanceService";
+import { DatabaseService } from "./DatabaseService";
+import { TransactionManager } from "./TransactionManager";
 
 /**
  * Helper service to whitelist routers on-the-fly
- * Note: This requires owner privileges on the Yield Optimizer contract
+ * Note: This requires CURATOR_ROLE on the Yield Optimizer contract. Whitelisting goes
+ * through the governance timelock, so a new router is queued first and only usable
+ * once the operation has been executed after the delay. Only routers approved on the
+ * router allowlist (see RouterPolicyService) are ever queued.
  */
 export class RouterWhitelistHelper {
   private optimizerContract: string;
+  private governanceService: GovernanceService;
+  private transactionManager: TransactionManager;
 
   // Minimal ABI for router whitelisting
   private optimizerABI = parseAbi([
-    "function whitelistRouter(address _router, bool _enabled) external",
     "function whitelistedRouters(address) external view returns (bool)",
   ]);
 
   constructor(optimizerContractAddress: string) {
     this.optimizerContract = optimizerContractAddress;
+    this.governanceService = new GovernanceService(optimizerContractAddress);
+    this.transactionManager = TransactionManager.getInstance();
   }
 
   /**
@@ -50,8 +58,9 @@ export class RouterWhitelistHelper {
   }
 
   /**
-   * Whitelist a router (requires owner)
-   * Returns true if whitelisted successfully, false otherwise
+   * Whitelist a router through the timelock (requires CURATOR_ROLE)
+   * Queues the operation on first sight and executes it once the delay has passed.
+   * Returns true only when the router is whitelisted by the time this returns.
    */
   async whitelistRouter(routerAddress: string): Promise<boolean> {
     try {
@@ -62,58 +71,80 @@ export class RouterWhitelistHelper {
         return true;
       }
 
-      console.log(`🔄 Attempting to whitelist router: ${routerAddress}...`);
+      const policy = await DatabaseService.getInstance().getRouterPolicy(routerAddress);
+      if (policy?.status !== "approved") {
+        console.log(`🚫 Router ${routerAddress} is not on the approved router allowlist; not whitelisting it`);
+        return false;
+      }
 
-      const txhash = await keeperWallet.writeContract({
-        address: this.optimizerContract as `0x`,
-        abi: this.optimizerABI,
-        functionName: "whitelistRouter",
-        args: [routerAddress as `0x`, true],
-      });
+      const pending = await this.governanceService.findPendingOperation(
+        "WhitelistRouter",
+        routerAddress
+      );
 
-      console.log(`📝 Router whitelist transaction submitted: ${txhash}`);
+      if (pending && !pending.ready) {
+        console.log(
+          `⏳ Router ${routerAddress} whitelisting is queued, executable in ${pending.secondsUntilExecutable}s (${pending.executableAt})`
+        );
+        return false;
+      }
 
-      // Wait for transaction confirmation
-      const { createPublicClient, http } = await import("viem");
-      const { hyperevmMainnet } = await import("../config/chains");
+      if (pending) {
+        console.log(`🔄 Executing queued whitelisting for router: ${routerAddress}...`);
+
+        const tx = await this.transactionManager.sendAndWait({
+          address: this.optimizerContract,
+          abi: GOVERNANCE_ABI,
+          functionName: "executeOperation",
+          args: [pending.id as `0x${string}`],
+          label: `execute router whitelisting ${routerAddress}`,
+        });
+
+        if (tx.status === "confirmed") {
+          console.log(`✅ Router ${routerAddress} whitelisted successfully`);
+          return true;
+        } else {
+          console.error(`❌ Router whitelist execution failed`);
+          return false;
+        }
+      }
 
-      const client = createPublicClient({
-        chain: hyperevmMainnet,
-        transport: http(
-          process.env.RPC_URL ||
-            process.env.HYPEREVM_RPC_URL ||
-            "https://rpc.hyperevm.com"
-        ),
-      });
+      console.log(`🔄 Queueing whitelisting for router: ${routerAddress}...`);
 
-      const receipt = await client.waitForTransactionReceipt({
-        hash: txhash,
+      const tx = await this.transactionManager.sendAndWait({
+        address: this.optimizerContract,
+        abi: GOVERNANCE_ABI,
+        functionName: "queueOperation",
+        args: [GOVERNANCE_ACTIONS.indexOf("WhitelistRouter"), routerAddress as `0x`, BigInt(1)],
+        label: `queue router whitelisting ${routerAddress}`,
       });
 
-      if (receipt.status === "success") {
-        console.log(`✅ Router ${routerAddress} whitelisted successfully`);
-        return true;
+      if (tx.status === "confirmed") {
+        const delay = await this.governanceService.getTimelockDelay();
+        console.log(
+          `⏳ Router ${routerAddress} whitelisting queued; it can be executed in ${delay}s`
+        );
       } else {
-        console.error(`❌ Router whitelist transaction failed`);
-        return false;
+        console.error(`❌ Router whitelist queue transaction failed`);
       }
+      // The router is not usable until the queued operation is executed
+      return false;
     } catch (error) {
       console.error(
         `❌ Failed to whitelist router ${routerAddress}:`,
         error instanceof Error ? error.message : error
       );
-      // If error is "Only owner" or similar, that's expected if the backend wallet isn't the owner
+      // An AccessControl error is expected if the backend wallet isn't a curator
       if (
         error instanceof Error &&
-        (error.message.includes("Ownable") ||
-          error.message.includes("owner") ||
+        (error.message.includes("AccessControl") ||
           error.message.includes("unauthorized"))
       ) {
         console.log(
-          `⚠️  Note: Router whitelisting requires owner privileges. The backend wallet may not be the contract owner.`
+          `⚠️  Note: Router whitelisting requires CURATOR_ROLE. The backend wallet may not be a curator.`
         );
         console.log(
-          `   Please whitelist router ${routerAddress} manually using the whitelist-yield-optimizer.ts script.`
+          `   Please queue router ${routerAddress} manually using the whitelist-yield-optimizer.ts script.`
         );
       }
       return false;
@@ -0,0 +1,185 @@
+import { getSplitConfig, SplitConfig } from "../config/split";
+
+const BPS = BigInt(10_000);
+
+export interface SplitCandidate {
+  vault: string;
+  apy: number; // Current APY (percent), before our deposit
+  totalAssets: bigint; // On-chain totalAssets (asset units), before our deposit
+  capacity: bigint; // Most assets the vault may take from this position
+}
+
+export interface SplitLeg {
+  vault: string;
+  assets: bigint;
+  apy: number; // Expected APY once our deposit has diluted the vault
+}
+
+export interface SplitPlan {
+  totalAssets: bigint; // Assets being allocated
+  stayAssets: bigint; // Left in the current vault
+  legs: SplitLeg[]; // Moves into other vaults, largest first
+  blendedAPY: number; // Over the whole position, including the part that stays
+  singleTargetAPY: number; // Best APY keeping the position whole, in one vault or where it is
+}
+
+/**
+ * Split Planner
+ * Spreads a position over vaults to maximize its blended APY. A vault's yield is assumed to be
+ * fixed in absolute terms, so depositing `a` into a vault with APY `r` and TVL `T` earns
+ * r * T / (T + a); the position is allocated slice by slice to whichever vault (or staying
+ * put) earns the most on the next slice.
+ */
+export class SplitPlanner {
+  private config: SplitConfig;
+
+  constructor(config: SplitConfig = getSplitConfig()) {
+    this.config = config;
+  }
+
+  getConfig(): SplitConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * APY of a vault after depositing `assets` into it
+   */
+  dilutedAPY(candidate: SplitCandidate, assets: bigint): number {
+    const tvl = Number(candidate.totalAssets);
+    return tvl > 0 ? (candidate.apy * tvl) / (tvl + Number(assets)) : 0;
+  }
+
+  /**
+   * Plan how to spread `totalAssets` from the current vault over the candidates
+   * Legs below SPLIT_MIN_LEG_BPS are dropped and at most SPLIT_MAX_TARGETS vaults are used.
+   * Without `allowStay` the whole position leaves the current vault.
+   */
+  plan(params: {
+    totalAssets: bigint;
+    currentAPY: number;
+    candidates: SplitCandidate[];
+    allowStay: boolean;
+  }): SplitPlan {
+    const minLeg = (params.totalAssets * BigInt(this.config.minLegBps)) / BPS;
+    let candidates = params.candidates.filter(
+      (candidate) => candidate.totalAssets > BigInt(0) && candidate.capacity > BigInt(0)
+    );
+    let allowStay = params.allowStay;
+    let allocation = this.allocate(params.totalAssets, params.currentAPY, candidates, allowStay);
+
+    for (;;) {
+      const legs = this.toLegs(allocation.assets, candidates);
+      const vaultCount = legs.length + (allocation.stay > BigInt(0) ? 1 : 0);
+      const smallest = legs[legs.length - 1];
+
+      if (smallest && (smallest.assets < minLeg || vaultCount > this.config.maxTargets)) {
+        candidates = candidates.filter((candidate) => candidate.vault !== smallest.vault);
+      } else if (
+        allocation.stay > BigInt(0) &&
+        allocation.stay < minLeg &&
+        allocation.stay < params.totalAssets &&
+        allocation.capped === BigInt(0)
+      ) {
+        allowStay = false; // Don't leave dust behind
+      } else {
+        break;
+      }
+      allocation = this.allocate(params.totalAssets, params.currentAPY, candidates, allowStay);
+    }
+
+    const legs = this.toLegs(allocation.assets, candidates);
+    return {
+      totalAssets: params.totalAssets,
+      stayAssets: allocation.stay,
+      legs,
+      blendedAPY: this.blendedAPY(params.totalAssets, params.currentAPY, allocation.stay, legs),
+      singleTargetAPY: this.singleTargetAPY(params),
+    };
+  }
+
+  // Greedily give each slice to the destination with the highest marginal yield; slices no
+  // vault has room for stay in the current vault (`capped`)
+  private allocate(
+    totalAssets: bigint,
+    currentAPY: number,
+    candidates: SplitCandidate[],
+    allowStay: boolean
+  ): { assets: Record<string, bigint>; stay: bigint; capped: bigint } {
+    const assets: Record<string, bigint> = {};
+    let stay = BigInt(0);
+    let capped = BigInt(0);
+    const slice = (totalAssets * BigInt(this.config.stepBps)) / BPS || totalAssets;
+
+    for (let remaining = totalAssets; remaining > BigInt(0); ) {
+      const amount = remaining < slice ? remaining : slice;
+      let best: SplitCandidate | null = null;
+      let bestGain = allowStay ? currentAPY * Number(amount) : -Infinity;
+
+      for (const candidate of candidates) {
+        const allocated = assets[candidate.vault] || BigInt(0);
+        if (allocated + amount > candidate.capacity) {
+          continue;
+        }
+        const gain =
+          this.dilutedAPY(candidate, allocated + amount) * Number(allocated + amount) -
+          this.dilutedAPY(candidate, allocated) * Number(allocated);
+        if (gain > bestGain) {
+          best = candidate;
+          bestGain = gain;
+        }
+      }
+
+      if (best) {
+        assets[best.vault] = (assets[best.vault] || BigInt(0)) + amount;
+      } else {
+        stay += amount;
+        if (!allowStay) {
+          capped += amount;
+        }
+      }
+      remaining -= amount;
+    }
+
+    return { assets, stay, capped };
+  }
+
+  private toLegs(assets: Record<string, bigint>, candidates: SplitCandidate[]): SplitLeg[] {
+    return candidates
+      .filter((candidate) => (assets[candidate.vault] || BigInt(0)) > BigInt(0))
+      .map((candidate) => ({
+        vault: candidate.vault,
+        assets: assets[candidate.vault],
+        apy: this.dilutedAPY(candidate, assets[candidate.vault]),
+      }))
+      .sort((a, b) => (a.assets === b.assets ? 0 : a.assets > b.assets ? -1 : 1));
+  }
+
+  private blendedAPY(
+    totalAssets: bigint,
+    currentAPY: number,
+    stay: bigint,
+    legs: SplitLeg[]
+  ): number {
+    if (totalAssets === BigInt(0)) {
+      return currentAPY;
+    }
+    const earned = legs.reduce(
+      (sum, leg) => sum + leg.apy * Number(leg.assets),
+      currentAPY * Number(stay)
+    );
+    return earned / Number(totalAssets);
+  }
+
+  private singleTargetAPY(params: {
+    totalAssets: bigint;
+    currentAPY: number;
+    candidates: SplitCandidate[];
+  }): number {
+    return params.candidates
+      .filter((candidate) => candidate.capacity >= params.totalAssets)
+      .reduce(
+        (best, candidate) => Math.max(best, this.dilutedAPY(candidate, params.totalAssets)),
+        params.currentAPY
+      );
+  }
+}
@@ -0,0 +1,622 @@
+import { DatabaseService } from "./DatabaseService";
+import {
+  Abi,
+  createPublicClient,
+  encodeFunctionData,
+  EncodeFunctionDataParameters,
+  formatGwei,
+  http,
+  keccak256,
+} from "viem";
+import { hyperevmMainnet } from "../config/chains";
+import { keeperWallet } from "../config/blockchain";
+import { getTransactionManagerConfig, TransactionManagerConfig } from "../config/transactions";
+import { IKeeperTransaction, KeeperTransactionStatus } from "../models/KeeperTransaction";
+
+const CANCEL_GAS = BigInt(21_000);
+const MIN_REPLACEMENT_BUMP_PERCENT = BigInt(10); // Nodes reject replacements raising fees by less
+
+// A contract call whose arguments are checked against the ABI, as with writeContract
+export type ContractCall<
+  TAbi extends Abi | readonly unknown[] = Abi,
+  TFunctionName extends string = string,
+> = EncodeFunctionDataParameters<TAbi, TFunctionName> & {
+  address: string;
+  label: string; // Shown in logs and stored with the transaction
+};
+
+// An encoded call, as queued for sending
+interface EncodedCall {
+  to: `0x${string}`;
+  data: `0x${string}`;
+  label: string;
+}
+
+export interface TransactionOutcome {
+  status: KeeperTransactionStatus; // "pending" when it was not mined within the wait
+  transactionHash: `0x${string}`; // The mined broadcast, or the latest one while pending
+  nonce: number;
+  speedUps: number;
+  receipt?: any; // Set once mined
+  error?: string;
+}
+
+export interface TransactionManagerStatus {
+  address: string;
+  started: boolean;
+  nextNonce: number | null;
+  pending: {
+    nonce: number;
+    label: string;
+    hashes: string[];
+    speedUps: number;
+    cancelling: boolean;
+    stuck: boolean;
+  }[];
+}
+
+interface Fees {
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+}
+
+interface TrackedTransaction extends Fees {
+  id: string | null; // KeeperTransaction record, null if it could not be saved
+  nonce: number;
+  label: string;
+  to: `0x${string}`;
+  data: `0x${string}`;
+  value: bigint;
+  gas: bigint;
+  hashes: `0x${string}`[];
+  speedUps: number;
+  cancelling: boolean;
+  stuck: boolean;
+  lastBroadcastAt: number;
+  nextReplacementAt: number;
+  failedReplacements: number; // Consecutive attempts that could not send a replacement
+  outcome?: Promise<TransactionOutcome>;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// The nonce was used by a transaction that is already mined
+const isNonceTooLow = (error: unknown): boolean =>
+  error instanceof Error && /nonce (is )?too low|nonce has already been used/i.test(error.message);
+
+// The node already holds this exact signed transaction, e.g. after a timed-out send was retried
+const isAlreadyKnown = (error: unknown): boolean =>
+  error instanceof Error && /already known|known transaction/i.test(error.message);
+
+/**
+ * Transaction Manager
+ * Sends every keeper wallet transaction: nonces are handed out locally so calls from several
+ * services never collide, fees follow an EIP-1559 policy with hard caps, and a transaction
+ * that is not mined in time is re-sent with higher fees and finally cancelled, so one stuck
+ * transaction cannot hold up every later nonce. Each broadcast is stored in MongoDB and
+ * pending transactions are picked up again after a restart.
+ */
+export class TransactionManager {
+  private static instance: TransactionManager;
+
+  private dbService: DatabaseService;
+  private client: any;
+  private wallet = keeperWallet;
+  private config: TransactionManagerConfig;
+  private nextNonce: number | null = null;
+  private startPromise: Promise<void> | null = null;
+  private submitQueue: Promise<unknown> = Promise.resolve();
+  private tracked: Map<number, TrackedTransaction> = new Map();
+
+  private constructor(config: TransactionManagerConfig = getTransactionManagerConfig()) {
+    this.dbService = DatabaseService.getInstance();
+    this.config = config;
+
+    // Initialize blockchain client
+    this.client = createPublicClient({
+      chain: hyperevmMainnet,
+      transport: http(
+        process.env.RPC_URL ||
+          process.env.HYPEREVM_RPC_URL ||
+          "https://rpc.hyperevm.com"
+      ),
+    });
+  }
+
+  public static getInstance(): TransactionManager {
+    if (!TransactionManager.instance) {
+      TransactionManager.instance = new TransactionManager();
+    }
+    return TransactionManager.instance;
+  }
+
+  get address(): `0x${string}` {
+    return this.wallet.account.address;
+  }
+
+  /**
+   * Sync the nonce with the chain and resume tracking transactions a previous run left pending
+   * Called once at startup; sending also starts the manager if that has not happened yet.
+   */
+  start(): Promise<void> {
+    if (!this.startPromise) {
+      this.startPromise = this.recover().catch((error) => {
+        this.startPromise = null;
+        throw error;
+      });
+    }
+    return this.startPromise;
+  }
+
+  getStatus(): TransactionManagerStatus {
+    return {
+      address: this.address,
+      started: this.nextNonce !== null,
+      nextNonce: this.nextNonce,
+      pending: [...this.tracked.values()].map((tx) => ({
+        nonce: tx.nonce,
+        label: tx.label,
+        hashes: tx.hashes,
+        speedUps: tx.speedUps,
+        cancelling: tx.cancelling,
+        stuck: tx.stuck,
+      })),
+    };
+  }
+
+  /**
+   * Whether a transaction with this label has been sent and is not mined yet
+   */
+  hasPending(label: string): boolean {
+    return [...this.tracked.values()].some((tx) => tx.label === label);
+  }
+
+  /**
+   * Send a contract call from the keeper wallet and wait for it to be mined
+   * Returns with status "pending" after `timeoutMs`; the transaction keeps being tracked,
+   * sped up or cancelled in the background.
+   */
+  async sendAndWait<TAbi extends Abi | readonly unknown[], TFunctionName extends string>(
+    call: ContractCall<TAbi, TFunctionName>,
+    timeoutMs: number = this.config.receiptTimeoutMs
+  ): Promise<TransactionOutcome> {
+    const tx = await this.send({
+      to: call.address as `0x${string}`,
+      data: encodeFunctionData<TAbi, TFunctionName>(call),
+      label: call.label,
+    });
+
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<TransactionOutcome>((resolve) => {
+      timer = setTimeout(() => {
+        console.log(`⏳ Keeper transaction ${tx.nonce} (${tx.label}) not mined after ${timeoutMs}ms; still tracking it`);
+        resolve({
+          status: "pending",
+          transactionHash: tx.hashes[tx.hashes.length - 1],
+          nonce: tx.nonce,
+          speedUps: tx.speedUps,
+        });
+      }, timeoutMs);
+    });
+
+    try {
+      return await Promise.race([tx.outcome!, timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Send a contract call from the keeper wallet and start tracking it
+   * Sends are serialized so every transaction gets the next local nonce.
+   */
+  private send(call: EncodedCall): Promise<TrackedTransaction> {
+    const sent = this.submitQueue.then(() => this.broadcastCall(call));
+    this.submitQueue = sent.catch(() => undefined);
+    return sent;
+  }
+
+  private async broadcastCall(call: EncodedCall): Promise<TrackedTransaction> {
+    await this.start();
+
+    const { to, data } = call;
+
+    // Estimating also simulates the call, so a reverting call fails here before using a nonce
+    const estimate: bigint = await this.client.estimateGas({
+      account: this.wallet.account,
+      to,
+      data,
+    });
+    const gas = (estimate * BigInt(100 + this.config.gasLimitBufferPercent)) / BigInt(100);
+    const fees = await this.getFees();
+
+    let nonce = this.nextNonce!;
+    let hash: `0x${string}`;
+    try {
+      hash = await this.broadcast({ to, data, value: BigInt(0), gas, nonce, ...fees });
+    } catch (error) {
+      if (!isNonceTooLow(error)) {
+        throw error;
+      }
+      // The wallet was used outside this manager; resync with the chain and retry once
+      nonce = await this.client.getTransactionCount({ address: this.address, blockTag: "pending" });
+      console.log(`🔢 Keeper nonce resynced to ${nonce}`);
+      hash = await this.broadcast({ to, data, value: BigInt(0), gas, nonce, ...fees });
+    }
+    this.nextNonce = nonce + 1;
+
+    console.log(
+      `📝 Keeper transaction ${nonce} (${call.label}) submitted at ${formatGwei(fees.maxFeePerGas)} gwei max fee: ${hash}`
+    );
+
+    const lastBroadcastAt = new Date();
+    let id: string | null = null;
+    try {
+      const record = await this.dbService.saveKeeperTransaction({
+        from: this.address,
+        nonce,
+        label: call.label,
+        to,
+        data,
+        value: "0",
+        gas: gas.toString(),
+        maxFeePerGas: fees.maxFeePerGas.toString(),
+        maxPriorityFeePerGas: fees.maxPriorityFeePerGas.toString(),
+        hashes: [hash],
+        status: "pending",
+        lastBroadcastAt,
+      });
+      id = String(record._id);
+    } catch {
+      // Already logged; the transaction is out, so keep tracking it in memory
+    }
+
+    const tx: TrackedTransaction = {
+      id,
+      nonce,
+      label: call.label,
+      to,
+      data,
+      value: BigInt(0),
+      gas,
+      ...fees,
+      hashes: [hash],
+      speedUps: 0,
+      cancelling: false,
+      stuck: false,
+      lastBroadcastAt: lastBroadcastAt.getTime(),
+      nextReplacementAt: lastBroadcastAt.getTime() + this.config.stuckTimeoutMs,
+      failedReplacements: 0,
+    };
+    this.track(tx);
+    return tx;
+  }
+
+  /**
+   * Load pending transactions from MongoDB and continue from the highest nonce in use
+   */
+  private async recover(): Promise<void> {
+    const chainNonce: number = await this.client.getTransactionCount({
+      address: this.address,
+      blockTag: "pending",
+    });
+    const pending = await this.dbService.getPendingKeeperTransactions(this.address);
+
+    let nextNonce = chainNonce;
+    for (const record of pending) {
+      this.track(this.fromRecord(record));
+      nextNonce = Math.max(nextNonce, record.nonce + 1);
+    }
+    this.nextNonce = nextNonce;
+
+    console.log(
+      `🧾 Transaction manager started for ${this.address}: next nonce ${nextNonce}, ${pending.length} pending transactions recovered`
+    );
+  }
+
+  private fromRecord(record: IKeeperTransaction): TrackedTransaction {
+    return {
+      id: String(record._id),
+      nonce: record.nonce,
+      label: record.label,
+      to: record.to as `0x${string}`,
+      data: record.data as `0x${string}`,
+      value: BigInt(record.value),
+      gas: BigInt(record.gas),
+      maxFeePerGas: BigInt(record.maxFeePerGas),
+      maxPriorityFeePerGas: BigInt(record.maxPriorityFeePerGas),
+      hashes: record.hashes as `0x${string}`[],
+      speedUps: record.speedUps,
+      cancelling: record.cancelling,
+      stuck: record.stuck,
+      lastBroadcastAt: record.lastBroadcastAt.getTime(),
+      nextReplacementAt: record.lastBroadcastAt.getTime() + this.config.stuckTimeoutMs,
+      failedReplacements: 0,
+    };
+  }
+
+  private track(tx: TrackedTransaction): void {
+    this.tracked.set(tx.nonce, tx);
+    tx.outcome = this.monitor(tx).finally(() => this.tracked.delete(tx.nonce));
+  }
+
+  /**
+   * Poll until one of the transaction's broadcasts is mined or its nonce is used by another
+   * transaction, replacing it whenever it has been waiting for longer than the stuck timeout
+   */
+  private async monitor(tx: TrackedTransaction): Promise<TransactionOutcome> {
+    for (;;) {
+      try {
+        const outcome = await this.checkMined(tx);
+        if (outcome) {
+          return outcome;
+        }
+        if (Date.now() >= tx.nextReplacementAt) {
+          await this.replace(tx);
+        }
+      } catch (error) {
+        console.error(`❌ Error tracking keeper transaction ${tx.nonce} (${tx.label}):`, error);
+      }
+      await sleep(this.config.pollIntervalMs);
+    }
+  }
+
+  private async checkMined(tx: TrackedTransaction): Promise<TransactionOutcome | null> {
+    // Read the mined nonce first, so a broadcast mined in between is still found below
+    const minedNonce: number = await this.client.getTransactionCount({
+      address: this.address,
+      blockTag: "latest",
+    });
+
+    for (const hash of tx.hashes) {
+      const receipt = await this.client.getTransactionReceipt({ hash }).catch(() => null);
+      if (receipt) {
+        return this.settle(tx, receipt);
+      }
+    }
+
+    if (minedNonce > tx.nonce) {
+      const error = "Nonce was used by a transaction sent outside the transaction manager";
+      console.error(`❌ Keeper transaction ${tx.nonce} (${tx.label}) dropped: ${error}`);
+      await this.persist(tx, { status: "dropped", error });
+      return {
+        status: "dropped",
+        transactionHash: tx.hashes[tx.hashes.length - 1],
+        nonce: tx.nonce,
+        speedUps: tx.speedUps,
+        error,
+      };
+    }
+    return null;
+  }
+
+  private async settle(tx: TrackedTransaction, receipt: any): Promise<TransactionOutcome> {
+    let status: KeeperTransactionStatus = receipt.status === "success" ? "confirmed" : "reverted";
+    let error: string | undefined = status === "reverted" ? "Transaction reverted" : undefined;
+    if (receipt.to?.toLowerCase() === this.address.toLowerCase()) {
+      status = "cancelled";
+      error = `Cancelled after ${tx.speedUps} speed-ups`;
+    }
+
+    await this.persist(tx, {
+      status,
+      transactionHash: receipt.transactionHash,
+      blockNumber: receipt.blockNumber.toString(),
+      gasUsed: receipt.gasUsed.toString(),
+      ...(error ? { error } : {}),
+    });
+
+    const icon = status === "confirmed" ? "✅" : "❌";
+    console.log(`${icon} Keeper transaction ${tx.nonce} (${tx.label}) ${status}: ${receipt.transactionHash}`);
+
+    return {
+      status,
+      transactionHash: receipt.transactionHash,
+      nonce: tx.nonce,
+      speedUps: tx.speedUps,
+      receipt,
+      ...(error ? { error } : {}),
+    };
+  }
+
+  /**
+   * Re-send a stuck transaction with the same nonce and higher fees; after the last speed-up
+   * it is replaced by a zero-value transfer to the keeper itself, which frees the nonce.
+   * A speed-up that would pass the fee cap is skipped in favour of that cancel, priced at the cap.
+   */
+  private async replace(tx: TrackedTransaction): Promise<void> {
+    let cancel = tx.cancelling || tx.speedUps >= this.config.maxSpeedUps;
+    const bump = (fee: bigint) => (fee * BigInt(100 + this.config.feeBumpPercent)) / BigInt(100);
+
+    // Nodes only accept a replacement that raises both fees; the current market may ask for more
+    const market = await this.getFees().catch(() => null);
+    let maxFeePerGas = bump(tx.maxFeePerGas);
+    let maxPriorityFeePerGas = bump(tx.maxPriorityFeePerGas);
+    if (market && market.maxFeePerGas > maxFeePerGas) {
+      maxFeePerGas = market.maxFeePerGas;
+    }
+    if (market && market.maxPriorityFeePerGas > maxPriorityFeePerGas) {
+      maxPriorityFeePerGas = market.maxPriorityFeePerGas;
+    }
+    if (maxPriorityFeePerGas > maxFeePerGas) {
+      maxPriorityFeePerGas = maxFeePerGas;
+    }
+
+    if (maxFeePerGas > this.config.maxFeePerGas) {
+      cancel = true;
+      maxFeePerGas = this.config.maxFeePerGas;
+      if (maxPriorityFeePerGas > maxFeePerGas) {
+        maxPriorityFeePerGas = maxFeePerGas;
+      }
+    }
+
+    // At the cap there may be no room left for a replacement the node accepts
+    const minReplacement = (fee: bigint) =>
+      (fee * (BigInt(100) + MIN_REPLACEMENT_BUMP_PERCENT)) / BigInt(100);
+    if (
+      maxFeePerGas < minReplacement(tx.maxFeePerGas) ||
+      maxPriorityFeePerGas < minReplacement(tx.maxPriorityFeePerGas)
+    ) {
+      await this.backOff(
+        tx,
+        `No replacement fits under the ${formatGwei(this.config.maxFeePerGas)} gwei fee cap`
+      );
+      return;
+    }
+
+    let hash: `0x${string}`;
+    try {
+      hash = await this.broadcast({
+        to: cancel ? this.address : tx.to,
+        data: cancel ? "0x" : tx.data,
+        value: cancel ? BigInt(0) : tx.value,
+        gas: cancel ? CANCEL_GAS : tx.gas,
+        nonce: tx.nonce,
+        maxFeePerGas,
+        maxPriorityFeePerGas,
+      });
+    } catch (error) {
+      // A mined broadcast is picked up by the next poll; anything else is retried with backoff
+      if (isNonceTooLow(error)) {
+        tx.nextReplacementAt = Date.now() + this.config.stuckTimeoutMs;
+      } else {
+        console.error(`❌ Failed to replace keeper transaction ${tx.nonce} (${tx.label}):`, error);
+        await this.backOff(tx, error instanceof Error ? error.message : "Replacement failed");
+      }
+      return;
+    }
+
+    tx.hashes.push(hash);
+    tx.maxFeePerGas = maxFeePerGas;
+    tx.maxPriorityFeePerGas = maxPriorityFeePerGas;
+    tx.lastBroadcastAt = Date.now();
+    tx.nextReplacementAt = tx.lastBroadcastAt + this.config.stuckTimeoutMs;
+    tx.failedReplacements = 0;
+    tx.stuck = false;
+    if (cancel) {
+      tx.cancelling = true;
+    } else {
+      tx.speedUps++;
+    }
+
+    console.log(
+      cancel
+        ? `🚫 Cancelling stuck keeper transaction ${tx.nonce} (${tx.label}) at ${formatGwei(maxFeePerGas)} gwei: ${hash}`
+        : `⏫ Sped up keeper transaction ${tx.nonce} (${tx.label}) to ${formatGwei(maxFeePerGas)} gwei: ${hash}`
+    );
+
+    await this.persist(tx, {
+      hashes: tx.hashes,
+      maxFeePerGas: maxFeePerGas.toString(),
+      maxPriorityFeePerGas: maxPriorityFeePerGas.toString(),
+      speedUps: tx.speedUps,
+      cancelling: tx.cancelling,
+      stuck: false,
+      lastBroadcastAt: new Date(tx.lastBroadcastAt),
+    });
+  }
+
+  /**
+   * Flag a transaction no replacement could be sent for and wait longer before the next
+   * attempt, doubling the stuck timeout each time up to the backoff limit
+   */
+  private async backOff(tx: TrackedTransaction, reason: string): Promise<void> {
+    tx.failedReplacements++;
+    const delay = Math.min(
+      this.config.stuckTimeoutMs * 2 ** tx.failedReplacements,
+      this.config.maxBackoffMs
+    );
+    tx.nextReplacementAt = Date.now() + delay;
+
+    if (!tx.stuck) {
+      tx.stuck = true;
+      console.error(
+        `🚨 Keeper transaction ${tx.nonce} (${tx.label}) is stuck and holds up every later keeper transaction: ${reason}`
+      );
+    }
+    console.log(`⏳ Retrying keeper transaction ${tx.nonce} (${tx.label}) in ${delay}ms`);
+
+    await this.persist(tx, { stuck: true, error: reason });
+  }
+
+  /**
+   * EIP-1559 fees for a new transaction: the node's suggested tip and a max fee that covers
+   * a rising base fee, both capped. Throws when the base fee alone is above the cap.
+   */
+  private async getFees(): Promise<Fees> {
+    const block = await this.client.getBlock({ blockTag: "latest" });
+    const baseFee: bigint = block.baseFeePerGas ?? (await this.client.getGasPrice());
+    if (baseFee >= this.config.maxFeePerGas) {
+      throw new Error(
+        `Base fee ${formatGwei(baseFee)} gwei is above the ${formatGwei(this.config.maxFeePerGas)} gwei cap`
+      );
+    }
+
+    let maxPriorityFeePerGas: bigint;
+    try {
+      maxPriorityFeePerGas = await this.client.estimateMaxPriorityFeePerGas();
+    } catch {
+      maxPriorityFeePerGas = this.config.maxPriorityFeePerGas;
+    }
+    if (maxPriorityFeePerGas > this.config.maxPriorityFeePerGas) {
+      maxPriorityFeePerGas = this.config.maxPriorityFeePerGas;
+    }
+
+    let maxFeePerGas =
+      (baseFee * BigInt(Math.round(this.config.baseFeeMultiplier * 100))) / BigInt(100) +
+      maxPriorityFeePerGas;
+    if (maxFeePerGas > this.config.maxFeePerGas) {
+      maxFeePerGas = this.config.maxFeePerGas;
+    }
+    if (maxPriorityFeePerGas > maxFeePerGas - baseFee) {
+      maxPriorityFeePerGas = maxFeePerGas - baseFee;
+    }
+
+    return { maxFeePerGas, maxPriorityFeePerGas };
+  }
+
+  /**
+   * Sign locally and send; the hash is known up front, so a node answering that it already
+   * holds this exact transaction counts as a successful broadcast of it
+   */
+  private async broadcast(params: {
+    to: `0x${string}`;
+    data: `0x${string}`;
+    value: bigint;
+    gas: bigint;
+    nonce: number;
+    maxFeePerGas: bigint;
+    maxPriorityFeePerGas: bigint;
+  }): Promise<`0x${string}`> {
+    const serializedTransaction = await this.wallet.account.signTransaction({
+      chainId: hyperevmMainnet.id,
+      type: "eip1559",
+      ...params,
+    });
+    const hash = keccak256(serializedTransaction);
+
+    try {
+      await this.client.sendRawTransaction({ serializedTransaction });
+    } catch (error) {
+      if (!isAlreadyKnown(error)) {
+        throw error;
+      }
+      console.log(`🔁 Node already holds keeper transaction ${params.nonce}: ${hash}`);
+    }
+    return hash;
+  }
+
+  private async persist(
+    tx: TrackedTransaction,
+    update: Parameters<DatabaseService["updateKeeperTransaction"]>[1]
+  ): Promise<void> {
+    if (!tx.id) {
+      return;
+    }
+    try {
+      await this.dbService.updateKeeperTransaction(tx.id, update);
+    } catch {
+      // Already logged; the in-memory state stays authoritative until the next update
+    }
+  }
+}
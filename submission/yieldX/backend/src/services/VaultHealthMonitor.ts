@@ -0,0 +1,460 @@
+import { DatabaseService } from "./DatabaseService";
+import { keeperWallet } from "../config/blockchain";
+import { TransactionManager } from "./TransactionManager";
+import { createPublicClient, decodeEventLog, http, keccak256, parseAbi, toHex } from "viem";
+import { hyperevmMainnet } from "../config/chains";
+import { getVaultHealthConfig, VaultHealthConfig } from "../config/vaultHealth";
+import { getSlippageToleranceBps } from "../config/slippage";
+import { GLUEX_VAULTS } from "../config/vaults";
+import * as cron from "node-cron";
+import { IVaultQuarantine } from "../models/VaultQuarantine";
+
+const ONE_SHARE = BigInt(10) ** BigInt(18);
+const GUARDIAN_ROLE = keccak256(toHex("GUARDIAN_ROLE"));
+
+// ERC-4626 reads used for health sampling
+const VAULT_ABI = parseAbi([
+  "function asset() external view returns (address)",
+  "function convertToAssets(uint256 shares) external view returns (uint256)",
+  "function totalAssets() external view returns (uint256)",
+  "function maxWithdraw(address owner) external view returns (uint256)",
+  "function maxRedeem(address owner) external view returns (uint256)",
+  "function balanceOf(address account) external view returns (uint256)",
+  "function previewRedeem(uint256 shares) external view returns (uint256)",
+]);
+
+// YieldOptimizer emergency exit (minimal interface)
+const OPTIMIZER_ABI = parseAbi([
+  "function emergencyExit(address vault, uint256 shares, uint256 minAssetsOut) external returns (uint256)",
+  "function vaultExposure(address vault) external view returns (uint256)",
+  "function hasRole(bytes32 role, address account) external view returns (bool)",
+  "event EmergencyExitExecuted(address indexed vault, uint256 sharesRedeemed, uint256 assetsReceived)",
+]);
+
+export interface VaultHealthStatus {
+  vault: string;
+  sharePrice: string; // convertToAssets(1e18)
+  totalAssets: string;
+  withdrawableAssets: string; // maxWithdraw of the optimizer
+  holdings: string; // Assets the optimizer holds in the vault
+  peakSharePrice: string; // Highest share price in the lookback window
+  peakTotalAssets: string; // Highest totalAssets in the lookback window
+  sharePriceDropBps: number;
+  tvlDropBps: number;
+  quarantined: boolean;
+  sampledAt: string;
+}
+
+export interface EmergencyExitResult {
+  success: boolean;
+  transactionHash?: string;
+  assets?: string;
+  error?: string;
+}
+
+/**
+ * Vault Health Monitor
+ * Samples each GlueX vault's share price, totalAssets and withdrawable liquidity on a schedule.
+ * A vault whose share price falls or whose TVL drops sharply is quarantined (the optimizer stops
+ * moving funds into it) and, if the keeper holds GUARDIAN_ROLE, exited on-chain.
+ */
+export class VaultHealthMonitor {
+  private dbService: DatabaseService;
+  private client: any;
+  private optimizerContract: string;
+  private config: VaultHealthConfig;
+  private monitorJob: cron.ScheduledTask | null = null;
+  private isChecking: boolean = false;
+  private quarantined: Set<string> = new Set();
+  private latest: Map<string, VaultHealthStatus> = new Map();
+
+  constructor(optimizerContractAddress: string, config: VaultHealthConfig = getVaultHealthConfig()) {
+    this.dbService = DatabaseService.getInstance();
+    this.optimizerContract = optimizerContractAddress;
+    this.config = config;
+
+    // Initialize blockchain client
+    this.client = createPublicClient({
+      chain: hyperevmMainnet,
+      transport: http(
+        process.env.RPC_URL ||
+          process.env.HYPEREVM_RPC_URL ||
+          "https://rpc.hyperevm.com"
+      ),
+    });
+
+    console.log("🩺 Vault Health Monitor initialized");
+  }
+
+  /**
+   * Load active quarantines from MongoDB so they survive restarts
+   */
+  async loadQuarantines(): Promise<void> {
+    const quarantines = await this.dbService.getVaultQuarantines("quarantined");
+    this.quarantined = new Set(quarantines.map((quarantine) => quarantine.vault));
+    if (this.quarantined.size > 0) {
+      console.log(`🚧 Quarantined vaults: ${Array.from(this.quarantined).join(", ")}`);
+    }
+  }
+
+  /**
+   * Start the scheduled health checks
+   */
+  start(): void {
+    if (this.monitorJob) {
+      console.log("⚠️  Vault health monitor is already running");
+      return;
+    }
+
+    if (!cron.validate(this.config.monitorCron)) {
+      throw new Error(`Invalid vault health cron expression: ${this.config.monitorCron}`);
+    }
+
+    this.monitorJob = cron.schedule(this.config.monitorCron, async () => {
+      await this.checkVaults();
+    });
+
+    console.log(`✅ Vault health monitor started (${this.config.monitorCron})`);
+  }
+
+  /**
+   * Stop the scheduled health checks
+   */
+  stop(): void {
+    if (this.monitorJob) {
+      this.monitorJob.stop();
+      this.monitorJob = null;
+    }
+    console.log("🛑 Vault health monitor stopped");
+  }
+
+  isQuarantined(vault: string): boolean {
+    return this.quarantined.has(vault.toLowerCase());
+  }
+
+  getQuarantinedVaults(): string[] {
+    return Array.from(this.quarantined);
+  }
+
+  /**
+   * Monitor settings and the latest sample of each vault
+   */
+  getStatus(): {
+    running: boolean;
+    config: VaultHealthConfig;
+    quarantinedVaults: string[];
+    vaults: VaultHealthStatus[];
+  } {
+    return {
+      running: this.monitorJob !== null,
+      config: { ...this.config },
+      quarantinedVaults: this.getQuarantinedVaults(),
+      vaults: Array.from(this.latest.values()),
+    };
+  }
+
+  /**
+   * Sample every vault, store the samples and quarantine vaults that breach a trigger
+   */
+  async checkVaults(vaults: readonly string[] = GLUEX_VAULTS): Promise<VaultHealthStatus[]> {
+    if (this.isChecking) {
+      console.log("⚠️  Vault health check already in progress");
+      return Array.from(this.latest.values());
+    }
+
+    this.isChecking = true;
+    try {
+      const since = new Date(Date.now() - this.config.lookbackMinutes * 60 * 1000);
+      const statuses: VaultHealthStatus[] = [];
+
+      for (const vault of vaults) {
+        try {
+          statuses.push(await this.checkVault(vault.toLowerCase(), since));
+        } catch (error) {
+          console.error(`❌ Vault health check failed for ${vault}:`, error);
+        }
+      }
+
+      return statuses;
+    } finally {
+      this.isChecking = false;
+    }
+  }
+
+  /**
+   * Quarantine a vault and, if enabled, pull the optimizer's funds out of it
+   */
+  async quarantineVault(
+    vault: string,
+    details: {
+      trigger: "sharePrice" | "tvl" | "manual";
+      reason: string;
+      sharePrice?: string;
+      peakSharePrice?: string;
+      totalAssets?: string;
+      peakTotalAssets?: string;
+    },
+    exit: boolean = this.config.autoEmergencyExit
+  ): Promise<IVaultQuarantine> {
+    const vaultKey = vault.toLowerCase();
+    this.quarantined.add(vaultKey);
+
+    let quarantine = await this.dbService.saveVaultQuarantine(vaultKey, {
+      ...details,
+      status: "quarantined",
+      quarantinedAt: new Date(),
+    });
+    console.log(`🚧 Vault ${vaultKey} quarantined: ${details.reason}`);
+
+    if (exit) {
+      const result = await this.triggerEmergencyExit(vaultKey);
+      quarantine = await this.dbService.saveVaultQuarantine(
+        vaultKey,
+        result.success
+          ? { exitTransactionHash: result.transactionHash, exitAssets: result.assets }
+          : { exitError: result.error }
+      );
+    }
+
+    const status = this.latest.get(vaultKey);
+    if (status) {
+      status.quarantined = true;
+    }
+
+    return quarantine;
+  }
+
+  /**
+   * Lift a quarantine so the optimizer may target the vault again
+   * Note: an exited vault also has to be re-whitelisted on-chain through the timelock
+   */
+  async releaseVault(vault: string): Promise<IVaultQuarantine | null> {
+    const vaultKey = vault.toLowerCase();
+    const existing = await this.dbService.getVaultQuarantine(vaultKey);
+    if (!existing || existing.status !== "quarantined") {
+      return null;
+    }
+
+    this.quarantined.delete(vaultKey);
+    const status = this.latest.get(vaultKey);
+    if (status) {
+      status.quarantined = false;
+    }
+
+    console.log(`✅ Vault ${vaultKey} released from quarantine`);
+    return this.dbService.saveVaultQuarantine(vaultKey, {
+      status: "released",
+      releasedAt: new Date(),
+    });
+  }
+
+  private async checkVault(vault: string, since: Date): Promise<VaultHealthStatus> {
+    const [sharePrice, totalAssets, withdrawableAssets, holdings] = await Promise.all([
+      this.client.readContract({
+        address: vault as `0x`,
+        abi: VAULT_ABI,
+        functionName: "convertToAssets",
+        args: [ONE_SHARE],
+      }),
+      this.client.readContract({
+        address: vault as `0x`,
+        abi: VAULT_ABI,
+        functionName: "totalAssets",
+      }),
+      this.client.readContract({
+        address: vault as `0x`,
+        abi: VAULT_ABI,
+        functionName: "maxWithdraw",
+        args: [this.optimizerContract as `0x`],
+      }),
+      this.client.readContract({
+        address: this.optimizerContract as `0x`,
+        abi: OPTIMIZER_ABI,
+        functionName: "vaultExposure",
+        args: [vault as `0x`],
+      }),
+    ]);
+
+    // Peaks come from earlier samples in the window, plus the current one
+    const history = await this.dbService.getVaultHealthSnapshots(vault, since);
+    let peakSharePrice = sharePrice as bigint;
+    let peakTotalAssets = totalAssets as bigint;
+    for (const sample of history) {
+      const price = BigInt(sample.sharePrice);
+      const assets = BigInt(sample.totalAssets);
+      if (price > peakSharePrice) peakSharePrice = price;
+      if (assets > peakTotalAssets) peakTotalAssets = assets;
+    }
+
+    const now = new Date();
+    await this.dbService.saveVaultHealthSnapshots([
+      {
+        vault,
+        sharePrice: (sharePrice as bigint).toString(),
+        totalAssets: (totalAssets as bigint).toString(),
+        withdrawableAssets: (withdrawableAssets as bigint).toString(),
+        holdings: (holdings as bigint).toString(),
+        timestamp: now,
+      },
+    ]);
+
+    const sharePriceDropBps = this.dropBps(peakSharePrice, sharePrice as bigint);
+    const tvlDropBps = this.dropBps(peakTotalAssets, totalAssets as bigint);
+
+    const status: VaultHealthStatus = {
+      vault,
+      sharePrice: (sharePrice as bigint).toString(),
+      totalAssets: (totalAssets as bigint).toString(),
+      withdrawableAssets: (withdrawableAssets as bigint).toString(),
+      holdings: (holdings as bigint).toString(),
+      peakSharePrice: peakSharePrice.toString(),
+      peakTotalAssets: peakTotalAssets.toString(),
+      sharePriceDropBps,
+      tvlDropBps,
+      quarantined: this.isQuarantined(vault),
+      sampledAt: now.toISOString(),
+    };
+    this.latest.set(vault, status);
+
+    if (!status.quarantined) {
+      const details = {
+        sharePrice: status.sharePrice,
+        peakSharePrice: status.peakSharePrice,
+        totalAssets: status.totalAssets,
+        peakTotalAssets: status.peakTotalAssets,
+      };
+
+      if (sharePriceDropBps > this.config.maxSharePriceDropBps) {
+        await this.quarantineVault(vault, {
+          ...details,
+          trigger: "sharePrice",
+          reason: `Share price fell ${sharePriceDropBps} bps below its ${this.config.lookbackMinutes}-minute peak`,
+        });
+      } else if (tvlDropBps > this.config.maxTvlDropBps) {
+        await this.quarantineVault(vault, {
+          ...details,
+          trigger: "tvl",
+          reason: `TVL fell ${tvlDropBps} bps below its ${this.config.lookbackMinutes}-minute peak`,
+        });
+      }
+    }
+
+    return status;
+  }
+
+  /**
+   * Call emergencyExit for everything the vault lets the optimizer redeem right now
+   */
+  private async triggerEmergencyExit(vault: string): Promise<EmergencyExitResult> {
+    try {
+      const isGuardian = await this.client.readContract({
+        address: this.optimizerContract as `0x`,
+        abi: OPTIMIZER_ABI,
+        functionName: "hasRole",
+        args: [GUARDIAN_ROLE, keeperWallet.account.address],
+      });
+      if (!isGuardian) {
+        return {
+          success: false,
+          error: `Keeper ${keeperWallet.account.address} lacks GUARDIAN_ROLE; a guardian must call emergencyExit`,
+        };
+      }
+
+      const [shares, redeemable, asset] = await Promise.all([
+        this.client.readContract({
+          address: vault as `0x`,
+          abi: VAULT_ABI,
+          functionName: "balanceOf",
+          args: [this.optimizerContract as `0x`],
+        }),
+        this.client.readContract({
+          address: vault as `0x`,
+          abi: VAULT_ABI,
+          functionName: "maxRedeem",
+          args: [this.optimizerContract as `0x`],
+        }),
+        this.client.readContract({
+          address: vault as `0x`,
+          abi: VAULT_ABI,
+          functionName: "asset",
+        }),
+      ]);
+
+      const exitShares = (shares as bigint) < (redeemable as bigint) ? shares : redeemable;
+      if ((exitShares as bigint) === BigInt(0)) {
+        return { success: false, error: "No redeemable shares to exit" };
+      }
+
+      const expectedAssets = await this.client.readContract({
+        address: vault as `0x`,
+        abi: VAULT_ABI,
+        functionName: "previewRedeem",
+        args: [exitShares],
+      });
+      const toleranceBps = getSlippageToleranceBps(asset as string);
+      const minAssetsOut =
+        ((expectedAssets as bigint) * BigInt(10_000 - toleranceBps)) / BigInt(10_000);
+
+      console.log(
+        `🚨 Emergency exit from ${vault}: ${exitShares} shares, minimum ${minAssetsOut} assets`
+      );
+
+      const transactionManager = TransactionManager.getInstance();
+      if (transactionManager.hasPending(`emergency exit ${vault}`)) {
+        return { success: false, error: "An earlier emergency exit from this vault is still pending" };
+      }
+
+      const tx = await transactionManager.sendAndWait({
+        address: this.optimizerContract,
+        abi: OPTIMIZER_ABI,
+        functionName: "emergencyExit",
+        args: [vault as `0x`, exitShares as bigint, minAssetsOut],
+        label: `emergency exit ${vault}`,
+      });
+      const txhash = tx.transactionHash;
+      if (tx.status === "pending") {
+        return { success: false, transactionHash: txhash, error: "Emergency exit transaction not mined yet" };
+      }
+      if (tx.status !== "confirmed") {
+        return { success: false, transactionHash: txhash, error: tx.error || "Emergency exit transaction failed" };
+      }
+
+      const receipt = tx.receipt;
+
+      let assets = BigInt(0);
+      for (const log of receipt.logs) {
+        // Vaults and tokens emit events in the same transaction; only the optimizer's count
+        if (log.address.toLowerCase() !== this.optimizerContract.toLowerCase()) {
+          continue;
+        }
+        try {
+          const decoded = decodeEventLog({
+            abi: OPTIMIZER_ABI,
+            data: log.data,
+            topics: log.topics,
+          });
+          if (decoded.eventName === "EmergencyExitExecuted") {
+            assets += decoded.args.assetsReceived;
+          }
+        } catch {
+          // Not an event from our ABI
+        }
+      }
+
+      console.log(`✅ Emergency exit from ${vault} completed: ${assets} assets (${txhash})`);
+      return { success: true, transactionHash: txhash, assets: assets.toString() };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Unknown error";
+      console.error(`❌ Emergency exit from ${vault} failed: ${errorMessage}`);
+      return { success: false, error: errorMessage };
+    }
+  }
+
+  // How far `current` is below `peak`, in basis points
+  private dropBps(peak: bigint, current: bigint): number {
+    if (peak === BigInt(0) || current >= peak) {
+      return 0;
+    }
+    return Number(((peak - current) * BigInt(10_000)) / peak);
+  }
+}
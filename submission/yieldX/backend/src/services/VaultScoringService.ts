@@ -0,0 +1,192 @@
+import { YieldOpportunity } from "./GlueXYieldsService";
+import { getScoringConfig, RiskTier, ScoringConfig } from "../config/scoring";
+
+export interface ScoringContext {
+  positionAssets: bigint; // Size of the position being allocated (asset units)
+  currentVault?: string; // Vault the position is in today (no switching cost)
+  currentAsset?: string; // Asset the position holds today (no swap needed)
+  vaultTotalAssets: Record<string, bigint>; // vault => on-chain totalAssets (asset units)
+  maxAPY: number; // Highest APY among the candidates
+}
+
+/**
+ * A scoring factor rates a vault between 0 (worst) and 1 (best)
+ */
+export interface ScoringFactor {
+  name: string;
+  score(opportunity: YieldOpportunity, context: ScoringContext): number;
+}
+
+export interface ScoredOpportunity extends YieldOpportunity {
+  score: number;
+  factorScores: Record<string, number>;
+}
+
+const RISK_TIER_SCORES: Record<RiskTier, number> = {
+  low: 1,
+  medium: 0.6,
+  high: 0.2,
+};
+
+const clamp = (value: number): number => Math.min(1, Math.max(0, value));
+
+/**
+ * Raw yield relative to the best candidate
+ */
+export const yieldFactor: ScoringFactor = {
+  name: "yield",
+  score: (opportunity, context) =>
+    context.maxAPY > 0 ? clamp(opportunity.apy / context.maxAPY) : 0,
+};
+
+/**
+ * APY stability from the coefficient of variation of the vault's APY history
+ */
+export const stabilityFactor: ScoringFactor = {
+  name: "stability",
+  score: (opportunity) => {
+    const history = opportunity.apyHistory || [];
+    if (history.length < 2) {
+      return 0.5; // Not enough history to judge
+    }
+
+    const mean = history.reduce((sum, apy) => sum + apy, 0) / history.length;
+    if (mean <= 0) {
+      return 0;
+    }
+
+    const variance =
+      history.reduce((sum, apy) => sum + (apy - mean) ** 2, 0) / history.length;
+    return clamp(1 / (1 + Math.sqrt(variance) / mean));
+  },
+};
+
+/**
+ * Builds the TVL depth factor: penalizes vaults where the position would be a large share of TVL
+ */
+export const createDepthFactor = (maxVaultShare: number): ScoringFactor => ({
+  name: "depth",
+  score: (opportunity, context) => {
+    const totalAssets = context.vaultTotalAssets[opportunity.vault.toLowerCase()];
+    if (totalAssets === undefined || maxVaultShare <= 0) {
+      return 0.5; // Unknown depth
+    }
+
+    const isCurrentVault =
+      opportunity.vault.toLowerCase() === context.currentVault?.toLowerCase();
+    const tvlAfter = isCurrentVault ? totalAssets : totalAssets + context.positionAssets;
+    if (tvlAfter === BigInt(0)) {
+      return 0;
+    }
+
+    const share = Number((context.positionAssets * BigInt(1_000_000)) / tvlAfter) / 1_000_000;
+    return clamp(1 - share / maxVaultShare);
+  },
+});
+
+/**
+ * Builds the risk tier factor from configured vault tiers
+ */
+export const createRiskFactor = (vaultRiskTiers: Record<string, RiskTier>): ScoringFactor => ({
+  name: "risk",
+  score: (opportunity) => {
+    const tier =
+      vaultRiskTiers[opportunity.vault.toLowerCase()] ||
+      (opportunity.riskLevel as RiskTier | undefined);
+    return tier && RISK_TIER_SCORES[tier] !== undefined ? RISK_TIER_SCORES[tier] : 0.5;
+  },
+});
+
+/**
+ * Builds the switching cost factor: estimated gas plus swap cost relative to one year of yield
+ */
+export const createCostFactor = (gasCostBps: number, swapCostBps: number): ScoringFactor => ({
+  name: "cost",
+  score: (opportunity, context) => {
+    if (opportunity.vault.toLowerCase() === context.currentVault?.toLowerCase()) {
+      return 1; // Staying put is free
+    }
+
+    const needsSwap =
+      !!context.currentAsset &&
+      opportunity.asset.toLowerCase() !== context.currentAsset.toLowerCase();
+    const costBps = gasCostBps + (needsSwap ? swapCostBps : 0);
+    const yearlyYieldBps = opportunity.apy * 100;
+
+    return yearlyYieldBps > 0 ? clamp(1 - costBps / yearlyYieldBps) : 0;
+  },
+});
+
+/**
+ * Vault Scoring Service
+ * Ranks yield opportunities by a weighted combination of pluggable factors
+ */
+export class VaultScoringService {
+  private factors: Map<string, ScoringFactor> = new Map();
+  private weights: Record<string, number>;
+
+  constructor(config: ScoringConfig = getScoringConfig()) {
+    this.weights = { ...config.weights };
+
+    this.registerFactor(yieldFactor);
+    this.registerFactor(stabilityFactor);
+    this.registerFactor(createDepthFactor(config.maxVaultShare));
+    this.registerFactor(createRiskFactor(config.vaultRiskTiers));
+    this.registerFactor(createCostFactor(config.gasCostBps, config.swapCostBps));
+  }
+
+  /**
+   * Add or replace a scoring factor
+   */
+  registerFactor(factor: ScoringFactor, weight?: number): void {
+    this.factors.set(factor.name, factor);
+    if (weight !== undefined) {
+      this.weights[factor.name] = weight;
+    }
+  }
+
+  /**
+   * Set the weight of a factor (0 disables it)
+   */
+  setWeight(name: string, weight: number): void {
+    this.weights[name] = weight;
+  }
+
+  /**
+   * Score opportunities and return them sorted by score (highest first)
+   */
+  scoreOpportunities(
+    opportunities: YieldOpportunity[],
+    context: Omit<ScoringContext, "maxAPY">
+  ): ScoredOpportunity[] {
+    const fullContext: ScoringContext = {
+      ...context,
+      maxAPY: opportunities.reduce((max, opp) => Math.max(max, opp.apy), 0),
+    };
+
+    let totalWeight = 0;
+    for (const name of this.factors.keys()) {
+      totalWeight += this.weights[name] ?? 0;
+    }
+
+    const scored = opportunities.map((opportunity) => {
+      const factorScores: Record<string, number> = {};
+      let weightedSum = 0;
+
+      for (const [name, factor] of this.factors) {
+        const factorScore = clamp(factor.score(opportunity, fullContext));
+        factorScores[name] = factorScore;
+        weightedSum += factorScore * (this.weights[name] ?? 0);
+      }
+
+      return {
+        ...opportunity,
+        score: totalWeight > 0 ? weightedSum / totalWeight : 0,
+        factorScores,
+      };
+    });
+
+    scored.sort((a, b) => b.score - a.score || b.apy - a.apy);
+    return scored;
+  }
+}
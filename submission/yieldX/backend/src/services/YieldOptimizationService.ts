@@ -1,72 +1,231 @@
 import { DatabaseService } from "./DatabaseService";
-import { GlueXYieldsService, YieldOpportunity } from "./GlueXYieldsService";
+import { YieldOpportunity } from "./GlueXYieldsService";
+import { YieldOracleService } from "./YieldOracleService";
 import { getQuote } from "./GlueXservice";
 import { keeperWallet } from "../config/blockchain";
-import { createPublicClient, http, parseAbi } from "viem";
+import {
+  BaseError,
+  ContractFunctionRevertedError,
+  createPublicClient,
+  decodeEventLog,
+  http,
+  keccak256,
+  parseAbi,
+  toHex,
+} from "viem";
 import { hyperevmMainnet } from "../config/chains";
 import * as cron from "node-cron";
+import { parseExpression } from "cron-parser";
 import { RouterWhitelistHelper } from "./RouterWhitelistHelper";
+import { RouterPolicyService } from "./RouterPolicyService";
+import { ExposureCheck, ExposureService } from "./ExposureService";
+import { VaultHealthMonitor } from "./VaultHealthMonitor";
+import { LiquidityCheck, LiquidityService } from "./LiquidityService";
+import { SplitCandidate, SplitPlan, SplitPlanner } from "./SplitPlanner";
+import { getSlippageToleranceBps } from "../config/slippage";
+import { ScoredOpportunity, VaultScoringService } from "./VaultScoringService";
+import { BreakEvenAnalyzer, CostBenefitBreakdown } from "./BreakEvenAnalyzer";
+import { GLUEX_VAULTS } from "../config/vaults";
+import { IOptimizationJob } from "../models/OptimizationJob";
+import { getSchedulerConfig, SchedulerSettings } from "../config/scheduler";
+import { TransactionManager } from "./TransactionManager";
 
-// GlueX Vault addresses (from requirements)
-const GLUEX_VAULTS = [
-  "0xe25514992597786e07872e6c5517fe1906c0cadd",
-  "0xcdc3975df9d1cf054f44ed238edfb708880292ea",
-  "0x8f9291606862eef771a97e5b71e4b98fd1fa216a",
-  "0x9f75eac57d1c6f7248bd2aede58c95689f3827f7",
-  "0x63cf7ee583d9954febf649ad1c40c97a6493b1be",
-] as const;
+const SCHEDULER_SETTINGS_NAME = "optimization";
 
 // YieldOptimizer ABI (minimal interface)
 const YIELD_OPTIMIZER_ABI = parseAbi([
-  "function getUserPositions(address) external view returns ((address vault, address asset, uint256 shares, uint256 assets, bool active)[])",
-  "function optimizePosition(uint256, (address[] routers, bytes[] calldatas, address[] inputTokens, address[] outputTokens, uint256[] inputAmounts, address targetVault, uint256 minSharesOut)) external returns (uint256)",
+  "function getUserPositions(address) external view returns ((address vault, address asset, uint256 shares, uint256 assets, uint256 costBasis, bool active)[])",
+  "function receipts() external view returns (address)",
+  "function getPositionValues(address) external view returns ((uint256 id, address vault, address asset, uint256 shares, uint256 costBasis, uint256 currentAssets, uint256 accruedYield, uint256 maxWithdraw, bool active)[])",
+  "function optimizePosition(uint256, (address[] routers, bytes[] calldatas, address[] inputTokens, address[] outputTokens, uint256[] inputAmounts, uint256[] minOutputAmounts, address targetVault, uint256 minSharesOut, uint256 shares)) external returns (uint256)",
+  "function optimizePositionFor(uint256 positionId, (address[] routers, bytes[] calldatas, address[] inputTokens, address[] outputTokens, uint256[] inputAmounts, uint256[] minOutputAmounts, address targetVault, uint256 minSharesOut, uint256 shares)) external returns (uint256)",
+  "function optimizePositionSplitFor(uint256 positionId, (address[] routers, bytes[] calldatas, address[] inputTokens, address[] outputTokens, uint256[] inputAmounts, uint256[] minOutputAmounts, address targetVault, uint256 minSharesOut, uint256 shares)[] legs) external returns (uint256[])",
+  "function authorizedKeepers(address user, address keeper) external view returns (bool)",
+  "function hasRole(bytes32 role, address account) external view returns (bool)",
   "function deposit(address vault, uint256 amount, uint256 minSharesOut) external payable returns (uint256)",
-  "event PositionOptimized(address indexed user, address indexed fromVault, address indexed toVault, uint256 assetsReallocated, uint256 newShares)",
-  "event PositionOpened(address indexed user, address indexed vault, address indexed asset, uint256 assetsDeposited, uint256 sharesReceived)",
+  "event PositionOptimized(address indexed user, address indexed fromVault, address indexed toVault, uint256 assetsReallocated, uint256 newShares, uint256 positionId, uint256 newPositionId)",
+  "event PositionOpened(address indexed user, address indexed vault, address indexed asset, uint256 assetsDeposited, uint256 sharesReceived, uint256 positionId)",
+  "event FeeCharged(address indexed user, address indexed vault, uint256 yieldEarned, uint256 feeAssets)",
+]);
+
+// YieldOptimizer AccessControl roles
+const OPTIMIZER_ROLES = {
+  admin: "0x0000000000000000000000000000000000000000000000000000000000000000",
+  curator: keccak256(toHex("CURATOR_ROLE")),
+  guardian: keccak256(toHex("GUARDIAN_ROLE")),
+  keeper: keccak256(toHex("KEEPER_ROLE")),
+} as const;
+
+export type KeeperRoles = Record<keyof typeof OPTIMIZER_ROLES, boolean>;
+
+// Position receipt (ERC-721) owner lookup
+const RECEIPT_ABI = parseAbi([
+  "function ownerOf(uint256 tokenId) external view returns (address)",
+]);
+
+// ERC-4626 vault ABI (previews for slippage and cost estimates, totalAssets for scoring)
+const ERC4626_ABI = parseAbi([
+  "function totalAssets() external view returns (uint256)",
+  "function convertToAssets(uint256 shares) external view returns (uint256)",
+  "function previewDeposit(uint256 assets) external view returns (uint256)",
 ]);
 
 export interface UserPosition {
-  userAddress: string;
-  positionIndex: number;
+  userAddress: string; // Current holder of the position receipt
+  positionId: number; // Global position ID (receipt token ID)
   vault: string;
   asset: string;
   shares: string;
-  assets: string;
+  currentAssets: string; // Live value from the vault
+  costBasis: string; // Principal deposited, net of withdrawals
+  unrealizedYield: string; // currentAssets above costBasis
+  maxWithdraw: string; // Redeemable right now after vault fees and liquidity
   apy?: number;
   active: boolean;
 }
 
+export interface SchedulerState extends SchedulerSettings {
+  running: boolean;
+  nextRunAt: string | null;
+}
+
+/**
+ * Validate a scheduler settings update, returning an error message or null
+ */
+export const validateSchedulerSettings = (
+  update: Partial<SchedulerSettings>
+): string | null => {
+  if (update.cronExpression !== undefined) {
+    if (typeof update.cronExpression !== "string" || !cron.validate(update.cronExpression)) {
+      return `Invalid cron expression: ${update.cronExpression}`;
+    }
+  }
+  if (update.optimizationThreshold !== undefined) {
+    if (typeof update.optimizationThreshold !== "number" || !(update.optimizationThreshold >= 0)) {
+      return "optimizationThreshold must be a non-negative number";
+    }
+  }
+  if (update.maxPositionsPerRun !== undefined) {
+    if (!Number.isInteger(update.maxPositionsPerRun) || update.maxPositionsPerRun < 0) {
+      return "maxPositionsPerRun must be a non-negative integer (0 = unlimited)";
+    }
+  }
+  if (update.enabled !== undefined && typeof update.enabled !== "boolean") {
+    return "enabled must be a boolean";
+  }
+  return null;
+};
+
+export interface OptimizeOptions {
+  dryRun?: boolean; // Build and simulate the transaction without sending it
+}
+
+export interface SimulationResult {
+  success: boolean;
+  newShares?: string;
+  legShares?: string[]; // New shares per leg of a split
+
+  gasEstimate?: string;
+  revertReason?: string;
+}
+
+export interface SplitLegResult {
+  vault: string;
+  assets: string; // Expected assets moved into the vault
+  shares: string; // Source shares the leg moves ("0" = the rest of the position)
+  apy: number; // Expected APY after our deposit
+  expectedShares: string;
+  minSharesOut: string;
+}
+
+export interface SplitResult {
+  legs: SplitLegResult[];
+  stayAssets: string; // Left in the current vault
+  blendedAPY: number; // Over the whole position
+  singleTargetAPY: number; // Best APY keeping the position whole, for comparison
+}
+
+type OptimizerWriteFunction = "optimizePositionFor" | "optimizePositionSplitFor";
+
 export interface OptimizationResult {
   success: boolean;
   userAddress: string;
-  positionIndex: number;
+  positionId: number;
   fromVault: string;
   toVault: string;
   assetsReallocated: string;
   newShares: string;
   newAPY: number;
   previousAPY: number;
+  targetScore?: number;
+  expectedShares?: string;
+  minSharesOut?: string;
+  slippageToleranceBps?: number;
+  feeCharged?: string;
+  costBenefit?: CostBenefitBreakdown;
+  exposure?: ExposureCheck; // Exposure limits checked for the target vault
+  exposureSkipped?: ExposureCheck[]; // Higher-scored vaults skipped because of exposure limits
+  liquidity?: LiquidityCheck; // How much of the position the vaults' liquidity lets move
+  split?: SplitResult; // Set when the position was spread over several vaults
+  dryRun?: boolean;
+  simulation?: SimulationResult;
+  failed?: boolean; // The attempt errored (as opposed to a deliberate skip)
+  pending?: boolean; // Sent but not mined in time; the transaction manager keeps tracking it
   transactionHash?: string;
   error?: string;
 }
 
+export interface AllocationCandidate extends ScoredOpportunity {
+  exposure?: ExposureCheck;
+  exposureSkipped?: ExposureCheck[];
+}
+
+// Transaction manager label of a position's reallocation, used to skip positions with one in flight
+const optimizationLabel = (positionId: number): string => `optimize position ${positionId}`;
+
 /**
  * Yield Optimization Service
  * Monitors yields across whitelisted vaults and reallocates capital to optimize returns
  */
 export class YieldOptimizationService {
-  private yieldsService: GlueXYieldsService;
+  private yieldOracle: YieldOracleService;
   private dbService: DatabaseService;
   private client: any;
   private optimizerContract: string;
+  private receiptsContract: string | null = null; // Position receipt (ERC-721), read from the optimizer
   private optimizationJob: cron.ScheduledTask | null = null;
   private isRunning: boolean = false;
-  private optimizationThreshold: number = 0.5; // 0.5% APY difference threshold
+  private activeJobId: string | null = null;
+  private jobStarting: boolean = false;
+  private schedulerSettings: SchedulerSettings = getSchedulerConfig();
+  private keeperRoles: KeeperRoles | null = null; // null until detected
   private routerWhitelistHelper: RouterWhitelistHelper;
+  private routerPolicy: RouterPolicyService;
+  private exposureService: ExposureService;
+  private vaultHealthMonitor: VaultHealthMonitor;
+  private liquidityService: LiquidityService;
+  private splitPlanner: SplitPlanner;
+  private scoringService: VaultScoringService;
+  private breakEvenAnalyzer: BreakEvenAnalyzer;
+  private transactionManager: TransactionManager;
 
-  constructor(optimizerContractAddress: string) {
-    this.yieldsService = new GlueXYieldsService();
+  constructor(
+    optimizerContractAddress: string,
+    yieldOracle: YieldOracleService,
+    routerPolicy: RouterPolicyService,
+    exposureService: ExposureService,
+    vaultHealthMonitor: VaultHealthMonitor
+  ) {
+    this.yieldOracle = yieldOracle;
+    this.routerPolicy = routerPolicy;
+    this.exposureService = exposureService;
+    this.vaultHealthMonitor = vaultHealthMonitor;
+    this.scoringService = new VaultScoringService();
+    this.breakEvenAnalyzer = new BreakEvenAnalyzer();
+    this.liquidityService = new LiquidityService(optimizerContractAddress);
+    this.splitPlanner = new SplitPlanner();
     this.dbService = DatabaseService.getInstance();
+    this.transactionManager = TransactionManager.getInstance();
     this.optimizerContract = optimizerContractAddress;
 
     // Initialize blockchain client
@@ -86,8 +245,139 @@ export class YieldOptimizationService {
   }
 
   /**
-   * Start automated yield optimization
-   * Runs optimization check every hour
+   * Detect which YieldOptimizer roles the keeper wallet holds and turn off features it lacks
+   */
+  async detectKeeperRoles(): Promise<KeeperRoles | null> {
+    try {
+      const entries = await Promise.all(
+        (Object.keys(OPTIMIZER_ROLES) as Array<keyof KeeperRoles>).map(async (name) => {
+          const hasRole = await this.client.readContract({
+            address: this.optimizerContract as `0x`,
+            abi: YIELD_OPTIMIZER_ABI,
+            functionName: "hasRole",
+            args: [OPTIMIZER_ROLES[name], keeperWallet.account.address],
+          });
+          return [name, hasRole as boolean] as const;
+        })
+      );
+      this.keeperRoles = Object.fromEntries(entries) as KeeperRoles;
+
+      console.log(`🔑 Keeper ${keeperWallet.account.address} roles:`, this.keeperRoles);
+      if (!this.keeperRoles.keeper) {
+        console.log("⚠️  Keeper wallet lacks KEEPER_ROLE: optimizations and the scheduler are disabled");
+      }
+      if (!this.keeperRoles.curator) {
+        console.log("⚠️  Keeper wallet lacks CURATOR_ROLE: routers will not be whitelisted automatically");
+      }
+      if (this.keeperRoles.admin) {
+        console.log("⚠️  Keeper wallet holds DEFAULT_ADMIN_ROLE; consider moving it to a cold wallet");
+      }
+
+      if (!this.keeperRoles.keeper && this.isRunning) {
+        this.stopOptimization();
+      }
+    } catch (error) {
+      console.error("❌ Failed to detect keeper roles:", error);
+    }
+
+    return this.keeperRoles;
+  }
+
+  /**
+   * Get the roles detected for the keeper wallet (null if not detected yet)
+   */
+  getKeeperRoles(): KeeperRoles | null {
+    return this.keeperRoles;
+  }
+
+  /**
+   * Load scheduler settings from MongoDB (seeding them from env on first run) and apply them
+   */
+  async loadSchedulerSettings(): Promise<SchedulerState> {
+    const stored = await this.dbService.getSchedulerSettings(SCHEDULER_SETTINGS_NAME);
+    if (stored) {
+      this.schedulerSettings = stored;
+    } else {
+      await this.dbService.saveSchedulerSettings(
+        SCHEDULER_SETTINGS_NAME,
+        this.schedulerSettings
+      );
+    }
+
+    this.applySchedulerSettings();
+    return this.getSchedulerState();
+  }
+
+  /**
+   * Update, persist and apply scheduler settings
+   */
+  async updateSchedulerSettings(
+    update: Partial<SchedulerSettings>
+  ): Promise<SchedulerState> {
+    const validationError = validateSchedulerSettings(update);
+    if (validationError) {
+      throw new Error(validationError);
+    }
+
+    const next: SchedulerSettings = { ...this.schedulerSettings };
+    if (update.cronExpression !== undefined) next.cronExpression = update.cronExpression;
+    if (update.optimizationThreshold !== undefined) next.optimizationThreshold = update.optimizationThreshold;
+    if (update.maxPositionsPerRun !== undefined) next.maxPositionsPerRun = update.maxPositionsPerRun;
+    if (update.enabled !== undefined) next.enabled = update.enabled;
+
+    await this.dbService.saveSchedulerSettings(SCHEDULER_SETTINGS_NAME, next);
+
+    const cronChanged = next.cronExpression !== this.schedulerSettings.cronExpression;
+    this.schedulerSettings = next;
+    if (cronChanged && this.isRunning) {
+      this.stopOptimization();
+    }
+    this.applySchedulerSettings();
+
+    console.log("📊 Scheduler settings updated:", this.schedulerSettings);
+    return this.getSchedulerState();
+  }
+
+  /**
+   * Get current scheduler settings, whether it is running and the next run time
+   */
+  getSchedulerState(): SchedulerState {
+    let nextRunAt: string | null = null;
+    if (this.isRunning) {
+      try {
+        nextRunAt = parseExpression(this.schedulerSettings.cronExpression)
+          .next()
+          .toDate()
+          .toISOString();
+      } catch {
+        nextRunAt = null;
+      }
+    }
+
+    return {
+      ...this.schedulerSettings,
+      running: this.isRunning,
+      nextRunAt,
+    };
+  }
+
+  /**
+   * Start or stop the cron job to match the enabled flag
+   */
+  private applySchedulerSettings(): void {
+    if (this.schedulerSettings.enabled && !this.isRunning) {
+      if (this.keeperRoles && !this.keeperRoles.keeper) {
+        console.log("⚠️  Scheduler not started: keeper wallet lacks KEEPER_ROLE");
+        return;
+      }
+      this.startOptimization();
+    } else if (!this.schedulerSettings.enabled && this.isRunning) {
+      this.stopOptimization();
+    }
+  }
+
+  /**
+   * Start automated yield optimization on the configured cron schedule
    */
   startOptimization(): void {
     if (this.isRunning) {
@@ -95,14 +385,21 @@ export class YieldOptimizationService {
       return;
     }
 
-    // Run optimization check every hour
-    this.optimizationJob = cron.schedule("0 * * * *", async () => {
+    const { cronExpression } = this.schedulerSettings;
+    if (!cron.validate(cronExpression)) {
+      throw new Error(`Invalid optimization cron expression: ${cronExpression}`);
+    }
+
+    this.optimizationJob = cron.schedule(cronExpression, async () => {
       console.log("⏰ Running scheduled yield optimization check...");
-      await this.optimizeAllPositions();
+      const job = await this.startOptimizationJob("scheduled");
+      if (!job) {
+        console.log(`⚠️  Skipping scheduled run: job ${this.activeJobId} is still in progress`);
+      }
     });
 
     this.isRunning = true;
-    console.log("✅ Automated yield optimization started (runs every hour)");
+    console.log(`✅ Automated yield optimization started (${cronExpression})`);
   }
 
   /**
@@ -122,29 +419,30 @@ export class YieldOptimizationService {
    */
   async getUserPositions(userAddress: string): Promise<UserPosition[]> {
     try {
+      // Live values straight from the vaults (the stored position assets are only a fee checkpoint)
       const positions = await this.client.readContract({
         address: this.optimizerContract as `0x`,
         abi: YIELD_OPTIMIZER_ABI,
-        functionName: "getUserPositions",
+        functionName: "getPositionValues",
         args: [userAddress as `0x`],
       });
 
       const enrichedPositions: UserPosition[] = await Promise.all(
-        positions.map(async (position: any, index: number) => {
-          // Get current APY for this vault
-          const opportunities = await this.yieldsService.getYieldOpportunities(
-            [position.vault],
-            "hyperevm"
-          );
-          const currentAPY = opportunities.length > 0 ? opportunities[0].apy : 0;
+        positions.map(async (position: any) => {
+          // Get current APY for this vault (cached)
+          const opportunity = await this.yieldOracle.getVaultYield(position.vault);
+          const currentAPY = opportunity ? opportunity.apy : 0;
 
           return {
             userAddress,
-            positionIndex: index,
+            positionId: Number(position.id),
             vault: position.vault,
             asset: position.asset,
             shares: position.shares.toString(),
-            assets: position.assets.toString(),
+            currentAssets: position.currentAssets.toString(),
+            costBasis: position.costBasis.toString(),
+            unrealizedYield: position.accruedYield.toString(),
+            maxWithdraw: position.maxWithdraw.toString(),
             apy: currentAPY,
             active: position.active,
           };
@@ -159,66 +457,325 @@ export class YieldOptimizationService {
   }
 
   /**
-   * Find the best yield opportunity across all whitelisted vaults
+   * Get the current holder of a position's receipt, or null when the position does not exist
+   */
+  async getPositionOwner(positionId: number): Promise<string | null> {
+    try {
+      if (!this.receiptsContract) {
+        this.receiptsContract = (await this.client.readContract({
+          address: this.optimizerContract as `0x`,
+          abi: YIELD_OPTIMIZER_ABI,
+          functionName: "receipts",
+        })) as string;
+      }
+
+      return (await this.client.readContract({
+        address: this.receiptsContract as `0x`,
+        abi: RECEIPT_ABI,
+        functionName: "ownerOf",
+        args: [BigInt(positionId)],
+      })) as string;
+    } catch (error) {
+      console.error(`❌ Error fetching owner of position ${positionId}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Check whether a user has authorized the keeper wallet to optimize their positions
+   */
+  async isKeeperAuthorized(userAddress: string): Promise<boolean> {
+    try {
+      const authorized = await this.client.readContract({
+        address: this.optimizerContract as `0x`,
+        abi: YIELD_OPTIMIZER_ABI,
+        functionName: "authorizedKeepers",
+        args: [userAddress as `0x`, keeperWallet.account.address],
+      });
+
+      return authorized as boolean;
+    } catch (error) {
+      console.error(`❌ Error checking keeper authorization for ${userAddress}:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Find the best risk-adjusted yield opportunity across all whitelisted vaults
+   * Candidates are ranked by the vault scoring engine rather than raw APY
    */
   async findBestYieldOpportunity(
-    currentAsset?: string
-  ): Promise<YieldOpportunity | null> {
-    const allVaults = [...GLUEX_VAULTS];
-    return await this.yieldsService.findBestYieldForAsset(
-      currentAsset || "",
-      allVaults,
-      "hyperevm"
+    currentAsset?: string,
+    currentPosition?: UserPosition
+  ): Promise<AllocationCandidate | null> {
+    const opportunities = await this.yieldOracle.getYieldOpportunities(GLUEX_VAULTS);
+
+    // Filter by asset if provided; quarantined vaults never receive funds, however high their APY
+    const candidates = opportunities.filter(
+      (opp) =>
+        (!currentAsset || opp.asset.toLowerCase() === currentAsset.toLowerCase()) &&
+        !this.vaultHealthMonitor.isQuarantined(opp.vault)
+    );
+
+    if (candidates.length === 0) {
+      return null;
+    }
+
+    const vaultTotalAssets = await this.getVaultTotalAssets(
+      candidates.map((opp) => opp.vault)
+    );
+
+    const scored = this.scoringService.scoreOpportunities(candidates, {
+      positionAssets: BigInt(currentPosition?.currentAssets || "0"),
+      currentVault: currentPosition?.vault,
+      currentAsset,
+      vaultTotalAssets,
+    });
+
+    for (const opp of scored) {
+      console.log(
+        `📐 Vault ${opp.vault}: score ${opp.score.toFixed(3)} (APY ${opp.apy.toFixed(2)}%)`,
+        opp.factorScores
+      );
+    }
+
+    if (!currentPosition) {
+      return scored[0];
+    }
+
+    // Take the best-scored vault the position may move into without breaching exposure limits
+    const exposureSnapshot = await this.exposureService.getProtocolExposure();
+    const exposureSkipped: ExposureCheck[] = [];
+
+    for (const opp of scored) {
+      if (opp.vault.toLowerCase() === currentPosition.vault.toLowerCase()) {
+        return { ...opp, exposureSkipped };
+      }
+
+      const exposure = await this.exposureService.checkAllocation(
+        {
+          vault: opp.vault,
+          amount: BigInt(currentPosition.currentAssets),
+          fromVault: currentPosition.vault,
+        },
+        exposureSnapshot
+      );
+      if (exposure.allowed) {
+        return { ...opp, exposure, exposureSkipped };
+      }
+
+      console.log(
+        `🚧 Skipping vault ${opp.vault}: exposure limits breached`,
+        exposure.rules.filter((rule) => !rule.passed)
+      );
+      exposureSkipped.push(exposure);
+    }
+
+    return null;
+  }
+
+  /**
+   * Read on-chain totalAssets for each vault (vaults that fail to respond are omitted)
+   */
+  private async getVaultTotalAssets(vaults: string[]): Promise<Record<string, bigint>> {
+    const totals: Record<string, bigint> = {};
+
+    await Promise.all(
+      vaults.map(async (vault) => {
+        try {
+          const totalAssets = await this.client.readContract({
+            address: vault as `0x`,
+            abi: ERC4626_ABI,
+            functionName: "totalAssets",
+          });
+          totals[vault.toLowerCase()] = totalAssets as bigint;
+        } catch (error) {
+          console.error(`❌ Error reading totalAssets for vault ${vault}:`, error);
+        }
+      })
+    );
+
+    return totals;
+  }
+
+  /**
+   * Plan a split of a position over vaults of the same asset
+   * Returns null when keeping the position whole earns as much, or when the source vault
+   * cannot redeem all of it (the liquidity checks handle that case)
+   */
+  private async planSplit(
+    currentPosition: UserPosition,
+    currentAPY: number,
+    leavingQuarantine: boolean
+  ): Promise<SplitPlan | null> {
+    const opportunities = await this.yieldOracle.getYieldOpportunities(GLUEX_VAULTS);
+    const targets = opportunities.filter(
+      (opp) =>
+        opp.asset.toLowerCase() === currentPosition.asset.toLowerCase() &&
+        opp.vault.toLowerCase() !== currentPosition.vault.toLowerCase() &&
+        !this.vaultHealthMonitor.isQuarantined(opp.vault)
+    );
+    if (targets.length === 0) {
+      return null;
+    }
+
+    const vaults = targets.map((opp) => opp.vault);
+    const positionShares = BigInt(currentPosition.shares);
+    const [vaultTotalAssets, limits] = await Promise.all([
+      this.getVaultTotalAssets(vaults),
+      this.liquidityService.getUsableLimits(currentPosition.vault, vaults),
+    ]);
+    if (limits.maxRedeem < positionShares) {
+      return null;
+    }
+
+    const totalAssets = await this.liquidityService.previewRedeem(
+      currentPosition.vault,
+      positionShares
     );
+    if (totalAssets === BigInt(0)) {
+      return null;
+    }
+
+    let candidates: SplitCandidate[] = targets
+      .filter((opp) => vaultTotalAssets[opp.vault.toLowerCase()] !== undefined)
+      .map((opp) => {
+        const maxDeposit = limits.maxDeposit[opp.vault.toLowerCase()];
+        return {
+          vault: opp.vault.toLowerCase(),
+          apy: opp.apy,
+          totalAssets: vaultTotalAssets[opp.vault.toLowerCase()],
+          capacity: maxDeposit < totalAssets ? maxDeposit : totalAssets,
+        };
+      });
+
+    // Plan again without any vault whose leg would breach the exposure limits
+    const exposureSnapshot = await this.exposureService.getProtocolExposure();
+    for (;;) {
+      const plan = this.splitPlanner.plan({
+        totalAssets,
+        currentAPY,
+        candidates,
+        allowStay: !leavingQuarantine,
+      });
+      const isSplit =
+        plan.legs.length > 1 || (plan.legs.length === 1 && plan.stayAssets > BigInt(0));
+      if (!isSplit || plan.blendedAPY <= plan.singleTargetAPY) {
+        return null;
+      }
+
+      let breached: string | null = null;
+      for (const leg of plan.legs) {
+        const exposure = await this.exposureService.checkAllocation(
+          { vault: leg.vault, amount: leg.assets, fromVault: currentPosition.vault },
+          exposureSnapshot
+        );
+        if (!exposure.allowed) {
+          breached = leg.vault;
+          break;
+        }
+      }
+      if (!breached) {
+        console.log(
+          `🔀 Split plan for ${currentPosition.vault}: blended APY ${plan.blendedAPY.toFixed(2)}% vs ${plan.singleTargetAPY.toFixed(2)}% kept whole`,
+          plan.legs.map((leg) => `${leg.vault}: ${leg.assets}`)
+        );
+        return plan;
+      }
+
+      console.log(`🚧 Split plan: dropping vault ${breached}, exposure limits breached`);
+      candidates = candidates.filter((candidate) => candidate.vault !== breached);
+    }
   }
 
   /**
    * Optimize a single position by reallocating to higher yielding vault
    */
   async optimizePosition(
-    userAddress: string,
-    positionIndex: number
+    positionId: number,
+    options: OptimizeOptions = {}
   ): Promise<OptimizationResult> {
+    let userAddress = "";
     try {
+      // Whoever holds the receipt owns the position and must have authorized the keeper
+      const owner = await this.getPositionOwner(positionId);
+      if (!owner) {
+        throw new Error("Invalid or inactive position");
+      }
+      userAddress = owner;
+
       console.log(
-        `🔍 Optimizing position ${positionIndex} for user ${userAddress}...`
+        `🔍 Optimizing position ${positionId} for user ${userAddress}...`
       );
 
       // Get current position
       const positions = await this.getUserPositions(userAddress);
-      if (positionIndex >= positions.length || !positions[positionIndex].active) {
+      const currentPosition = positions.find((position) => position.positionId === positionId);
+      if (!currentPosition || !currentPosition.active) {
         throw new Error("Invalid or inactive position");
       }
 
-      const currentPosition = positions[positionIndex];
       const currentAPY = currentPosition.apy || 0;
 
-      // Find best yield opportunity
-      const bestOpportunity = await this.findBestYieldOpportunity(
-        currentPosition.asset
-      );
+      // The keeper can only move funds with KEEPER_ROLE and for users who opted in on-chain
+      if (this.keeperRoles && !this.keeperRoles.keeper) {
+        return {
+          success: false,
+          userAddress,
+          positionId,
+          fromVault: currentPosition.vault,
+          toVault: "",
+          assetsReallocated: "0",
+          newShares: "0",
+          newAPY: 0,
+          previousAPY: currentAPY,
+          error: `Keeper ${keeperWallet.account.address} does not have KEEPER_ROLE`,
+        };
+      }
 
-      if (!bestOpportunity) {
-        throw new Error("No yield opportunities found");
+      const keeperAuthorized = await this.isKeeperAuthorized(userAddress);
+      if (!keeperAuthorized) {
+        return {
+          success: false,
+          userAddress,
+          positionId,
+          fromVault: currentPosition.vault,
+          toVault: "",
+          assetsReallocated: "0",
+          newShares: "0",
+          newAPY: 0,
+          previousAPY: currentAPY,
+          error: `Keeper ${keeperWallet.account.address} is not authorized by user`,
+        };
       }
 
-      // Check if optimization is worthwhile (APY difference > threshold)
-      const apyDifference = bestOpportunity.apy - currentAPY;
-      if (apyDifference < this.optimizationThreshold) {
+      // A reallocation of this position sent earlier may still be mined
+      if (!options.dryRun && this.transactionManager.hasPending(optimizationLabel(positionId))) {
         return {
           success: false,
           userAddress,
-          positionIndex,
+          positionId,
           fromVault: currentPosition.vault,
-          toVault: bestOpportunity.vault,
+          toVault: "",
           assetsReallocated: "0",
           newShares: "0",
-          newAPY: bestOpportunity.apy,
+          newAPY: 0,
           previousAPY: currentAPY,
-          error: `APY difference (${apyDifference.toFixed(2)}%) below threshold (${this.optimizationThreshold}%)`,
+          pending: true,
+          error: "An earlier optimization of this position is still pending",
         };
       }
 
+      // Find best risk-adjusted yield opportunity
+      const bestOpportunity = await this.findBestYieldOpportunity(
+        currentPosition.asset,
+        currentPosition
+      );
+
+      if (!bestOpportunity) {
+        throw new Error("No yield opportunities found, or none within exposure limits");
+      }
+
       // If target vault is the same as current vault, no optimization needed
       if (
         bestOpportunity.vault.toLowerCase() ===
@@ -227,14 +784,46 @@ export class YieldOptimizationService {
         return {
           success: false,
           userAddress,
-          positionIndex,
+          positionId,
+          fromVault: currentPosition.vault,
+          toVault: bestOpportunity.vault,
+          assetsReallocated: "0",
+          newShares: "0",
+          newAPY: bestOpportunity.apy,
+          previousAPY: currentAPY,
+          targetScore: bestOpportunity.score,
+          exposure: bestOpportunity.exposure,
+          exposureSkipped: bestOpportunity.exposureSkipped,
+          error:
+            bestOpportunity.exposureSkipped && bestOpportunity.exposureSkipped.length > 0
+              ? "Already in best vault within exposure limits"
+              : "Already in best vault",
+        };
+      }
+
+      // A position in a quarantined vault moves out regardless of APY gain or switching cost
+      const leavingQuarantine = this.vaultHealthMonitor.isQuarantined(currentPosition.vault);
+      if (leavingQuarantine) {
+        console.log(`🚨 Position ${positionId} of ${userAddress} is in quarantined vault ${currentPosition.vault}; moving it out`);
+      }
+
+      // Cheap pre-filter before quoting (APY difference > threshold); the break-even check below decides
+      const apyDifference = bestOpportunity.apy - currentAPY;
+      if (!leavingQuarantine && apyDifference < this.schedulerSettings.optimizationThreshold) {
+        return {
+          success: false,
+          userAddress,
+          positionId,
           fromVault: currentPosition.vault,
           toVault: bestOpportunity.vault,
           assetsReallocated: "0",
           newShares: "0",
           newAPY: bestOpportunity.apy,
           previousAPY: currentAPY,
-          error: "Already in best vault",
+          targetScore: bestOpportunity.score,
+          exposure: bestOpportunity.exposure,
+          exposureSkipped: bestOpportunity.exposureSkipped,
+          error: `APY difference (${apyDifference.toFixed(2)}%) below threshold (${this.schedulerSettings.optimizationThreshold}%)`,
         };
       }
 
@@ -245,86 +834,312 @@ export class YieldOptimizationService {
         currentPosition.asset.toLowerCase() !==
         bestOpportunity.asset.toLowerCase();
 
+      // A large position dilutes its target's APY; spread it over several vaults when that
+      // earns more than moving it whole
+      if (!needsSwap && this.splitPlanner.getConfig().enabled) {
+        const plan = await this.planSplit(currentPosition, currentAPY, leavingQuarantine);
+        if (plan) {
+          return await this.optimizePositionSplit(
+            userAddress,
+            positionId,
+            currentPosition,
+            currentAPY,
+            plan,
+            leavingQuarantine,
+            options
+          );
+        }
+      }
+
       let routers: `0x${string}`[] = [];
       let calldatas: `0x${string}`[] = [];
       let inputTokens: `0x${string}`[] = [];
       let outputTokens: `0x${string}`[] = [];
       let inputAmounts: bigint[] = [];
+      let minOutputAmounts: bigint[] = [];
 
-      if (needsSwap) {
+      // Size the move to what the source vault can redeem and the target vault can accept, so
+      // a limited vault shrinks or skips the move instead of reverting the transaction
+      let liquidity = await this.liquidityService.checkLiquidity({
+        sourceVault: currentPosition.vault,
+        targetVault: bestOpportunity.vault,
+        positionShares: BigInt(currentPosition.shares),
+        sameAsset: !needsSwap,
+        allowAnyAmount: leavingQuarantine,
+      });
+
+      // previewRedeem of the shares being moved: what will actually leave the source vault
+      let expectedRedeemedAssets = BigInt(liquidity.expectedAssets);
+      let expectedTargetAssets = expectedRedeemedAssets;
+      let quoteResult: any = null;
+
+      if (needsSwap && liquidity.action !== "skip") {
         // Get quote from GlueX Router API for asset conversion
-        const quote = await getQuote({
-          chainID: "hyperevm",
-          inputToken: currentPosition.asset,
-          outputToken: bestOpportunity.asset,
-          userAddress: this.optimizerContract as `0x`,
-          outputReceiver: this.optimizerContract as `0x`,
-          inputAmount: currentPosition.assets,
-        });
+        quoteResult = await this.quoteSwap(
+          currentPosition.asset,
+          bestOpportunity.asset,
+          expectedRedeemedAssets
+        );
+        expectedTargetAssets = BigInt(quoteResult.outputAmount);
 
-        if (!quote.success || !quote.data?.result) {
-          throw new Error("Failed to get swap quote");
+        // The target's deposit limit is in its own asset, so check it against the quoted output
+        // and quote again for the smaller amount if it does not fit
+        const fitted = await this.liquidityService.fitToDepositLimit(
+          liquidity,
+          currentPosition.vault,
+          expectedTargetAssets,
+          leavingQuarantine
+        );
+        if (fitted !== liquidity) {
+          liquidity = fitted;
+          expectedRedeemedAssets = BigInt(liquidity.expectedAssets);
+          if (liquidity.action !== "skip") {
+            quoteResult = await this.quoteSwap(
+              currentPosition.asset,
+              bestOpportunity.asset,
+              expectedRedeemedAssets
+            );
+            expectedTargetAssets = BigInt(quoteResult.outputAmount);
+          }
         }
+      }
 
-        const routerAddress = quote.data.result.router;
-        
-        // Ensure router is whitelisted before using it
-        const routerWhitelisted = await this.routerWhitelistHelper.ensureRouterWhitelisted(
-          routerAddress
-        );
-        
-        if (!routerWhitelisted) {
-          throw new Error(
-            `Router ${routerAddress} is not whitelisted and could not be whitelisted automatically. Please whitelist manually.`
-          );
+      if (liquidity.action === "skip") {
+        return {
+          success: false,
+          userAddress,
+          positionId,
+          fromVault: currentPosition.vault,
+          toVault: bestOpportunity.vault,
+          assetsReallocated: "0",
+          newShares: "0",
+          newAPY: bestOpportunity.apy,
+          previousAPY: currentAPY,
+          targetScore: bestOpportunity.score,
+          exposure: bestOpportunity.exposure,
+          exposureSkipped: bestOpportunity.exposureSkipped,
+          liquidity,
+          error: `Insufficient liquidity: ${liquidity.reason}`,
+        };
+      }
+
+      if (needsSwap) {
+        const routerAddress = quoteResult.router;
+        if (!routerAddress || !/^0x[0-9a-fA-F]{40}$/.test(routerAddress)) {
+          throw new Error("Swap quote did not include a valid router address");
+        }
+
+        // The quote API decides the call target, so only routers an admin approved (with
+        // unchanged bytecode) are used; anything else is queued for review and refused
+        const routerCheck = await this.routerPolicy.checkRouter(routerAddress);
+        if (!routerCheck.allowed) {
+          throw new Error(`Swap quote rejected: ${routerCheck.reason}`);
+        }
+
+        // Ensure the approved router is whitelisted on-chain before using it (a dry run never
+        // sends transactions; the simulation reports an unwhitelisted router instead). Only a
+        // keeper with CURATOR_ROLE may queue the whitelisting automatically.
+        if (!options.dryRun) {
+          const canWhitelist = this.keeperRoles?.curator !== false;
+          const routerWhitelisted = canWhitelist
+            ? await this.routerWhitelistHelper.ensureRouterWhitelisted(routerAddress)
+            : await this.routerWhitelistHelper.isRouterWhitelisted(routerAddress);
+
+          if (!routerWhitelisted) {
+            throw new Error(
+              canWhitelist
+                ? `Router ${routerAddress} is not whitelisted yet; its whitelisting is queued in the governance timelock or must be queued manually.`
+                : `Router ${routerAddress} is not whitelisted and the keeper lacks CURATOR_ROLE. A curator must whitelist it.`
+            );
+          }
         }
 
         routers = [routerAddress as `0x${string}`];
-        calldatas = [quote.data.result.calldata as `0x${string}`];
+        calldatas = [quoteResult.calldata as `0x${string}`];
         inputTokens = [currentPosition.asset as `0x${string}`];
         outputTokens = [bestOpportunity.asset as `0x${string}`];
-        inputAmounts = [BigInt(currentPosition.assets)];
+        inputAmounts = [expectedRedeemedAssets];
+        // The contract checks each swap's output against its own minimum
+        minOutputAmounts = [
+          this.applySlippage(expectedTargetAssets, getSlippageToleranceBps(bestOpportunity.asset)),
+        ];
       }
 
-      // Calculate minimum shares to receive (with 1% slippage tolerance)
-      const minSharesOut = "0"; // Would calculate based on expected shares
-
-      // Execute optimization on-chain
-      const txhash = await keeperWallet.writeContract({
-        address: this.optimizerContract as `0x`,
-        abi: YIELD_OPTIMIZER_ABI,
-        functionName: "optimizePosition",
-        args: [
-          BigInt(positionIndex),
-          {
-            routers: routers,
-            calldatas: calldatas,
-            inputTokens: inputTokens,
-            outputTokens: outputTokens,
-            inputAmounts: inputAmounts,
-            targetVault: bestOpportunity.vault as `0x`,
-            minSharesOut: BigInt(minSharesOut),
-          },
+      // Calculate minimum shares to receive from the target vault preview and slippage tolerance
+      const expectedShares = await this.previewDeposit(
+        bestOpportunity.vault,
+        expectedTargetAssets
+      );
+      if (expectedShares === null || expectedShares === BigInt(0)) {
+        throw new Error(
+          `Unable to estimate expected shares for vault ${bestOpportunity.vault}; refusing to submit without slippage protection`
+        );
+      }
+
+      const slippageToleranceBps = getSlippageToleranceBps(bestOpportunity.asset);
+      const minSharesOut = this.applySlippage(expectedShares, slippageToleranceBps);
+
+      console.log(
+        `🛡️  Expected shares: ${expectedShares}, minimum shares out: ${minSharesOut} (${slippageToleranceBps} bps tolerance)`
+      );
+
+      const optimizeArgs = [
+        BigInt(positionId),
+        {
+          routers: routers,
+          calldatas: calldatas,
+          inputTokens: inputTokens,
+          outputTokens: outputTokens,
+          inputAmounts: inputAmounts,
+          minOutputAmounts: minOutputAmounts,
+          targetVault: bestOpportunity.vault as `0x`,
+          minSharesOut: minSharesOut,
+          // 0 moves the whole position, whatever the fee charge leaves of it
+          shares: liquidity.action === "full" ? BigInt(0) : BigInt(liquidity.sharesToMove),
+        },
+      ] as const;
+
+      // Dry run: simulate the call with eth_call before anything else
+      let simulation: SimulationResult | undefined;
+      if (options.dryRun) {
+        simulation = await this.simulateOptimization(optimizeArgs);
+        if (!simulation.success) {
+          return {
+            success: false,
+            userAddress,
+            positionId,
+            fromVault: currentPosition.vault,
+            toVault: bestOpportunity.vault,
+            assetsReallocated: "0",
+            newShares: "0",
+            newAPY: bestOpportunity.apy,
+            previousAPY: currentAPY,
+            targetScore: bestOpportunity.score,
+            exposure: bestOpportunity.exposure,
+            exposureSkipped: bestOpportunity.exposureSkipped,
+            liquidity,
+            expectedShares: expectedShares.toString(),
+            minSharesOut: minSharesOut.toString(),
+            slippageToleranceBps,
+            dryRun: true,
+            simulation,
+            error: `Simulation reverted: ${simulation.revertReason}`,
+          };
+        }
+      }
+
+      // Weigh the full switching cost against the projected extra yield before spending gas
+      const costBenefit = await this.evaluateBreakEven({
+        currentPosition,
+        currentAPY,
+        targetAPY: bestOpportunity.apy,
+        sharesToMove: BigInt(liquidity.sharesToMove),
+        expectedRedeemedAssets,
+        deposits: [
+          { vault: bestOpportunity.vault, expectedTargetAssets, expectedShares },
         ],
+        quoteResult,
+        optimizeArgs,
       });
 
-      console.log(`📝 Optimization transaction submitted: ${txhash}`);
+      if (!costBenefit.worthwhile && !leavingQuarantine) {
+        return {
+          success: false,
+          userAddress,
+          positionId,
+          fromVault: currentPosition.vault,
+          toVault: bestOpportunity.vault,
+          assetsReallocated: "0",
+          newShares: "0",
+          newAPY: bestOpportunity.apy,
+          previousAPY: currentAPY,
+          targetScore: bestOpportunity.score,
+          exposure: bestOpportunity.exposure,
+          exposureSkipped: bestOpportunity.exposureSkipped,
+          liquidity,
+          expectedShares: expectedShares.toString(),
+          minSharesOut: minSharesOut.toString(),
+          slippageToleranceBps,
+          costBenefit,
+          dryRun: options.dryRun,
+          simulation,
+          error: `Net gain (${costBenefit.netGain}) over ${costBenefit.holdingPeriodDays} days below required margin (${costBenefit.minNetGain}); switching cost ${costBenefit.totalCost}`,
+        };
+      }
+
+      if (options.dryRun) {
+        console.log(
+          `🧪 Dry run: position ${positionId} of ${userAddress} would move ${currentPosition.vault} -> ${bestOpportunity.vault} (${liquidity.action})`
+        );
+
+        return {
+          success: true,
+          userAddress,
+          positionId,
+          fromVault: currentPosition.vault,
+          toVault: bestOpportunity.vault,
+          assetsReallocated: expectedRedeemedAssets.toString(),
+          newShares: simulation?.newShares || "0",
+          newAPY: bestOpportunity.apy,
+          previousAPY: currentAPY,
+          targetScore: bestOpportunity.score,
+          exposure: bestOpportunity.exposure,
+          exposureSkipped: bestOpportunity.exposureSkipped,
+          liquidity,
+          expectedShares: expectedShares.toString(),
+          minSharesOut: minSharesOut.toString(),
+          slippageToleranceBps,
+          costBenefit,
+          dryRun: true,
+          simulation,
+        };
+      }
 
-      // Wait for transaction confirmation
-      const receipt = await this.client.waitForTransactionReceipt({
-        hash: txhash,
+      // Execute optimization on-chain on behalf of the user
+      const tx = await this.transactionManager.sendAndWait({
+        address: this.optimizerContract,
+        abi: YIELD_OPTIMIZER_ABI,
+        functionName: "optimizePositionFor",
+        args: optimizeArgs,
+        label: optimizationLabel(positionId),
       });
 
-      if (receipt.status === "success") {
+      if (tx.status === "pending") {
+        return {
+          success: false,
+          userAddress,
+          positionId,
+          fromVault: currentPosition.vault,
+          toVault: bestOpportunity.vault,
+          assetsReallocated: "0",
+          newShares: "0",
+          newAPY: bestOpportunity.apy,
+          previousAPY: currentAPY,
+          pending: true,
+          transactionHash: tx.transactionHash,
+          error: `Optimization transaction ${tx.transactionHash} not mined yet`,
+        };
+      }
+
+      if (tx.status === "confirmed") {
+        const receipt = tx.receipt;
+        const txhash = tx.transactionHash;
+        const feeCharged = this.getFeeChargedFromLogs(receipt.logs);
+        const assetsReallocated =
+          liquidity.action === "full"
+            ? currentPosition.currentAssets
+            : expectedRedeemedAssets.toString();
+
         // Save optimization to database
         await this.dbService.saveYieldOptimization({
           userAddress,
-          positionIndex,
+          positionId,
           fromVault: currentPosition.vault,
           toVault: bestOpportunity.vault,
-          assetsReallocated: currentPosition.assets,
+          assetsReallocated,
           previousAPY: currentAPY,
           newAPY: bestOpportunity.apy,
+          feeCharged: feeCharged.toString(),
           transactionHash: txhash,
           timestamp: new Date(),
         });
@@ -336,17 +1151,26 @@ export class YieldOptimizationService {
         return {
           success: true,
           userAddress,
-          positionIndex,
+          positionId,
           fromVault: currentPosition.vault,
           toVault: bestOpportunity.vault,
-          assetsReallocated: currentPosition.assets,
+          assetsReallocated,
           newShares: "0", // Would get from event logs
           newAPY: bestOpportunity.apy,
           previousAPY: currentAPY,
+          targetScore: bestOpportunity.score,
+          exposure: bestOpportunity.exposure,
+          exposureSkipped: bestOpportunity.exposureSkipped,
+          liquidity,
+          expectedShares: expectedShares.toString(),
+          minSharesOut: minSharesOut.toString(),
+          slippageToleranceBps,
+          feeCharged: feeCharged.toString(),
+          costBenefit,
           transactionHash: txhash,
         };
       } else {
-        throw new Error("Transaction failed");
+        throw new Error(tx.error || "Transaction failed");
       }
     } catch (error) {
       const errorMessage =
@@ -356,59 +1180,667 @@ export class YieldOptimizationService {
       return {
         success: false,
         userAddress,
-        positionIndex,
+        positionId,
         fromVault: "",
         toVault: "",
         assetsReallocated: "0",
         newShares: "0",
         newAPY: 0,
         previousAPY: 0,
+        dryRun: options.dryRun,
+        failed: true,
         error: errorMessage,
       };
     }
   }
 
   /**
-   * Optimize all positions for all users (called by scheduled job)
+   * Spread a position over the vaults of a split plan in one optimizePositionSplitFor call
+   * Every leg but a final "rest of the position" leg moves a fixed number of shares.
+   */
+  private async optimizePositionSplit(
+    userAddress: string,
+    positionId: number,
+    currentPosition: UserPosition,
+    currentAPY: number,
+    plan: SplitPlan,
+    leavingQuarantine: boolean,
+    options: OptimizeOptions
+  ): Promise<OptimizationResult> {
+    const positionShares = BigInt(currentPosition.shares);
+    const slippageToleranceBps = getSlippageToleranceBps(currentPosition.asset);
+    const legs: SplitLegResult[] = [];
+    const legParams = [];
+    const deposits: Array<{ vault: string; expectedTargetAssets: bigint; expectedShares: bigint }> = [];
+    let sharesMoved = BigInt(0);
+    let expectedRedeemedAssets = BigInt(0);
+
+    for (let i = 0; i < plan.legs.length; i++) {
+      const leg = plan.legs[i];
+      const restLeg = i === plan.legs.length - 1 && plan.stayAssets === BigInt(0);
+      const shares = restLeg
+        ? positionShares - sharesMoved
+        : (positionShares * leg.assets) / plan.totalAssets;
+
+      const assets = await this.liquidityService.previewRedeem(currentPosition.vault, shares);
+      const expectedShares = await this.previewDeposit(leg.vault, assets);
+      if (expectedShares === null || expectedShares === BigInt(0)) {
+        throw new Error(
+          `Unable to estimate expected shares for vault ${leg.vault}; refusing to submit without slippage protection`
+        );
+      }
+      const minSharesOut = this.applySlippage(expectedShares, slippageToleranceBps);
+
+      sharesMoved += shares;
+      expectedRedeemedAssets += assets;
+      deposits.push({ vault: leg.vault, expectedTargetAssets: assets, expectedShares });
+      legParams.push({
+        routers: [] as `0x${string}`[],
+        calldatas: [] as `0x${string}`[],
+        inputTokens: [] as `0x${string}`[],
+        outputTokens: [] as `0x${string}`[],
+        inputAmounts: [] as bigint[],
+        minOutputAmounts: [] as bigint[],
+        targetVault: leg.vault as `0x`,
+        minSharesOut,
+        // 0 moves the rest of the position, whatever the fee charge leaves of it
+        shares: restLeg ? BigInt(0) : shares,
+      });
+      legs.push({
+        vault: leg.vault,
+        assets: assets.toString(),
+        shares: restLeg ? "0" : shares.toString(),
+        apy: leg.apy,
+        expectedShares: expectedShares.toString(),
+        minSharesOut: minSharesOut.toString(),
+      });
+    }
+
+    const split: SplitResult = {
+      legs,
+      stayAssets: plan.stayAssets.toString(),
+      blendedAPY: plan.blendedAPY,
+      singleTargetAPY: plan.singleTargetAPY,
+    };
+    const splitArgs = [BigInt(positionId), legParams] as const;
+
+    // Dry run: simulate the call with eth_call before anything else
+    let simulation: SimulationResult | undefined;
+    if (options.dryRun) {
+      simulation = await this.simulateOptimization(splitArgs, "optimizePositionSplitFor");
+      if (!simulation.success) {
+        return {
+          success: false,
+          userAddress,
+          positionId,
+          fromVault: currentPosition.vault,
+          toVault: plan.legs[0].vault,
+          assetsReallocated: "0",
+          newShares: "0",
+          newAPY: plan.blendedAPY,
+          previousAPY: currentAPY,
+          slippageToleranceBps,
+          split,
+          dryRun: true,
+          simulation,
+          error: `Simulation reverted: ${simulation.revertReason}`,
+        };
+      }
+    }
+
+    // APY of the part that moves, for the break-even check
+    const movedAssets = plan.legs.reduce((sum, leg) => sum + leg.assets, BigInt(0));
+    const movedAPY =
+      plan.legs.reduce((sum, leg) => sum + leg.apy * Number(leg.assets), 0) / Number(movedAssets);
+
+    const costBenefit = await this.evaluateBreakEven({
+      currentPosition,
+      currentAPY,
+      targetAPY: movedAPY,
+      sharesToMove: sharesMoved,
+      expectedRedeemedAssets,
+      deposits,
+      quoteResult: null,
+      functionName: "optimizePositionSplitFor",
+      optimizeArgs: splitArgs,
+    });
+
+    if (!costBenefit.worthwhile && !leavingQuarantine) {
+      return {
+        success: false,
+        userAddress,
+        positionId,
+        fromVault: currentPosition.vault,
+        toVault: plan.legs[0].vault,
+        assetsReallocated: "0",
+        newShares: "0",
+        newAPY: plan.blendedAPY,
+        previousAPY: currentAPY,
+        slippageToleranceBps,
+        costBenefit,
+        split,
+        dryRun: options.dryRun,
+        simulation,
+        error: `Net gain (${costBenefit.netGain}) over ${costBenefit.holdingPeriodDays} days below required margin (${costBenefit.minNetGain}); switching cost ${costBenefit.totalCost}`,
+      };
+    }
+
+    if (options.dryRun) {
+      console.log(
+        `🧪 Dry run: position ${positionId} of ${userAddress} would split ${currentPosition.vault} -> ${plan.legs.map((leg) => leg.vault).join(", ")}`
+      );
+
+      return {
+        success: true,
+        userAddress,
+        positionId,
+        fromVault: currentPosition.vault,
+        toVault: plan.legs[0].vault,
+        assetsReallocated: expectedRedeemedAssets.toString(),
+        newShares: "0",
+        newAPY: plan.blendedAPY,
+        previousAPY: currentAPY,
+        slippageToleranceBps,
+        costBenefit,
+        split,
+        dryRun: true,
+        simulation,
+      };
+    }
+
+    // Execute the split on-chain on behalf of the user
+    const tx = await this.transactionManager.sendAndWait({
+      address: this.optimizerContract,
+      abi: YIELD_OPTIMIZER_ABI,
+      functionName: "optimizePositionSplitFor",
+      args: splitArgs,
+      label: optimizationLabel(positionId),
+    });
+
+    if (tx.status === "pending") {
+      return {
+        success: false,
+        userAddress,
+        positionId,
+        fromVault: currentPosition.vault,
+        toVault: plan.legs[0].vault,
+        assetsReallocated: "0",
+        newShares: "0",
+        newAPY: plan.blendedAPY,
+        previousAPY: currentAPY,
+        split,
+        pending: true,
+        transactionHash: tx.transactionHash,
+        error: `Split optimization transaction ${tx.transactionHash} not mined yet`,
+      };
+    }
+
+    if (tx.status !== "confirmed") {
+      throw new Error(tx.error || "Transaction failed");
+    }
+
+    const receipt = tx.receipt;
+    const txhash = tx.transactionHash;
+    const feeCharged = this.getFeeChargedFromLogs(receipt.logs);
+
+    // One record per leg, sharing the transaction hash
+    for (let i = 0; i < legs.length; i++) {
+      await this.dbService.saveYieldOptimization({
+        userAddress,
+        positionId,
+        fromVault: currentPosition.vault,
+        toVault: legs[i].vault,
+        assetsReallocated: legs[i].assets,
+        previousAPY: currentAPY,
+        newAPY: legs[i].apy,
+        feeCharged: i === 0 ? feeCharged.toString() : "0",
+        transactionHash: txhash,
+        timestamp: new Date(),
+      });
+    }
+
+    console.log(
+      `✅ Position split: ${currentPosition.vault} -> ${legs.map((leg) => leg.vault).join(", ")} (APY: ${currentAPY.toFixed(2)}% -> ${plan.blendedAPY.toFixed(2)}% blended)`
+    );
+
+    return {
+      success: true,
+      userAddress,
+      positionId,
+      fromVault: currentPosition.vault,
+      toVault: plan.legs[0].vault,
+      assetsReallocated: expectedRedeemedAssets.toString(),
+      newShares: "0", // Per-leg shares are in the PositionOptimized logs
+      newAPY: plan.blendedAPY,
+      previousAPY: currentAPY,
+      slippageToleranceBps,
+      feeCharged: feeCharged.toString(),
+      costBenefit,
+      split,
+      transactionHash: txhash,
+    };
+  }
+
+  /**
+   * Simulate optimizePositionFor (or optimizePositionSplitFor) from the keeper account
+   * without sending a transaction
    */
-  async optimizeAllPositions(): Promise<void> {
+  private async simulateOptimization(
+    optimizeArgs: readonly unknown[],
+    functionName: OptimizerWriteFunction = "optimizePositionFor"
+  ): Promise<SimulationResult> {
     try {
-      console.log("🔍 Checking all positions for optimization opportunities...");
+      const { result } = await this.client.simulateContract({
+        address: this.optimizerContract as `0x`,
+        abi: YIELD_OPTIMIZER_ABI,
+        functionName,
+        args: optimizeArgs,
+        account: keeperWallet.account,
+      });
 
-      // Get all users with positions (would need to track this in database)
-      // For now, we'll optimize positions that were previously created
-      const users = await this.dbService.getUsersWithYieldPositions();
+      const gasEstimate: bigint = await this.client.estimateContractGas({
+        address: this.optimizerContract as `0x`,
+        abi: YIELD_OPTIMIZER_ABI,
+        functionName,
+        args: optimizeArgs,
+        account: keeperWallet.account,
+      });
 
-      let optimizedCount = 0;
-      let skippedCount = 0;
+      if (Array.isArray(result)) {
+        return {
+          success: true,
+          legShares: result.map((shares: bigint) => shares.toString()),
+          gasEstimate: gasEstimate.toString(),
+        };
+      }
 
-      for (const userAddress of users) {
-        const positions = await this.getUserPositions(userAddress);
+      return {
+        success: true,
+        newShares: result.toString(),
+        gasEstimate: gasEstimate.toString(),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        revertReason: this.getRevertReason(error),
+      };
+    }
+  }
 
-        for (const position of positions) {
-          if (!position.active) continue;
+  /**
+   * Extract a human readable revert reason from a viem error
+   */
+  private getRevertReason(error: unknown): string {
+    if (error instanceof BaseError) {
+      const revertError = error.walk(
+        (err) => err instanceof ContractFunctionRevertedError
+      );
+      if (revertError instanceof ContractFunctionRevertedError) {
+        return revertError.reason || revertError.shortMessage;
+      }
+      return error.shortMessage;
+    }
+    return error instanceof Error ? error.message : "Unknown error";
+  }
 
-          const result = await this.optimizePosition(
-            userAddress,
-            position.positionIndex
-          );
+  /**
+   * Estimate the total cost of a reallocation in source asset units and compare it
+   * with the extra yield projected over the configured holding period
+   */
+  private async evaluateBreakEven(params: {
+    currentPosition: UserPosition;
+    currentAPY: number;
+    targetAPY: number;
+    sharesToMove: bigint;
+    expectedRedeemedAssets: bigint;
+    deposits: Array<{ vault: string; expectedTargetAssets: bigint; expectedShares: bigint }>;
+    quoteResult: any;
+    functionName?: OptimizerWriteFunction;
+    optimizeArgs: readonly unknown[];
+  }): Promise<CostBenefitBreakdown> {
+    const { currentPosition, expectedRedeemedAssets } = params;
+    const zero = BigInt(0);
 
-          if (result.success) {
-            optimizedCount++;
-            // Small delay between optimizations
-            await new Promise((resolve) => setTimeout(resolve, 2000));
-          } else {
-            skippedCount++;
-          }
+    // Vault exit fee: value of the shares moved vs. what a redeem actually returns
+    const positionValue = await this.convertToAssets(currentPosition.vault, params.sharesToMove);
+    if (positionValue === null) {
+      throw new Error(`Unable to value position in vault ${currentPosition.vault}`);
+    }
+    const exitCost =
+      positionValue > expectedRedeemedAssets ? positionValue - expectedRedeemedAssets : zero;
+
+    // Swap price impact from the GlueX quote
+    const swapCost = params.quoteResult
+      ? this.breakEvenAnalyzer.estimateSwapCost(expectedRedeemedAssets, params.quoteResult)
+      : zero;
+
+    // Vault entry fees: deposited assets vs. the value of the shares received
+    let entryCost = zero;
+    for (const deposit of params.deposits) {
+      const depositedValue = await this.convertToAssets(deposit.vault, deposit.expectedShares);
+      if (depositedValue === null) {
+        throw new Error(`Unable to value deposit in vault ${deposit.vault}`);
+      }
+      let depositCost =
+        deposit.expectedTargetAssets > depositedValue
+          ? deposit.expectedTargetAssets - depositedValue
+          : zero;
+      if (params.quoteResult && deposit.expectedTargetAssets > zero) {
+        // Express target asset cost in source asset units using the quoted rate
+        depositCost = (depositCost * expectedRedeemedAssets) / deposit.expectedTargetAssets;
+      }
+      entryCost += depositCost;
+    }
+
+    // Gas for the optimization transaction, priced in the position's asset
+    let gasUnits: bigint;
+    try {
+      gasUnits = await this.client.estimateContractGas({
+        address: this.optimizerContract as `0x`,
+        abi: YIELD_OPTIMIZER_ABI,
+        functionName: params.functionName || "optimizePositionFor",
+        args: params.optimizeArgs,
+        account: keeperWallet.account,
+      });
+    } catch (error) {
+      throw new Error(
+        `Gas estimation failed: ${error instanceof Error ? error.message : "Unknown error"}`
+      );
+    }
+    const gasPrice: bigint = await this.client.getGasPrice();
+    const gasCost = await this.convertNativeToAsset(
+      gasUnits * gasPrice,
+      currentPosition.asset
+    );
+
+    const costBenefit = this.breakEvenAnalyzer.analyze({
+      positionValue,
+      exitCost,
+      swapCost,
+      entryCost,
+      gasCost,
+      gasUnits,
+      currentAPY: params.currentAPY,
+      targetAPY: params.targetAPY,
+    });
+
+    console.log(
+      `⚖️  Cost/benefit for ${currentPosition.vault} -> ${params.deposits.map((deposit) => deposit.vault).join(", ")}:`,
+      costBenefit
+    );
+    return costBenefit;
+  }
+
+  /**
+   * Convert a native token amount (gas) into asset units using a GlueX quote
+   */
+  private async convertNativeToAsset(amountWei: bigint, asset: string): Promise<bigint> {
+    const { gasQuoteToken } = this.breakEvenAnalyzer.getConfig();
+    if (amountWei === BigInt(0) || asset.toLowerCase() === gasQuoteToken) {
+      return amountWei;
+    }
+
+    const quote = await getQuote({
+      chainID: "hyperevm",
+      inputToken: gasQuoteToken,
+      outputToken: asset,
+      userAddress: this.optimizerContract,
+      outputReceiver: this.optimizerContract,
+      inputAmount: amountWei.toString(),
+    });
+
+    if (!quote.success || !quote.data?.result?.outputAmount) {
+      throw new Error("Unable to price gas cost in position asset");
+    }
+
+    return BigInt(quote.data.result.outputAmount);
+  }
+
+  /**
+   * Value shares of an ERC-4626 vault in its underlying asset
+   * Returns null if the vault call fails
+   */
+  private async convertToAssets(vault: string, shares: bigint): Promise<bigint | null> {
+    try {
+      const assets = await this.client.readContract({
+        address: vault as `0x`,
+        abi: ERC4626_ABI,
+        functionName: "convertToAssets",
+        args: [shares],
+      });
+      return assets as bigint;
+    } catch (error) {
+      console.error(`❌ Error converting shares to assets on vault ${vault}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Get a GlueX swap quote from the optimizer to itself
+   * Throws if the quote has no output amount, since slippage protection depends on it
+   */
+  private async quoteSwap(inputToken: string, outputToken: string, amount: bigint): Promise<any> {
+    const quote = await getQuote({
+      chainID: "hyperevm",
+      inputToken,
+      outputToken,
+      userAddress: this.optimizerContract as `0x`,
+      outputReceiver: this.optimizerContract as `0x`,
+      inputAmount: amount.toString(),
+    });
+
+    if (!quote.success || !quote.data?.result) {
+      throw new Error("Failed to get swap quote");
+    }
+
+    if (!quote.data.result.outputAmount) {
+      throw new Error(
+        "Swap quote did not include an output amount; refusing to submit without slippage protection"
+      );
+    }
+
+    return quote.data.result;
+  }
+
+  /**
+   * Simulate depositing assets into an ERC-4626 vault
+   * Returns null if the vault preview is unavailable
+   */
+  private async previewDeposit(vault: string, assets: bigint): Promise<bigint | null> {
+    try {
+      const shares = await this.client.readContract({
+        address: vault as `0x`,
+        abi: ERC4626_ABI,
+        functionName: "previewDeposit",
+        args: [assets],
+      });
+      return shares as bigint;
+    } catch (error) {
+      console.error(`❌ Error previewing deposit on vault ${vault}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Sum protocol fees emitted by the optimizer contract in a transaction receipt
+   */
+  private getFeeChargedFromLogs(logs: any[]): bigint {
+    let feeCharged = BigInt(0);
+
+    for (const log of logs) {
+      if (log.address?.toLowerCase() !== this.optimizerContract.toLowerCase()) {
+        continue;
+      }
+
+      try {
+        const decoded = decodeEventLog({
+          abi: YIELD_OPTIMIZER_ABI,
+          data: log.data,
+          topics: log.topics,
+        });
+        if (decoded.eventName === "FeeCharged") {
+          feeCharged += decoded.args.feeAssets;
         }
+      } catch {
+        // Not an event from our ABI
       }
+    }
 
-      console.log(
-        `✅ Optimization check complete: ${optimizedCount} optimized, ${skippedCount} skipped`
+    return feeCharged;
+  }
+
+  /**
+   * Reduce an expected amount by a slippage tolerance in basis points
+   */
+  private applySlippage(amount: bigint, toleranceBps: number): bigint {
+    return (amount * BigInt(10_000 - toleranceBps)) / BigInt(10_000);
+  }
+
+  /**
+   * Get the id of the optimize-all job currently running in this process
+   */
+  getActiveJobId(): string | null {
+    return this.activeJobId;
+  }
+
+  /**
+   * Start an optimize-all run as a tracked job in the background
+   * Returns null without starting anything if a run is already in progress,
+   * so two runs can never race on the keeper nonce
+   */
+  async startOptimizationJob(
+    trigger: "manual" | "scheduled"
+  ): Promise<IOptimizationJob | null> {
+    if (this.activeJobId || this.jobStarting) {
+      return null;
+    }
+
+    this.jobStarting = true;
+    let job: IOptimizationJob;
+    try {
+      job = await this.dbService.createOptimizationJob(trigger);
+    } finally {
+      this.jobStarting = false;
+    }
+
+    const jobId = String(job._id);
+    this.activeJobId = jobId;
+
+    this.runOptimizationJob(jobId)
+      .catch((error) => {
+        console.error(`❌ Optimization job ${jobId} failed:`, error);
+      })
+      .finally(() => {
+        this.activeJobId = null;
+      });
+
+    return job;
+  }
+
+  /**
+   * Run optimize-all and record progress on the job document
+   */
+  private async runOptimizationJob(jobId: string): Promise<void> {
+    try {
+      await this.optimizeAllPositions(
+        {},
+        {
+          onStart: async (totalPositions) => {
+            await this.dbService.updateOptimizationJob(jobId, { totalPositions });
+          },
+          onResult: async (result) => {
+            const outcome = result.success
+              ? "optimized"
+              : result.failed
+                ? "failed"
+                : "skipped";
+            await this.dbService.addOptimizationJobResult(jobId, result, outcome);
+          },
+        }
       );
+
+      await this.dbService.updateOptimizationJob(jobId, {
+        status: "completed",
+        completedAt: new Date(),
+      });
     } catch (error) {
-      console.error("❌ Error in optimizeAllPositions:", error);
+      await this.dbService.updateOptimizationJob(jobId, {
+        status: "failed",
+        error: error instanceof Error ? error.message : "Unknown error",
+        completedAt: new Date(),
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Optimize all positions for all users
+   * In dry-run mode every position is simulated and nothing is sent
+   */
+  async optimizeAllPositions(
+    options: OptimizeOptions = {},
+    progress: {
+      onStart?: (totalPositions: number) => Promise<void>;
+      onResult?: (result: OptimizationResult) => Promise<void>;
+    } = {}
+  ): Promise<OptimizationResult[]> {
+    const results: OptimizationResult[] = [];
+
+    console.log(
+      `🔍 Checking all positions for optimization opportunities${options.dryRun ? " (dry run)" : ""}...`
+    );
+
+    // Users are discovered by the position indexer
+    const users = await this.dbService.getUsersWithYieldPositions();
+
+    let activePositions: UserPosition[] = [];
+    for (const userAddress of users) {
+      const positions = await this.getUserPositions(userAddress);
+      activePositions.push(...positions.filter((position) => position.active));
+    }
+
+    const { maxPositionsPerRun } = this.schedulerSettings;
+    if (maxPositionsPerRun > 0 && activePositions.length > maxPositionsPerRun) {
+      console.log(
+        `⚠️  Limiting run to ${maxPositionsPerRun} of ${activePositions.length} positions`
+      );
+      activePositions = activePositions.slice(0, maxPositionsPerRun);
     }
+
+    if (progress.onStart) {
+      await progress.onStart(activePositions.length);
+    }
+
+    let optimizedCount = 0;
+    let skippedCount = 0;
+    let failedCount = 0;
+
+    for (const position of activePositions) {
+      const result = await this.optimizePosition(position.positionId, options);
+      results.push(result);
+
+      if (progress.onResult) {
+        await progress.onResult(result);
+      }
+
+      if (result.success) {
+        optimizedCount++;
+        // Small delay between optimizations
+        if (!options.dryRun) {
+          await new Promise((resolve) => setTimeout(resolve, 2000));
+        }
+      } else if (result.failed) {
+        failedCount++;
+      } else {
+        skippedCount++;
+      }
+    }
+
+    console.log(
+      `✅ Optimization check complete${options.dryRun ? " (dry run)" : ""}: ${optimizedCount} ${options.dryRun ? "would be optimized" : "optimized"}, ${skippedCount} skipped, ${failedCount} failed`
+    );
+
+    return results;
   }
 
   /**
@@ -420,10 +1852,7 @@ export class YieldOptimizationService {
     highestAPY: number;
     timestamp: number;
   }> {
-    const opportunities = await this.yieldsService.getYieldOpportunities(
-      [...GLUEX_VAULTS],
-      "hyperevm"
-    );
+    const opportunities = await this.yieldOracle.getYieldOpportunities(GLUEX_VAULTS);
 
     const averageAPY =
       opportunities.length > 0
@@ -454,7 +1883,7 @@ export class YieldOptimizationService {
    * Set optimization threshold (minimum APY difference to trigger reallocation)
    */
   setOptimizationThreshold(threshold: number): void {
-    this.optimizationThreshold = threshold;
+    this.schedulerSettings.optimizationThreshold = threshold;
     console.log(`📊 Optimization threshold set to ${threshold}%`);
   }
 }
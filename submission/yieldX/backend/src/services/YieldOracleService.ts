@@ -0,0 +1,281 @@
+import { DatabaseService } from "./DatabaseService";
+import { GlueXYieldsService, YieldOpportunity } from "./GlueXYieldsService";
+import { getYieldOracleConfig, YieldOracleConfig } from "../config/oracle";
+import { GLUEX_VAULTS } from "../config/vaults";
+import { IAPYSnapshot } from "../models/APYSnapshot";
+import * as cron from "node-cron";
+
+export interface APYHistoryPoint {
+  timestamp: number;
+  apy: number;
+  minAPY: number;
+  maxAPY: number;
+  apr: number;
+  samples: number;
+}
+
+interface CacheEntry {
+  opportunity: YieldOpportunity | null;
+  expiresAt: number;
+}
+
+// How long a stale snapshot is served before GlueX is asked again
+const STALE_RETRY_MS = 60 * 1000;
+
+const RESOLUTION_UNITS_MS: Record<string, number> = {
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Parse a resolution like "15m", "1h" or "1d" into milliseconds ("raw" returns null)
+ */
+export const parseResolution = (resolution: string): number | null => {
+  if (resolution === "raw") {
+    return null;
+  }
+
+  const match = /^(\d+)([mhd])$/.exec(resolution);
+  if (!match || Number(match[1]) === 0) {
+    throw new Error(`Invalid resolution "${resolution}" (use raw, or e.g. 15m, 1h, 1d)`);
+  }
+
+  return Number(match[1]) * RESOLUTION_UNITS_MS[match[2]];
+};
+
+/**
+ * Yield Oracle Service
+ * Serves vault APYs through a TTL cache backed by a local APY snapshot collection.
+ * Concurrent lookups for the same vault share a single GlueX request.
+ */
+export class YieldOracleService {
+  private yieldsService: GlueXYieldsService;
+  private dbService: DatabaseService;
+  private config: YieldOracleConfig;
+  private cache: Map<string, CacheEntry> = new Map();
+  private inFlight: Map<string, Promise<YieldOpportunity | null>> = new Map();
+  private collectorJob: cron.ScheduledTask | null = null;
+
+  constructor(config: YieldOracleConfig = getYieldOracleConfig()) {
+    this.yieldsService = new GlueXYieldsService();
+    this.dbService = DatabaseService.getInstance();
+    this.config = config;
+
+    console.log("🔮 Yield Oracle Service initialized");
+  }
+
+  /**
+   * Start the scheduled APY snapshot collector
+   */
+  startCollector(): void {
+    if (this.collectorJob) {
+      console.log("⚠️  APY collector is already running");
+      return;
+    }
+
+    if (!cron.validate(this.config.collectorCron)) {
+      throw new Error(`Invalid APY collector cron expression: ${this.config.collectorCron}`);
+    }
+
+    this.collectorJob = cron.schedule(this.config.collectorCron, async () => {
+      await this.collectSnapshots();
+    });
+
+    console.log(`✅ APY collector started (${this.config.collectorCron})`);
+  }
+
+  /**
+   * Stop the scheduled APY snapshot collector
+   */
+  stopCollector(): void {
+    if (this.collectorJob) {
+      this.collectorJob.stop();
+      this.collectorJob = null;
+    }
+    console.log("🛑 APY collector stopped");
+  }
+
+  /**
+   * Fetch fresh APYs for all GlueX vaults, store them as snapshots and refresh the cache
+   */
+  async collectSnapshots(vaults: readonly string[] = GLUEX_VAULTS): Promise<void> {
+    try {
+      console.log(`⏰ Collecting APY snapshots for ${vaults.length} vaults...`);
+
+      const results = await Promise.all(
+        vaults.map((vault) => this.fetchAndCache(vault))
+      );
+      const opportunities = results.filter(
+        (opp): opp is YieldOpportunity => opp !== null
+      );
+
+      await this.dbService.saveAPYSnapshots(
+        opportunities.map((opp) => ({
+          vault: opp.vault,
+          asset: opp.asset,
+          apy: opp.apy,
+          apr: opp.apr,
+          tvl: opp.tvl,
+          timestamp: new Date(opp.timestamp),
+        }))
+      );
+    } catch (error) {
+      console.error("❌ Error collecting APY snapshots:", error);
+    }
+  }
+
+  /**
+   * Get yield opportunities for vaults, sorted by APY (highest first)
+   * Reads through the cache, then the latest stored snapshot, then the GlueX API
+   */
+  async getYieldOpportunities(vaults: readonly string[]): Promise<YieldOpportunity[]> {
+    const results = await Promise.all(vaults.map((vault) => this.getVaultYield(vault)));
+
+    return results
+      .filter((opp): opp is YieldOpportunity => opp !== null)
+      .sort((a, b) => b.apy - a.apy);
+  }
+
+  /**
+   * Get the current yield for a single vault (null if no APY data is available)
+   */
+  async getVaultYield(vault: string): Promise<YieldOpportunity | null> {
+    const key = vault.toLowerCase();
+
+    const cached = this.cache.get(key);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.opportunity;
+    }
+
+    const pending = this.inFlight.get(key);
+    if (pending) {
+      return pending;
+    }
+
+    const lookup = this.lookupVaultYield(key).finally(() => {
+      this.inFlight.delete(key);
+    });
+    this.inFlight.set(key, lookup);
+    return lookup;
+  }
+
+  /**
+   * Get bucketed APY history for a vault from the local snapshot store
+   */
+  async getVaultHistory(
+    vault: string,
+    from: Date,
+    to: Date,
+    resolution: string = "1h"
+  ): Promise<APYHistoryPoint[]> {
+    const bucketMs = parseResolution(resolution);
+    const snapshots = await this.dbService.getAPYSnapshots(vault, from, to);
+
+    if (bucketMs === null) {
+      return snapshots.map((snapshot) => ({
+        timestamp: snapshot.timestamp.getTime(),
+        apy: snapshot.apy,
+        minAPY: snapshot.apy,
+        maxAPY: snapshot.apy,
+        apr: snapshot.apr,
+        samples: 1,
+      }));
+    }
+
+    const buckets = new Map<number, { apy: number[]; apr: number[] }>();
+    for (const snapshot of snapshots) {
+      const bucket = Math.floor(snapshot.timestamp.getTime() / bucketMs) * bucketMs;
+      const entry = buckets.get(bucket) || { apy: [], apr: [] };
+      entry.apy.push(snapshot.apy);
+      entry.apr.push(snapshot.apr);
+      buckets.set(bucket, entry);
+    }
+
+    return Array.from(buckets.entries()).map(([timestamp, entry]) => ({
+      timestamp,
+      apy: entry.apy.reduce((sum, apy) => sum + apy, 0) / entry.apy.length,
+      minAPY: Math.min(...entry.apy),
+      maxAPY: Math.max(...entry.apy),
+      apr: entry.apr.reduce((sum, apr) => sum + apr, 0) / entry.apr.length,
+      samples: entry.apy.length,
+    }));
+  }
+
+  /**
+   * Serve from the latest snapshot if it is fresh enough, otherwise call the GlueX API
+   */
+  private async lookupVaultYield(vault: string): Promise<YieldOpportunity | null> {
+    const snapshot = await this.dbService.getLatestAPYSnapshot(vault);
+    if (snapshot && Date.now() - snapshot.timestamp.getTime() < this.config.cacheTtlMs) {
+      const opportunity = await this.fromSnapshot(vault, snapshot);
+      this.cache.set(vault, {
+        opportunity,
+        expiresAt: snapshot.timestamp.getTime() + this.config.cacheTtlMs,
+      });
+      return opportunity;
+    }
+
+    const opportunity = await this.fetchAndCache(vault);
+
+    // Fall back to the last known snapshot when GlueX is slow or unavailable
+    if (!opportunity && snapshot) {
+      console.log(`⚠️  Using stale APY snapshot for vault ${vault}`);
+      const stale = await this.fromSnapshot(vault, snapshot);
+      this.cache.set(vault, {
+        opportunity: stale,
+        expiresAt: Date.now() + Math.min(STALE_RETRY_MS, this.config.cacheTtlMs),
+      });
+      return stale;
+    }
+
+    return opportunity;
+  }
+
+  /**
+   * Build an opportunity from a stored snapshot, with the snapshots of the lookback
+   * window as its APY history so it is scored for stability like a live GlueX result
+   */
+  private async fromSnapshot(vault: string, snapshot: IAPYSnapshot): Promise<YieldOpportunity> {
+    const now = Date.now();
+    let apyHistory: number[] = [];
+    try {
+      const history = await this.dbService.getAPYSnapshots(
+        vault,
+        new Date(now - this.config.historyLookbackMs),
+        new Date(now)
+      );
+      apyHistory = history.map((point) => point.apy);
+    } catch {
+      // Already logged; scored as having no history
+    }
+
+    return {
+      vault,
+      asset: snapshot.asset,
+      apy: snapshot.apy,
+      apr: snapshot.apr,
+      tvl: snapshot.tvl,
+      apyHistory,
+      timestamp: snapshot.timestamp.getTime(),
+    };
+  }
+
+  /**
+   * Fetch a vault's APY from the GlueX Yields API and cache the result
+   * A failed lookup is not cached, so the next call retries or falls back to a snapshot.
+   */
+  private async fetchAndCache(vault: string): Promise<YieldOpportunity | null> {
+    const opportunities = await this.yieldsService.getYieldOpportunities([vault], "hyperevm");
+    const opportunity = opportunities.length > 0 ? opportunities[0] : null;
+
+    if (opportunity) {
+      this.cache.set(vault.toLowerCase(), {
+        opportunity,
+        expiresAt: Date.now() + this.config.cacheTtlMs,
+      });
+    }
+
+    return opportunity;
+  }
+}
@@ -0,0 +1,231 @@
+import { DatabaseService } from "./DatabaseService";
+import { createPublicClient, http, parseAbi } from "viem";
+import { hyperevmMainnet } from "../config/chains";
+import { getIndexerConfig, IndexerConfig } from "../config/indexer";
+
+const CHECKPOINT_NAME = "yield-position-indexer";
+
+// YieldOptimizer position events and views, plus receipt transfers (minimal interface)
+const POSITION_EVENTS_ABI = parseAbi([
+  "event PositionOpened(address indexed user, address indexed vault, address indexed asset, uint256 assetsDeposited, uint256 sharesReceived, uint256 positionId)",
+  "event PositionClosed(address indexed user, address indexed vault, uint256 sharesRedeemed, uint256 assetsReceived, uint256 positionId)",
+  "event PositionOptimized(address indexed user, address indexed fromVault, address indexed toVault, uint256 assetsReallocated, uint256 newShares, uint256 positionId, uint256 newPositionId)",
+  "event PositionsMerged(address indexed owner, uint256 indexed positionId, uint256 indexed mergedPositionId)",
+  "event Transfer(address indexed from, address indexed to, uint256 indexed tokenId)",
+  "function receipts() external view returns (address)",
+  "function positions(uint256 positionId) external view returns (address vault, address asset, uint256 shares, uint256 assets, uint256 costBasis, bool active)",
+  "function ownerOf(uint256 tokenId) external view returns (address)",
+]);
+
+// Event arguments that carry a position ID (receipt Transfer events carry it as tokenId)
+const POSITION_ID_ARGS = ["positionId", "newPositionId", "mergedPositionId", "tokenId"] as const;
+
+/**
+ * Yield Position Indexer
+ * Follows position logs from YieldOptimizer and receipt transfers from its ERC-721 receipt
+ * contract, and keeps YieldPosition in sync per position ID with the receipt holder as owner.
+ * Only blocks with enough confirmations are processed, so reorged logs are never indexed.
+ */
+export class YieldPositionIndexer {
+  private dbService: DatabaseService;
+  private client: any;
+  private optimizerContract: string;
+  private config: IndexerConfig;
+  private pollTimer: NodeJS.Timeout | null = null;
+  private isRunning: boolean = false;
+  private lastProcessedBlock: bigint | null = null;
+  private receiptsContract: string | null = null;
+
+  constructor(optimizerContractAddress: string, config: IndexerConfig = getIndexerConfig()) {
+    this.dbService = DatabaseService.getInstance();
+    this.optimizerContract = optimizerContractAddress;
+    this.config = config;
+
+    // Initialize blockchain client
+    this.client = createPublicClient({
+      chain: hyperevmMainnet,
+      transport: http(
+        process.env.RPC_URL ||
+          process.env.HYPEREVM_RPC_URL ||
+          "https://rpc.hyperevm.com"
+      ),
+    });
+
+    console.log("📚 Yield Position Indexer initialized");
+  }
+
+  /**
+   * Start indexing from the checkpoint (or start block)
+   * The backfill runs in the background, so startup does not wait for it.
+   */
+  async start(): Promise<void> {
+    if (this.isRunning) {
+      console.log("⚠️  Yield position indexer is already running");
+      return;
+    }
+
+    const checkpoint = await this.dbService.getIndexerCheckpoint(CHECKPOINT_NAME);
+    if (checkpoint === null && this.config.startBlock === null) {
+      console.warn(
+        "⚠️  INDEXER_START_BLOCK is missing or invalid; backfilling positions from block 0, which can take hours. Set it to the YieldOptimizer deployment block."
+      );
+    }
+    this.lastProcessedBlock =
+      checkpoint !== null ? checkpoint : (this.config.startBlock ?? BigInt(0)) - BigInt(1);
+    this.isRunning = true;
+
+    console.log(
+      `✅ Yield position indexer started from block ${this.lastProcessedBlock + BigInt(1)} (${this.config.confirmations} confirmations)`
+    );
+
+    this.pollTimer = setTimeout(() => this.poll(), 0);
+  }
+
+  /**
+   * Stop indexing
+   */
+  stop(): void {
+    if (this.pollTimer) {
+      clearTimeout(this.pollTimer);
+      this.pollTimer = null;
+    }
+    this.isRunning = false;
+    console.log("🛑 Yield position indexer stopped");
+  }
+
+  /**
+   * Get indexer status
+   */
+  getStatus(): {
+    running: boolean;
+    lastProcessedBlock: string | null;
+    confirmations: number;
+  } {
+    return {
+      running: this.isRunning,
+      lastProcessedBlock:
+        this.lastProcessedBlock !== null ? this.lastProcessedBlock.toString() : null,
+      confirmations: this.config.confirmations,
+    };
+  }
+
+  /**
+   * Process all confirmed blocks, then schedule the next poll
+   */
+  private async poll(): Promise<void> {
+    try {
+      await this.syncToConfirmedHead();
+    } catch (error) {
+      console.error("❌ Error in yield position indexer:", error);
+    }
+
+    if (this.isRunning) {
+      this.pollTimer = setTimeout(() => this.poll(), this.config.pollIntervalMs);
+    }
+  }
+
+  /**
+   * Index every block up to head - confirmations in batches
+   */
+  async syncToConfirmedHead(): Promise<void> {
+    if (this.lastProcessedBlock === null) {
+      throw new Error("Indexer has not been started");
+    }
+
+    // Resolved here rather than in start() so an RPC error is retried on the next poll
+    if (!this.receiptsContract) {
+      this.receiptsContract = await this.client.readContract({
+        address: this.optimizerContract as `0x`,
+        abi: POSITION_EVENTS_ABI,
+        functionName: "receipts",
+      });
+    }
+
+    const head: bigint = await this.client.getBlockNumber();
+    const confirmedHead = head - BigInt(this.config.confirmations);
+    let processedBlock: bigint = this.lastProcessedBlock;
+
+    while (processedBlock < confirmedHead) {
+      const fromBlock = processedBlock + BigInt(1);
+      const batchEnd = fromBlock + BigInt(this.config.blockBatchSize - 1);
+      const toBlock = batchEnd < confirmedHead ? batchEnd : confirmedHead;
+
+      await this.processBlockRange(fromBlock, toBlock);
+
+      await this.dbService.saveIndexerCheckpoint(CHECKPOINT_NAME, toBlock);
+      processedBlock = toBlock;
+      this.lastProcessedBlock = toBlock;
+    }
+  }
+
+  /**
+   * Fetch position and receipt logs in a block range and refresh every affected position
+   */
+  private async processBlockRange(fromBlock: bigint, toBlock: bigint): Promise<void> {
+    const logs = await this.client.getLogs({
+      address: [this.optimizerContract as `0x`, this.receiptsContract as `0x`],
+      events: POSITION_EVENTS_ABI.filter((item) => item.type === "event"),
+      fromBlock,
+      toBlock,
+    });
+
+    if (logs.length === 0) {
+      return;
+    }
+
+    const positionIds = new Set<bigint>();
+    for (const log of logs) {
+      for (const arg of POSITION_ID_ARGS) {
+        if (log.args?.[arg] !== undefined) {
+          positionIds.add(log.args[arg] as bigint);
+        }
+      }
+    }
+
+    console.log(
+      `📚 Indexed ${logs.length} position events in blocks ${fromBlock}-${toBlock} for ${positionIds.size} positions`
+    );
+
+    for (const positionId of positionIds) {
+      await this.syncPosition(positionId);
+    }
+  }
+
+  /**
+   * Upsert a position and its receipt holder from the current contract state
+   * Several events can touch a position in one range, so the contract state is the source of truth.
+   * It is read at the latest block, as historical reads need an archive node; a later change
+   * is picked up again once its own event is confirmed.
+   */
+  private async syncPosition(positionId: bigint): Promise<void> {
+    const [vault, asset, shares, assets, , active] = await this.client.readContract({
+      address: this.optimizerContract as `0x`,
+      abi: POSITION_EVENTS_ABI,
+      functionName: "positions",
+      args: [positionId],
+    });
+
+    // Closed and merged positions are deleted on-chain and their receipts burned
+    if (!active) {
+      await this.dbService.closeYieldPosition(Number(positionId));
+      return;
+    }
+
+    const owner = await this.client.readContract({
+      address: this.receiptsContract as `0x`,
+      abi: POSITION_EVENTS_ABI,
+      functionName: "ownerOf",
+      args: [positionId],
+    });
+
+    await this.dbService.saveYieldPosition({
+      positionId: Number(positionId),
+      userAddress: owner,
+      vault,
+      asset,
+      shares: shares.toString(),
+      assets: assets.toString(),
+      active,
+    });
+  }
+}
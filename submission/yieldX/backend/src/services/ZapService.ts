@@ -0,0 +1,473 @@
+import {
+  ContractFunctionResult,
+  createPublicClient,
+  encodeFunctionData,
+  http,
+  InferFunctionName,
+  parseAbi,
+  PublicClient,
+} from "viem";
+import { hyperevmMainnet } from "../config/chains";
+import { getSlippageToleranceBps } from "../config/slippage";
+import { getQuote } from "./GlueXservice";
+import { RouterPolicyService } from "./RouterPolicyService";
+import { ExposureCheck, ExposureService } from "./ExposureService";
+
+const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+const BPS = BigInt(10_000);
+
+// YieldOptimizer ABI for zap deposits and withdrawals (minimal interface)
+const ZAP_OPTIMIZER_ABI = parseAbi([
+  "function depositWithSwap(address inputToken, uint256 inputAmount, (address[] routers, bytes[] calldatas, address[] inputTokens, address[] outputTokens, uint256[] inputAmounts, uint256[] minOutputAmounts, address targetVault, uint256 minSharesOut, uint256 shares) params) external payable returns (uint256)",
+  "function withdrawWithSwap(uint256 positionId, uint256 shares, address outputToken, uint256 minAmountOut, (address[] routers, bytes[] calldatas, address[] inputTokens, address[] outputTokens, uint256[] inputAmounts, uint256[] minOutputAmounts, address targetVault, uint256 minSharesOut, uint256 shares) params) external returns (uint256)",
+  "function whitelistedVaults(address) external view returns (bool)",
+  "function whitelistedRouters(address) external view returns (bool)",
+  "function wrappedNative() external view returns (address)",
+  "function getPositionValues(address) external view returns ((uint256 id, address vault, address asset, uint256 shares, uint256 costBasis, uint256 currentAssets, uint256 accruedYield, uint256 maxWithdraw, bool active)[])",
+  "function protocolFeeBps() external view returns (uint256)",
+]);
+
+const ERC4626_ABI = parseAbi([
+  "function asset() external view returns (address)",
+  "function previewDeposit(uint256 assets) external view returns (uint256)",
+]);
+
+const ERC20_ABI = parseAbi([
+  "function allowance(address owner, address spender) external view returns (uint256)",
+  "function approve(address spender, uint256 amount) external returns (bool)",
+]);
+
+export interface UnsignedTransaction {
+  to: string;
+  data: string;
+  value: string; // Native HYPE to send, in wei
+}
+
+export interface ZapSwap {
+  router: string;
+  inputToken: string;
+  outputToken: string;
+  inputAmount: string;
+  expectedOutput: string;
+  minOutput: string;
+}
+
+export interface ZapDepositResult {
+  success: boolean;
+  userAddress: string;
+  vault: string;
+  asset?: string; // Vault asset the deposit is swapped into
+  inputToken: string; // Zero address for native HYPE
+  inputAmount: string;
+  swap?: ZapSwap; // Absent when the input already is the vault asset
+  expectedAssets?: string;
+  expectedShares?: string;
+  minSharesOut?: string;
+  slippageToleranceBps?: number;
+  exposure?: ExposureCheck; // Exposure limits checked for the deposit
+  approval?: UnsignedTransaction; // Must be sent first when the allowance is too low
+  transaction?: UnsignedTransaction;
+  error?: string;
+}
+
+export interface ZapWithdrawPreview {
+  success: boolean;
+  userAddress: string;
+  positionId: number;
+  vault?: string;
+  asset?: string; // Position asset that is redeemed and swapped
+  shares: string; // Shares to redeem
+  outputToken: string; // Zero address for native HYPE
+  expectedAssets?: string; // Redeemed assets after vault fees, liquidity and the performance fee
+  protocolFee?: string; // Estimated performance fee in position asset units
+  swap?: ZapSwap; // Absent when the output already is the position asset (or WHYPE for native)
+  expectedOutput?: string;
+  minAmountOut?: string; // `_minAmountOut` to pass to withdrawWithSwap
+  slippageToleranceBps?: number;
+  transaction?: UnsignedTransaction;
+  error?: string;
+}
+
+/**
+ * Zap Service
+ * Builds unsigned depositWithSwap and withdrawWithSwap transactions so users can enter a
+ * vault with any token or native HYPE and exit into a token of their choice: quotes the swap
+ * through GlueX, derives slippage bounds and leaves signing and sending to the user's wallet. Native HYPE is wrapped and unwrapped by the contract, so it is quoted as
+ * the wrapped token.
+ */
+export class ZapService {
+  private client: PublicClient;
+  private optimizerContract: string;
+  private routerPolicy: RouterPolicyService;
+  private exposureService: ExposureService;
+  private wrappedNative: string | null = null;
+
+  constructor(
+    optimizerContractAddress: string,
+    routerPolicy: RouterPolicyService,
+    exposureService: ExposureService
+  ) {
+    this.optimizerContract = optimizerContractAddress;
+    this.routerPolicy = routerPolicy;
+    this.exposureService = exposureService;
+
+    // Initialize blockchain client
+    this.client = createPublicClient({
+      chain: hyperevmMainnet,
+      transport: http(
+        process.env.RPC_URL ||
+          process.env.HYPEREVM_RPC_URL ||
+          "https://rpc.hyperevm.com"
+      ),
+    });
+
+    console.log("⚡ Zap Service initialized");
+  }
+
+  /**
+   * Quote a deposit of `amount` of `token` (zero address for native HYPE) into `vault`
+   * and build the transaction the user signs
+   */
+  async buildDeposit(params: {
+    userAddress: string;
+    token: string;
+    amount: bigint;
+    vault: string;
+  }): Promise<ZapDepositResult> {
+    const native = params.token.toLowerCase() === ZERO_ADDRESS;
+    const result: ZapDepositResult = {
+      success: false,
+      userAddress: params.userAddress,
+      vault: params.vault,
+      inputToken: native ? ZERO_ADDRESS : params.token,
+      inputAmount: params.amount.toString(),
+    };
+
+    const whitelisted = await this.readOptimizer("whitelistedVaults", [params.vault]);
+    if (!whitelisted) {
+      return { ...result, error: `Vault ${params.vault} is not whitelisted` };
+    }
+
+    const asset = (await this.client.readContract({
+      address: params.vault as `0x`,
+      abi: ERC4626_ABI,
+      functionName: "asset",
+    })) as string;
+    result.asset = asset;
+
+    // The contract swaps native HYPE as its wrapped token
+    const swapInput = native ? await this.getWrappedNative() : params.token;
+    const slippageToleranceBps = getSlippageToleranceBps(asset);
+    result.slippageToleranceBps = slippageToleranceBps;
+
+    let expectedAssets = params.amount;
+    let minAssets = params.amount; // Assets deposited if the swap fills at its minimum
+    const swapParams = {
+      routers: [] as `0x${string}`[],
+      calldatas: [] as `0x${string}`[],
+      inputTokens: [] as `0x${string}`[],
+      outputTokens: [] as `0x${string}`[],
+      inputAmounts: [] as bigint[],
+      minOutputAmounts: [] as bigint[],
+    };
+
+    if (swapInput.toLowerCase() !== asset.toLowerCase()) {
+      // The optimizer runs the swap, so it is both the quote's user and receiver
+      const quote = await this.quoteRoute(swapInput, asset, params.amount, this.optimizerContract);
+      if ("error" in quote) {
+        return { ...result, error: quote.error };
+      }
+
+      expectedAssets = BigInt(quote.swap.expectedOutput);
+      const minOutput = this.applySlippage(expectedAssets, slippageToleranceBps);
+      quote.swap.minOutput = minOutput.toString();
+      minAssets = minOutput;
+
+      swapParams.routers = [quote.swap.router as `0x${string}`];
+      swapParams.calldatas = [quote.calldata];
+      swapParams.inputTokens = [swapInput as `0x${string}`];
+      swapParams.outputTokens = [asset as `0x${string}`];
+      swapParams.inputAmounts = [params.amount];
+      swapParams.minOutputAmounts = [minOutput];
+      result.swap = quote.swap;
+    }
+    result.expectedAssets = expectedAssets.toString();
+
+    // A zap is a new deposit, so it is held to the same exposure limits as reallocations
+    const exposure = await this.exposureService.checkAllocation({
+      vault: params.vault,
+      amount: expectedAssets,
+    });
+    result.exposure = exposure;
+    if (!exposure.allowed) {
+      const breached = exposure.rules.filter((rule) => !rule.passed).map((rule) => rule.rule);
+      return {
+        ...result,
+        error: `Deposit into ${params.vault} would breach exposure limits: ${breached.join(", ")}`,
+      };
+    }
+
+    const expectedShares = (await this.client.readContract({
+      address: params.vault as `0x`,
+      abi: ERC4626_ABI,
+      functionName: "previewDeposit",
+      args: [expectedAssets],
+    })) as bigint;
+    if (expectedShares === BigInt(0)) {
+      return { ...result, error: `Vault ${params.vault} would mint no shares for this deposit` };
+    }
+    // After a swap the slippage is already in its minimum output; bounding the shares again
+    // would make a swap that fills at that minimum revert
+    const minSharesOut =
+      minAssets === expectedAssets
+        ? this.applySlippage(expectedShares, slippageToleranceBps)
+        : ((await this.client.readContract({
+            address: params.vault as `0x`,
+            abi: ERC4626_ABI,
+            functionName: "previewDeposit",
+            args: [minAssets],
+          })) as bigint);
+    result.expectedShares = expectedShares.toString();
+    result.minSharesOut = minSharesOut.toString();
+
+    result.transaction = {
+      to: this.optimizerContract,
+      data: encodeFunctionData({
+        abi: ZAP_OPTIMIZER_ABI,
+        functionName: "depositWithSwap",
+        args: [
+          (native ? ZERO_ADDRESS : params.token) as `0x`,
+          params.amount,
+          {
+            ...swapParams,
+            targetVault: params.vault as `0x`,
+            minSharesOut,
+            shares: BigInt(0),
+          },
+        ],
+      }),
+      value: native ? params.amount.toString() : "0",
+    };
+
+    if (!native) {
+      const allowance = (await this.client.readContract({
+        address: params.token as `0x`,
+        abi: ERC20_ABI,
+        functionName: "allowance",
+        args: [params.userAddress as `0x`, this.optimizerContract as `0x`],
+      })) as bigint;
+      if (allowance < params.amount) {
+        result.approval = {
+          to: params.token,
+          data: encodeFunctionData({
+            abi: ERC20_ABI,
+            functionName: "approve",
+            args: [this.optimizerContract as `0x`, params.amount],
+          }),
+          value: "0",
+        };
+      }
+    }
+
+    console.log(
+      `⚡ Zap deposit for ${params.userAddress}: ${params.amount} of ${native ? "native HYPE" : params.token} into ${params.vault} (min ${minSharesOut} shares)`
+    );
+
+    return { ...result, success: true };
+  }
+
+  /**
+   * Preview redeeming `shares` of a position (all of it when omitted) and swapping the assets
+   * into `outputToken` (zero address for native HYPE), and build the withdrawWithSwap
+   * transaction the user signs
+   */
+  async previewWithdraw(params: {
+    userAddress: string;
+    positionId: number;
+    shares?: bigint;
+    outputToken: string;
+  }): Promise<ZapWithdrawPreview> {
+    const native = params.outputToken.toLowerCase() === ZERO_ADDRESS;
+    const result: ZapWithdrawPreview = {
+      success: false,
+      userAddress: params.userAddress,
+      positionId: params.positionId,
+      shares: (params.shares ?? BigInt(0)).toString(),
+      outputToken: native ? ZERO_ADDRESS : params.outputToken,
+    };
+
+    const [positions, feeBps] = await Promise.all([
+      this.readOptimizer("getPositionValues", [params.userAddress]),
+      this.readOptimizer("protocolFeeBps", []),
+    ]);
+
+    // Only positions whose receipt the user holds are listed
+    const position = positions.find((value) => value.id === BigInt(params.positionId));
+    if (!position || !position.active) {
+      return { ...result, error: `No active position ${params.positionId} for ${params.userAddress}` };
+    }
+    const shares = params.shares ?? position.shares;
+    if (shares === BigInt(0) || shares > position.shares) {
+      return { ...result, error: `Invalid shares: position holds ${position.shares}` };
+    }
+    result.vault = position.vault;
+    result.asset = position.asset;
+    result.shares = shares.toString();
+
+    // The performance fee is taken from the whole position before redeeming, so it only
+    // reduces a withdrawal that takes (nearly) everything
+    const maxWithdraw = position.maxWithdraw;
+    const protocolFee = (position.accruedYield * feeBps) / BPS;
+    const afterFee = maxWithdraw > protocolFee ? maxWithdraw - protocolFee : BigInt(0);
+    const proRata = (maxWithdraw * shares) / position.shares;
+    const expectedAssets = proRata < afterFee ? proRata : afterFee;
+    result.protocolFee = protocolFee.toString();
+    result.expectedAssets = expectedAssets.toString();
+    if (expectedAssets === BigInt(0)) {
+      return { ...result, error: "Nothing can be withdrawn from this position right now" };
+    }
+
+    const outputToken = native ? await this.getWrappedNative() : params.outputToken;
+    const slippageToleranceBps = getSlippageToleranceBps(outputToken);
+    result.slippageToleranceBps = slippageToleranceBps;
+
+    let expectedOutput = expectedAssets;
+    const swapParams = {
+      routers: [] as `0x${string}`[],
+      calldatas: [] as `0x${string}`[],
+      inputTokens: [] as `0x${string}`[],
+      outputTokens: [] as `0x${string}`[],
+      inputAmounts: [] as bigint[],
+      minOutputAmounts: [] as bigint[],
+    };
+
+    if (outputToken.toLowerCase() !== position.asset.toLowerCase()) {
+      // The optimizer runs the swap and measures its own balance, so it receives the output
+      // and forwards it to the user
+      const quote = await this.quoteRoute(position.asset, outputToken, expectedAssets, this.optimizerContract);
+      if ("error" in quote) {
+        return { ...result, error: quote.error };
+      }
+      expectedOutput = BigInt(quote.swap.expectedOutput);
+      const minOutput = this.applySlippage(expectedOutput, slippageToleranceBps);
+      quote.swap.minOutput = minOutput.toString();
+
+      swapParams.routers = [quote.swap.router as `0x${string}`];
+      swapParams.calldatas = [quote.calldata];
+      swapParams.inputTokens = [position.asset];
+      swapParams.outputTokens = [outputToken as `0x${string}`];
+      swapParams.inputAmounts = [expectedAssets];
+      swapParams.minOutputAmounts = [minOutput];
+      result.swap = quote.swap;
+    }
+
+    const minAmountOut = this.applySlippage(expectedOutput, slippageToleranceBps);
+    result.expectedOutput = expectedOutput.toString();
+    result.minAmountOut = minAmountOut.toString();
+
+    result.transaction = {
+      to: this.optimizerContract,
+      data: encodeFunctionData({
+        abi: ZAP_OPTIMIZER_ABI,
+        functionName: "withdrawWithSwap",
+        args: [
+          BigInt(params.positionId),
+          shares,
+          (native ? ZERO_ADDRESS : params.outputToken) as `0x`,
+          minAmountOut,
+          {
+            ...swapParams,
+            targetVault: ZERO_ADDRESS,
+            minSharesOut: BigInt(0),
+            shares: BigInt(0),
+          },
+        ],
+      }),
+      value: "0",
+    };
+
+    console.log(
+      `⚡ Zap withdrawal for ${params.userAddress}: ${shares} shares of position ${params.positionId} into ${native ? "native HYPE" : params.outputToken} (min ${minAmountOut})`
+    );
+
+    return { ...result, success: true };
+  }
+
+  /**
+   * Quote a single GlueX swap run by the optimizer and check its router may be used
+   * User requests never whitelist routers; the quoted one must already be approved and
+   * whitelisted on-chain.
+   */
+  private async quoteRoute(
+    inputToken: string,
+    outputToken: string,
+    amount: bigint,
+    outputReceiver: string
+  ): Promise<{ swap: ZapSwap; calldata: `0x${string}` } | { error: string }> {
+    const quote = await getQuote({
+      chainID: "hyperevm",
+      inputToken,
+      outputToken,
+      inputAmount: amount.toString(),
+      userAddress: this.optimizerContract,
+      outputReceiver,
+    });
+    if (!quote.success || !quote.data?.result?.outputAmount) {
+      return { error: `Failed to get swap quote: ${quote.error || "no output amount"}` };
+    }
+
+    const router = quote.data.result.router;
+    if (!router || !/^0x[0-9a-fA-F]{40}$/.test(router)) {
+      return { error: "Swap quote did not include a valid router address" };
+    }
+
+    const routerCheck = await this.routerPolicy.checkRouter(router);
+    if (!routerCheck.allowed) {
+      return { error: `Swap quote rejected: ${routerCheck.reason}` };
+    }
+    if (!(await this.readOptimizer("whitelistedRouters", [router]))) {
+      return { error: `Router ${router} is not whitelisted on the optimizer` };
+    }
+
+    return {
+      swap: {
+        router,
+        inputToken,
+        outputToken,
+        inputAmount: amount.toString(),
+        expectedOutput: quote.data.result.outputAmount.toString(),
+        minOutput: "0",
+      },
+      calldata: quote.data.result.calldata,
+    };
+  }
+
+  private async getWrappedNative(): Promise<string> {
+    if (!this.wrappedNative) {
+      this.wrappedNative = await this.readOptimizer("wrappedNative", []);
+    }
+    return this.wrappedNative;
+  }
+
+  private readOptimizer<TFunctionName extends InferFunctionName<typeof ZAP_OPTIMIZER_ABI>>(
+    functionName: TFunctionName,
+    args: readonly unknown[]
+  ): Promise<ContractFunctionResult<typeof ZAP_OPTIMIZER_ABI, TFunctionName>> {
+    // viem cannot resolve the arguments for a generic function name, only for a literal one
+    return this.client.readContract({
+      address: this.optimizerContract as `0x`,
+      abi: ZAP_OPTIMIZER_ABI,
+      functionName,
+      args,
+    } as Parameters<PublicClient["readContract"]>[0]) as Promise<
+      ContractFunctionResult<typeof ZAP_OPTIMIZER_ABI, TFunctionName>
+    >;
+  }
+
+  /**
+   * Reduce an expected amount by a slippage tolerance in basis points
+   */
+  private applySlippage(amount: bigint, toleranceBps: number): bigint {
+    return (amount * BigInt(10_000 - toleranceBps)) / BigInt(10_000);
+  }
+}
@@ -0,0 +1,114 @@
+import "./helpers/environment";
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { ExposureConfig } from "../src/config/exposure";
+import {
+  ExposureCheck,
+  ExposureRule,
+  ExposureService,
+  ProtocolExposure,
+  VaultExposure,
+} from "../src/services/ExposureService";
+import { YieldOracleService } from "../src/services/YieldOracleService";
+
+const VAULT_A = "0x00000000000000000000000000000000000000a1";
+const VAULT_A2 = "0x00000000000000000000000000000000000000a2";
+const VAULT_B = "0x00000000000000000000000000000000000000b1";
+const ASSET_X = "0x0000000000000000000000000000000000000011";
+const ASSET_Y = "0x0000000000000000000000000000000000000022";
+
+const config: ExposureConfig = {
+  maxVaultTvlShareBps: 2_000,
+  maxProtocolVaultShareBps: 5_000,
+  maxProtocolAssetShareBps: 8_000,
+  minProtocolTvlUsd: 100_000,
+};
+
+// One asset unit is worth $1 in every vault
+const vault = (address: string, asset: string, holdings: number): VaultExposure => ({
+  vault: address,
+  asset,
+  holdings: holdings.toString(),
+  vaultTotalAssets: "4000000",
+  depositCap: "0",
+  tvlUsd: 4_000_000,
+  valueUsd: holdings,
+  tvlShareBps: Math.round((holdings / 4_000_000) * 10_000),
+});
+
+// $1M in the protocol; asset X is already above its 80% limit at 90%
+const snapshot: ProtocolExposure = {
+  totalValueUsd: 1_000_000,
+  vaults: [
+    vault(VAULT_A, ASSET_X, 400_000),
+    vault(VAULT_A2, ASSET_X, 500_000),
+    vault(VAULT_B, ASSET_Y, 100_000),
+  ],
+  assets: [
+    { asset: ASSET_X, valueUsd: 900_000, shareBps: 9_000 },
+    { asset: ASSET_Y, valueUsd: 100_000, shareBps: 1_000 },
+  ],
+  limits: config,
+};
+
+const createService = (overrides: Partial<ExposureConfig> = {}) =>
+  new ExposureService(VAULT_A, {} as YieldOracleService, { ...config, ...overrides });
+
+const rule = (check: ExposureCheck, name: ExposureRule) =>
+  check.rules.find((result) => result.rule === name)!;
+
+describe("ExposureService.checkAllocation", () => {
+  it("allows a move within one asset while that asset is above its limit", async () => {
+    const check = await createService().checkAllocation(
+      { vault: VAULT_A, amount: BigInt(100_000), fromVault: VAULT_A2 },
+      snapshot
+    );
+
+    assert.equal(check.allowed, true);
+    assert.equal(rule(check, "protocolVaultShare").actual, "5000");
+    assert.equal(rule(check, "protocolAssetShare").actual, "9000");
+  });
+
+  it("refuses a new deposit that raises a share already above its limit", async () => {
+    const check = await createService().checkAllocation(
+      { vault: VAULT_A, amount: BigInt(100_000) },
+      snapshot
+    );
+
+    assert.equal(check.allowed, false);
+    assert.equal(rule(check, "protocolVaultShare").passed, true); // 45.45% of the larger protocol
+    assert.equal(rule(check, "protocolAssetShare").passed, false);
+    assert.equal(rule(check, "protocolAssetShare").actual, "9091");
+  });
+
+  it("refuses a move from another asset into the over-weight asset", async () => {
+    const check = await createService().checkAllocation(
+      { vault: VAULT_A, amount: BigInt(50_000), fromVault: VAULT_B },
+      snapshot
+    );
+
+    assert.equal(check.allowed, false);
+    assert.equal(rule(check, "protocolAssetShare").actual, "9500");
+  });
+
+  it("refuses a move that takes a vault above its protocol share", async () => {
+    const check = await createService().checkAllocation(
+      { vault: VAULT_A2, amount: BigInt(100_000), fromVault: VAULT_A },
+      snapshot
+    );
+
+    assert.equal(check.allowed, false);
+    assert.equal(rule(check, "protocolVaultShare").passed, false);
+    assert.equal(rule(check, "protocolVaultShare").actual, "6000");
+  });
+
+  it("does not enforce protocol shares below the minimum protocol TVL", async () => {
+    const check = await createService({ minProtocolTvlUsd: 10_000_000 }).checkAllocation(
+      { vault: VAULT_A, amount: BigInt(100_000) },
+      snapshot
+    );
+
+    assert.equal(check.allowed, true);
+    assert.match(rule(check, "protocolAssetShare").note!, /limit not enforced/);
+  });
+});
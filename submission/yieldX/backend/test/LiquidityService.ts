@@ -0,0 +1,90 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { LiquidityService } from "../src/services/LiquidityService";
+
+const OPTIMIZER = "0x0000000000000000000000000000000000000001";
+const SOURCE = "0x00000000000000000000000000000000000000a1";
+const TARGET = "0x00000000000000000000000000000000000000b1";
+const UNLIMITED = (BigInt(1) << BigInt(256)) - BigInt(1);
+
+// Vaults with the given limits that redeem shares 1:1 for assets
+const createService = (limits: { maxRedeem?: bigint; maxDeposit?: bigint }) => {
+  const service = new LiquidityService(OPTIMIZER, { bufferBps: 100, minPartialBps: 1_000 });
+  (service as any).client = {
+    readContract: async (params: { functionName: string; args: readonly bigint[] }) =>
+      params.functionName === "maxRedeem"
+        ? limits.maxRedeem ?? UNLIMITED
+        : params.functionName === "maxDeposit"
+          ? limits.maxDeposit ?? UNLIMITED
+          : params.args[0],
+  };
+  return service;
+};
+
+const check = (service: LiquidityService, allowAnyAmount?: boolean) =>
+  service.checkLiquidity({
+    sourceVault: SOURCE,
+    targetVault: TARGET,
+    positionShares: BigInt(1_000),
+    sameAsset: true,
+    allowAnyAmount,
+  });
+
+describe("LiquidityService", () => {
+  it("moves the whole position when neither vault is limited", async () => {
+    const result = await check(createService({}));
+
+    assert.equal(result.action, "full");
+    assert.equal(result.sharesToMove, "1000");
+    assert.equal(result.reason, undefined);
+  });
+
+  it("keeps the buffer below a source vault's redeem limit", async () => {
+    const result = await check(createService({ maxRedeem: BigInt(500) }));
+
+    assert.equal(result.action, "partial");
+    assert.equal(result.sharesToMove, "495");
+    assert.equal(result.expectedAssets, "495");
+  });
+
+  it("keeps the buffer below a target vault's deposit limit", async () => {
+    const result = await check(createService({ maxDeposit: BigInt(600) }));
+
+    assert.equal(result.action, "partial");
+    assert.equal(result.sharesToMove, "594");
+  });
+
+  it("skips a movable part below the minimum unless any amount is allowed", async () => {
+    const skipped = await check(createService({ maxRedeem: BigInt(50) }));
+    assert.equal(skipped.action, "skip");
+    assert.equal(skipped.sharesToMove, "0");
+    assert.match(skipped.reason!, /below the 1000 bps minimum/);
+
+    const moved = await check(createService({ maxRedeem: BigInt(50) }), true);
+    assert.equal(moved.action, "partial");
+    assert.equal(moved.sharesToMove, "49");
+  });
+
+  it("skips when nothing can be redeemed", async () => {
+    const result = await check(createService({ maxRedeem: BigInt(0) }), true);
+
+    assert.equal(result.action, "skip");
+    assert.match(result.reason!, /Nothing can be moved/);
+  });
+
+  it("shrinks a move so the swapped output fits the deposit limit", async () => {
+    const service = createService({ maxDeposit: BigInt(1_000) });
+    const planned = await service.checkLiquidity({
+      sourceVault: SOURCE,
+      targetVault: TARGET,
+      positionShares: BigInt(1_000),
+      sameAsset: false,
+    });
+    assert.equal(planned.action, "full");
+
+    // The swap doubles the assets, so only half of the position fits below the buffer
+    const fitted = await service.fitToDepositLimit(planned, SOURCE, BigInt(2_000));
+    assert.equal(fitted.action, "partial");
+    assert.equal(fitted.sharesToMove, "495");
+  });
+});
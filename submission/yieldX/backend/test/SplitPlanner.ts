@@ -0,0 +1,94 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { SplitConfig } from "../src/config/split";
+import { SplitCandidate, SplitPlanner } from "../src/services/SplitPlanner";
+
+const TOTAL = BigInt(1_000);
+const UNLIMITED = BigInt(1_000_000_000);
+
+const config: SplitConfig = { enabled: true, maxTargets: 3, minLegBps: 1_000, stepBps: 100 };
+
+const candidate = (
+  vault: string,
+  apy: number,
+  totalAssets: number,
+  capacity: bigint = UNLIMITED
+): SplitCandidate => ({
+  vault,
+  apy,
+  totalAssets: BigInt(totalAssets),
+  capacity,
+});
+
+describe("SplitPlanner.plan", () => {
+  it("drops a leg below the minimum and gives its assets to the other vaults", () => {
+    // A small vault with a high APY takes most of the position before it is diluted below
+    // the large one, which gets only a few slices
+    const candidates = [candidate("a", 10, 1_000), candidate("b", 2.7, 100_000)];
+    const params = { totalAssets: TOTAL, currentAPY: 1, candidates, allowStay: false };
+
+    const unbounded = new SplitPlanner({ ...config, minLegBps: 0 }).plan(params);
+    assert.equal(unbounded.legs.length, 2);
+    assert.ok(unbounded.legs[1].assets < BigInt(100));
+
+    const plan = new SplitPlanner(config).plan(params);
+    assert.deepEqual(
+      plan.legs.map((leg) => [leg.vault, leg.assets]),
+      [["a", TOTAL]]
+    );
+    assert.equal(plan.stayAssets, BigInt(0));
+  });
+
+  it("drops the smallest legs to stay within the maximum number of vaults", () => {
+    const candidates = [
+      candidate("a", 10, 1_000),
+      candidate("b", 10, 1_000),
+      candidate("c", 9, 1_000),
+    ];
+
+    const plan = new SplitPlanner({ ...config, maxTargets: 2 }).plan({
+      totalAssets: TOTAL,
+      currentAPY: 1,
+      candidates,
+      allowStay: false,
+    });
+
+    assert.deepEqual(plan.legs.map((leg) => leg.vault).sort(), ["a", "b"]);
+    assert.equal(plan.legs[0].assets + plan.legs[1].assets, TOTAL);
+  });
+
+  it("moves a dust remainder instead of leaving it in the current vault", () => {
+    // Staying only beats the target for the last few slices
+    const params = {
+      totalAssets: TOTAL,
+      currentAPY: 5,
+      candidates: [candidate("a", 10, 2_200)],
+      allowStay: true,
+    };
+
+    const unbounded = new SplitPlanner({ ...config, minLegBps: 0 }).plan(params);
+    assert.ok(unbounded.stayAssets > BigInt(0) && unbounded.stayAssets < BigInt(100));
+
+    const plan = new SplitPlanner(config).plan(params);
+    assert.equal(plan.stayAssets, BigInt(0));
+    assert.deepEqual(
+      plan.legs.map((leg) => [leg.vault, leg.assets]),
+      [["a", TOTAL]]
+    );
+  });
+
+  it("keeps a remainder that no vault has room for, however small", () => {
+    const plan = new SplitPlanner(config).plan({
+      totalAssets: TOTAL,
+      currentAPY: 5,
+      candidates: [candidate("a", 10, 1_000_000, BigInt(950))],
+      allowStay: true,
+    });
+
+    assert.equal(plan.stayAssets, BigInt(50));
+    assert.deepEqual(
+      plan.legs.map((leg) => [leg.vault, leg.assets]),
+      [["a", BigInt(950)]]
+    );
+  });
+});
@@ -0,0 +1,98 @@
+import { fakeDatabase } from "./helpers/environment";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { keccak256, parseTransaction } from "viem";
+import { ContractCall, TransactionManager } from "../src/services/TransactionManager";
+
+const CHAIN_NONCE = 7;
+
+const ABI = [
+  { type: "function", name: "ping", inputs: [], outputs: [], stateMutability: "nonpayable" },
+] as const;
+
+const call: ContractCall<typeof ABI, "ping"> = {
+  address: "0x1111111111111111111111111111111111111111",
+  abi: ABI,
+  functionName: "ping",
+  label: "ping",
+};
+
+// A node that answers each sendRawTransaction with the next scripted error, if any
+const createClient = (sendErrors: (Error | null)[]) => {
+  const sent: `0x${string}`[] = [];
+  let pendingNonce = CHAIN_NONCE;
+  return {
+    sent,
+    setPendingNonce: (nonce: number) => {
+      pendingNonce = nonce;
+    },
+    getTransactionCount: async () => pendingNonce,
+    estimateGas: async () => BigInt(50_000),
+    getBlock: async () => ({ baseFeePerGas: BigInt(1_000_000_000) }),
+    getGasPrice: async () => BigInt(1_000_000_000),
+    estimateMaxPriorityFeePerGas: async () => BigInt(100_000_000),
+    sendRawTransaction: async ({ serializedTransaction }: { serializedTransaction: `0x${string}` }) => {
+      sent.push(serializedTransaction);
+      const error = sendErrors.shift();
+      if (error) {
+        throw error;
+      }
+      return keccak256(serializedTransaction);
+    },
+    getTransactionReceipt: async ({ hash }: { hash: `0x${string}` }) => ({
+      status: "success",
+      transactionHash: hash,
+      to: call.address,
+      blockNumber: BigInt(1),
+      gasUsed: BigInt(21_000),
+    }),
+  };
+};
+
+const createManager = (client: ReturnType<typeof createClient>): TransactionManager => {
+  (TransactionManager as any).instance = undefined;
+  const manager = TransactionManager.getInstance();
+  (manager as any).client = client;
+  return manager;
+};
+
+describe("TransactionManager broadcast", () => {
+  beforeEach(() => {
+    fakeDatabase.getPendingKeeperTransactions = async () => [];
+    fakeDatabase.saveKeeperTransaction = async () => ({ _id: "record" });
+    fakeDatabase.updateKeeperTransaction = async () => null;
+  });
+
+  afterEach(() => {
+    (TransactionManager as any).instance = undefined;
+  });
+
+  it("keeps the nonce and hash when the node already knows the transaction", async () => {
+    const client = createClient([new Error("already known")]);
+    const manager = createManager(client);
+
+    const outcome = await manager.sendAndWait(call);
+
+    assert.equal(client.sent.length, 1);
+    assert.equal(outcome.status, "confirmed");
+    assert.equal(outcome.nonce, CHAIN_NONCE);
+    assert.equal(outcome.transactionHash, keccak256(client.sent[0]));
+    assert.equal(manager.getStatus().nextNonce, CHAIN_NONCE + 1);
+  });
+
+  it("resyncs the nonce and sends again when the nonce is too low", async () => {
+    const client = createClient([new Error("nonce too low")]);
+    const manager = createManager(client);
+    await manager.start();
+    client.setPendingNonce(CHAIN_NONCE + 2); // Two transactions sent outside the manager
+
+    const outcome = await manager.sendAndWait(call);
+
+    assert.equal(client.sent.length, 2);
+    assert.equal(parseTransaction(client.sent[0]).nonce, CHAIN_NONCE);
+    assert.equal(parseTransaction(client.sent[1]).nonce, CHAIN_NONCE + 2);
+    assert.equal(outcome.nonce, CHAIN_NONCE + 2);
+    assert.equal(outcome.transactionHash, keccak256(client.sent[1]));
+    assert.equal(manager.getStatus().nextNonce, CHAIN_NONCE + 3);
+  });
+});
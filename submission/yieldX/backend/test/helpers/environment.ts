@@ -0,0 +1,20 @@
+// Loaded before any service: a throwaway keeper key and an in-memory stand-in for MongoDB
+import path from "path";
+
+process.env.HYPEREVM_MAINNET_PRIVATE_KEY ??=
+  "0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80";
+
+// Tests replace the methods they need; anything else is not expected to be called
+export const fakeDatabase: Record<string, (...args: any[]) => any> = {};
+
+const databaseServicePath = require.resolve(path.join(__dirname, "../../src/services/DatabaseService"));
+require.cache[databaseServicePath] = {
+  id: databaseServicePath,
+  filename: databaseServicePath,
+  loaded: true,
+  exports: {
+    DatabaseService: {
+      getInstance: () => fakeDatabase,
+    },
+  },
+} as NodeModule;
@@ -2,19 +2,47 @@
 pragma solidity ^0.8.20;
 
 import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Metadata.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Permit.sol";
 import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+import "@openzeppelin/contracts/utils/Nonces.sol";
 import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
-import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/access/AccessControl.sol";
 import "@openzeppelin/contracts/interfaces/IERC4626.sol";
+import "./YieldPositionReceipt.sol";
+
+/**
+ * @notice Wrapped native token (WHYPE on HyperEVM)
+ */
+interface IWrappedNative {
+    function deposit() external payable;
+    function withdraw(uint256 amount) external;
+}
 
 /**
  * @title YieldOptimizer
  * @notice Optimizes yield by reallocating capital across whitelisted ERC-4626 vaults
- * @dev Uses ERC-4626 standard (BoringVault compatible) for custody and yield generation
+ * @dev Uses ERC-4626 standard (BoringVault compatible) for custody and yield generation.
+ *      Roles: DEFAULT_ADMIN_ROLE manages fees, treasury, unpausing and role grants;
+ *      CURATOR_ROLE manages the vault and router whitelists; GUARDIAN_ROLE can pause and
+ *      pull all funds out of a failing vault (emergency exit);
+ *      KEEPER_ROLE can only optimize positions of users who authorized it.
+ *      Whitelist, fee, deposit cap and timelock changes go through a queue/execute/cancel
+ *      timelock; pausing stays instant.
+ *      Deposits and withdrawals can also be signed by the user (EIP-712, with EIP-2612 permit
+ *      for the deposit allowance) and submitted by any relayer, so users need no gas token.
+ *      Every position has a global ID and an ERC-721 receipt (YieldPositionReceipt) with the
+ *      same token ID; the receipt holder owns the position and can transfer or merge it.
  */
-contract YieldOptimizer is ReentrancyGuard, Ownable {
+contract YieldOptimizer is ReentrancyGuard, AccessControl, EIP712, Nonces {
     using SafeERC20 for IERC20;
 
+    bytes32 public constant CURATOR_ROLE = keccak256("CURATOR_ROLE");
+    bytes32 public constant GUARDIAN_ROLE = keccak256("GUARDIAN_ROLE");
+    bytes32 public constant KEEPER_ROLE = keccak256("KEEPER_ROLE");
+
     // GlueX Vault addresses provided in requirements
     address[] public GLUEX_VAULTS;
 
@@ -22,63 +50,186 @@ contract YieldOptimizer is ReentrancyGuard, Ownable {
         address vault;          // ERC-4626 vault address
         address asset;          // Underlying asset token address
         uint256 shares;         // Vault shares owned
-        uint256 assets;         // Equivalent underlying assets
+        uint256 assets;         // Underlying assets at the last fee checkpoint
+        uint256 costBasis;      // Principal deposited, net of withdrawals
+        bool active;            // Position status
+    }
+
+    struct PositionValue {
+        uint256 id;             // Position ID (receipt token ID)
+        address vault;          // ERC-4626 vault address
+        address asset;          // Underlying asset token address
+        uint256 shares;         // Vault shares owned
+        uint256 costBasis;      // Principal deposited, net of withdrawals
+        uint256 currentAssets;  // Live value (convertToAssets, before protocol fee)
+        uint256 accruedYield;   // currentAssets above costBasis
+        uint256 maxWithdraw;    // Assets redeemable right now (after vault fees and liquidity)
         bool active;            // Position status
     }
 
+    enum GovernanceAction {
+        WhitelistVault,     // target = vault, value = 1 (enable) or 0 (disable)
+        WhitelistRouter,    // target = router, value = 1 (enable) or 0 (disable)
+        AddGlueXVault,      // target = vault
+        UpdateProtocolFee,  // value = new fee in bps
+        SetTimelockDelay,   // value = new delay in seconds
+        SetVaultDepositCap  // target = vault, value = max assets held in it (0 = no cap)
+    }
+
+    struct GovernanceOperation {
+        GovernanceAction action;
+        address target;
+        uint256 value;
+        uint256 executableAt;   // 0 = no such operation
+    }
+
+    struct EmergencyExit {
+        uint256 shares;         // Exited vault shares not yet settled to positions
+        uint256 assets;         // Underlying assets received for those shares
+    }
+
     struct OptimizeParams {
         address[] routers;      // GlueX router addresses
         bytes[] calldatas;      // Swap calldata from GlueX Router API
         address[] inputTokens;  // Tokens to swap from
         address[] outputTokens; // Tokens to swap to
         uint256[] inputAmounts; // Amounts to swap
+        uint256[] minOutputAmounts; // Minimum output per swap (slippage protection)
         address targetVault;    // Target vault to deposit to
         uint256 minSharesOut;   // Minimum shares to receive (slippage protection)
+        uint256 shares;         // Position shares to move (0 = whole position)
+    }
+
+    // EIP-712 signed requests; `nonce` must be the user's next nonce
+    struct DepositRequest {
+        address user;
+        address vault;
+        uint256 amount;
+        uint256 minSharesOut;
+        uint256 nonce;
+        uint256 deadline;       // Also the deadline of the accompanying permit
+    }
+
+    struct WithdrawRequest {
+        address user;
+        uint256 positionId;
+        uint256 shares;
+        uint256 minAssetsOut;
+        uint256 nonce;
+        uint256 deadline;
     }
 
+    bytes32 public constant DEPOSIT_TYPEHASH = keccak256(
+        "DepositRequest(address user,address vault,uint256 amount,uint256 minSharesOut,uint256 nonce,uint256 deadline)"
+    );
+    bytes32 public constant WITHDRAW_TYPEHASH = keccak256(
+        "WithdrawRequest(address user,uint256 positionId,uint256 shares,uint256 minAssetsOut,uint256 nonce,uint256 deadline)"
+    );
+
     // Storage
-    mapping(address => Position[]) public userPositions; // user => positions[]
+    mapping(uint256 => Position) public positions;       // position ID => position (deleted once closed)
     mapping(address => bool) public whitelistedVaults;   // vault => allowed
     mapping(address => bool) public whitelistedRouters;  // router => allowed
     mapping(address => address) public assetToVault;     // asset => preferred vault
+    mapping(address => mapping(address => bool)) public authorizedKeepers; // user => keeper => allowed
+    mapping(address => mapping(address => uint256)) public keeperMaxSlippageBps; // user => keeper => most a move may lose
+    mapping(address => uint256) public vaultDepositCaps; // vault => max assets held by the optimizer (0 = no cap)
+    mapping(address => EmergencyExit) public emergencyExits; // vault => assets pulled out by emergencyExit
+
+    YieldPositionReceipt public immutable receipts; // ERC-721 receipt per open position
+    uint256 public nextPositionId = 1;
 
     address public treasury;
+    address public immutable wrappedNative; // WHYPE; native HYPE deposits are wrapped into it
     uint256 public protocolFeeBps = 0; // Default 0%
     uint256 public constant MAX_FEE_BPS = 100; // Max 1%
+    uint256 public constant BPS_DENOMINATOR = 10_000;
     bool public paused;
 
+    // Governance timelock
+    uint256 public constant MAX_TIMELOCK_DELAY = 30 days;
+    uint256 public constant OPERATION_GRACE_PERIOD = 14 days; // Window to execute once ready
+    uint256 public timelockDelay;
+    mapping(bytes32 => GovernanceOperation) public governanceOperations;
+    bytes32[] private pendingOperationIds;
+    uint256 private operationNonce;
+
     // Events
     event PositionOpened(
         address indexed user,
         address indexed vault,
         address indexed asset,
         uint256 assetsDeposited,
-        uint256 sharesReceived
+        uint256 sharesReceived,
+        uint256 positionId
     );
     event PositionClosed(
         address indexed user,
         address indexed vault,
         uint256 sharesRedeemed,
-        uint256 assetsReceived
+        uint256 assetsReceived,
+        uint256 positionId
     );
     event PositionOptimized(
         address indexed user,
         address indexed fromVault,
         address indexed toVault,
         uint256 assetsReallocated,
-        uint256 newShares
+        uint256 newShares,
+        uint256 positionId,
+        uint256 newPositionId     // positionId unless only part of the position moved
+    );
+    event PositionsMerged(
+        address indexed owner,
+        uint256 indexed positionId,
+        uint256 indexed mergedPositionId
+    );
+    event FeeCharged(
+        address indexed user,
+        address indexed vault,
+        uint256 yieldEarned,
+        uint256 feeAssets
     );
+    event DustRefunded(address indexed user, address indexed token, uint256 amount);
+    event KeeperAuthorized(address indexed user, address indexed keeper, bool enabled, uint256 maxSlippageBps);
     event VaultWhitelisted(address indexed vault, bool enabled);
     event RouterWhitelisted(address indexed router, bool enabled);
     event ProtocolFeeUpdated(uint256 newFeeBps);
+    event VaultDepositCapUpdated(address indexed vault, uint256 cap);
+    event TreasuryUpdated(address indexed treasury);
+    event TimelockDelayUpdated(uint256 newDelay);
+    event OperationQueued(
+        bytes32 indexed id,
+        GovernanceAction indexed action,
+        address target,
+        uint256 value,
+        uint256 executableAt
+    );
+    event OperationExecuted(bytes32 indexed id, GovernanceAction indexed action);
+    event OperationCancelled(bytes32 indexed id, GovernanceAction indexed action);
     event Paused(bool paused);
+    event EmergencyExitExecuted(address indexed vault, uint256 sharesRedeemed, uint256 assetsReceived);
 
-    constructor(address _treasury) Ownable(msg.sender) {
+    constructor(
+        address _treasury,
+        uint256 _timelockDelay,
+        address _wrappedNative
+    ) EIP712("YieldOptimizer", "1") {
         require(_treasury != address(0), "Invalid treasury");
+        require(_timelockDelay <= MAX_TIMELOCK_DELAY, "Delay too long");
+        require(_wrappedNative != address(0), "Invalid wrapped native");
         treasury = _treasury;
+        timelockDelay = _timelockDelay;
+        wrappedNative = _wrappedNative;
+        receipts = new YieldPositionReceipt();
+
+        // The deployer starts with every role except keeper and hands them out from there
+        _grantRole(DEFAULT_ADMIN_ROLE, msg.sender);
+        _grantRole(CURATOR_ROLE, msg.sender);
+        _grantRole(GUARDIAN_ROLE, msg.sender);
 
         // Initialize GlueX vaults (using checksummed addresses)
-        // Note: Actual vault addresses will be set during deployment or via whitelistVault
+        // Note: Actual vault addresses are added after deployment via queued AddGlueXVault operations
         // Vault addresses from requirements:
         // 0xe25514992597786e07872e6c5517fe1906c0cadd
         // 0xCdc3975df9D1cf054F44ED238Edfb708880292EA
@@ -104,215 +255,1028 @@ contract YieldOptimizer is ReentrancyGuard, Ownable {
         uint256 _amount,
         uint256 _minSharesOut
     ) external payable nonReentrant returns (uint256 shares) {
-        require(!paused, "Contract paused");
-        require(whitelistedVaults[_vault], "Vault not whitelisted");
+        address asset = _depositAsset(_vault);
         require(_amount > 0, "Invalid amount");
 
-        IERC4626 vault = IERC4626(_vault);
-        address asset = vault.asset();
+        // Only the vault's ERC-20 asset is taken here; native HYPE goes through depositWithSwap
+        require(msg.value == 0, "ETH not accepted, use depositWithSwap");
 
-        // Only ERC-20 tokens are supported (ERC-4626 standard doesn't support native ETH)
-        require(msg.value == 0, "ETH not accepted, only ERC-20 tokens supported");
-        require(asset != address(0), "Native ETH not supported");
-        
-        // Transfer and approve tokens
         IERC20(asset).safeTransferFrom(msg.sender, address(this), _amount);
-        IERC20(asset).safeIncreaseAllowance(_vault, _amount);
+        return _openPosition(msg.sender, _vault, asset, _amount, _minSharesOut);
+    }
 
-        // Deposit to vault
-        shares = vault.deposit(_amount, address(this));
+    /**
+     * @notice Deposit any token, or native HYPE, into a whitelisted vault by swapping it into
+     *         the vault's asset through whitelisted GlueX routers first
+     * @dev `_params` carries the swaps as for optimizePosition, the vault (`targetVault`) and
+     *      `minSharesOut`; its `shares` field is unused. Native HYPE is wrapped before swapping
+     *      and swap leftovers are refunded to the caller.
+     * @param _inputToken Token to deposit, address(0) for native HYPE
+     * @param _inputAmount Amount of `_inputToken` (must equal msg.value for native HYPE)
+     * @param _params Swaps from `_inputToken` into the vault's asset, target vault and slippage
+     */
+    function depositWithSwap(
+        address _inputToken,
+        uint256 _inputAmount,
+        OptimizeParams calldata _params
+    ) external payable nonReentrant returns (uint256 shares) {
+        address asset = _depositAsset(_params.targetVault);
+        require(_inputAmount > 0, "Invalid amount");
+
+        if (_inputToken == address(0)) {
+            require(msg.value == _inputAmount, "Invalid native amount");
+            IWrappedNative(wrappedNative).deposit{value: msg.value}();
+            _inputToken = wrappedNative;
+        } else {
+            require(msg.value == 0, "ETH not accepted for token deposits");
+            IERC20(_inputToken).safeTransferFrom(msg.sender, address(this), _inputAmount);
+        }
+
+        uint256 assets = _executeSwaps(msg.sender, _inputToken, _inputAmount, asset, _params);
+        require(assets > 0, "No assets after swap");
+        return _openPosition(msg.sender, _params.targetVault, asset, assets, _params.minSharesOut);
+    }
+
+    /**
+     * @notice Deposit for a user who signed a DepositRequest, pulling the assets with an
+     *         EIP-2612 permit; anyone (e.g. the backend relayer) can submit it
+     * @dev Pass `_v = 0` to skip the permit when the user already approved the optimizer. A
+     *      permit that fails (e.g. front-run and already used) is ignored; the transfer then
+     *      relies on the allowance it set.
+     * @param _request Signed deposit; the permit is for `amount` with the same `deadline`
+     * @param _signature User's EIP-712 signature over `_request`
+     */
+    function depositBySig(
+        DepositRequest calldata _request,
+        bytes calldata _signature,
+        uint8 _v,
+        bytes32 _r,
+        bytes32 _s
+    ) external nonReentrant returns (uint256 shares) {
+        address asset = _depositAsset(_request.vault);
+        require(_request.amount > 0, "Invalid amount");
+        _verifyRequest(
+            _request.user,
+            keccak256(abi.encode(DEPOSIT_TYPEHASH, _request)),
+            _request.nonce,
+            _request.deadline,
+            _signature
+        );
+
+        if (_v != 0) {
+            try IERC20Permit(asset).permit(
+                _request.user, address(this), _request.amount, _request.deadline, _v, _r, _s
+            ) {} catch {}
+        }
+
+        IERC20(asset).safeTransferFrom(_request.user, address(this), _request.amount);
+        return _openPosition(_request.user, _request.vault, asset, _request.amount, _request.minSharesOut);
+    }
+
+    /**
+     * @notice Check that a vault accepts deposits and return its asset
+     */
+    function _depositAsset(address _vault) internal view returns (address asset) {
+        require(!paused, "Contract paused");
+        require(whitelistedVaults[_vault], "Vault not whitelisted");
+        require(emergencyExits[_vault].shares == 0, "Vault in emergency exit");
+        asset = IERC4626(_vault).asset();
+        require(asset != address(0), "Native ETH not supported");
+    }
+
+    /**
+     * @notice Deposit assets the contract already holds for `_user` and track a new position
+     */
+    function _openPosition(
+        address _user,
+        address _vault,
+        address _asset,
+        uint256 _amount,
+        uint256 _minSharesOut
+    ) internal returns (uint256 shares) {
+        IERC20(_asset).forceApprove(_vault, _amount);
+        shares = IERC4626(_vault).deposit(_amount, address(this));
 
         require(shares >= _minSharesOut, "Insufficient shares");
+        _checkVaultCap(_vault);
 
         // Track position
-        Position memory newPosition = Position({
+        uint256 positionId = _mintPosition(_user, Position({
             vault: _vault,
-            asset: asset,
+            asset: _asset,
             shares: shares,
             assets: _amount,
+            costBasis: _amount,
             active: true
-        });
-        userPositions[msg.sender].push(newPosition);
+        }));
 
-        emit PositionOpened(msg.sender, _vault, asset, _amount, shares);
+        emit PositionOpened(_user, _vault, _asset, _amount, shares, positionId);
         return shares;
     }
 
     /**
-     * @notice Withdraw assets from a position
-     * @param _positionIndex Index of position in user's positions array
+     * @notice Store a new position under the next ID and mint its receipt to `_owner`
+     */
+    function _mintPosition(address _owner, Position memory _position) internal returns (uint256 positionId) {
+        positionId = nextPositionId++;
+        positions[positionId] = _position;
+        receipts.mint(_owner, positionId);
+    }
+
+    /**
+     * @notice Delete a closed or merged position and burn its receipt
+     */
+    function _closePosition(uint256 _positionId) internal {
+        delete positions[_positionId];
+        receipts.burn(_positionId);
+    }
+
+    /**
+     * @notice Return an open position, checking that `_owner` holds its receipt
+     */
+    function _ownedPosition(address _owner, uint256 _positionId) internal view returns (Position storage position) {
+        position = positions[_positionId];
+        require(position.active, "Invalid position");
+        require(receipts.ownerOf(_positionId) == _owner, "Not position owner");
+    }
+
+    /**
+     * @notice Withdraw assets from a position; withdrawing all shares closes it and burns its receipt
+     * @param _positionId ID of a position whose receipt the caller holds
      * @param _shares Amount of shares to redeem
      * @param _minAssetsOut Minimum assets to receive
      */
     function withdraw(
-        uint256 _positionIndex,
+        uint256 _positionId,
         uint256 _shares,
         uint256 _minAssetsOut
     ) external nonReentrant returns (uint256 assets) {
+        assets = _withdraw(msg.sender, _positionId, _shares, msg.sender);
+        require(assets >= _minAssetsOut, "Insufficient assets");
+    }
+
+    /**
+     * @notice Withdraw from a position and swap the assets into another token, or native HYPE,
+     *         through whitelisted GlueX routers
+     * @dev `_params` carries the swaps as for optimizePosition; its vault and share fields are
+     *      unused. Native HYPE is swapped into the wrapped token and unwrapped before sending.
+     *      Swap leftovers are refunded to the caller.
+     * @param _positionId ID of a position whose receipt the caller holds
+     * @param _shares Amount of shares to redeem
+     * @param _outputToken Token to receive, address(0) for native HYPE
+     * @param _minAmountOut Minimum amount of `_outputToken` to receive
+     * @param _params Swaps from the position's asset into `_outputToken`
+     */
+    function withdrawWithSwap(
+        uint256 _positionId,
+        uint256 _shares,
+        address _outputToken,
+        uint256 _minAmountOut,
+        OptimizeParams calldata _params
+    ) external nonReentrant returns (uint256 amountOut) {
+        // Read before withdrawing, which deletes a fully withdrawn position
+        address asset = positions[_positionId].asset;
+        uint256 assets = _withdraw(msg.sender, _positionId, _shares, address(this));
+        address token = _outputToken == address(0) ? wrappedNative : _outputToken;
+
+        amountOut = _executeSwaps(msg.sender, asset, assets, token, _params);
+        require(amountOut >= _minAmountOut, "Insufficient output");
+
+        if (_outputToken == address(0)) {
+            IWrappedNative(wrappedNative).withdraw(amountOut);
+            (bool sent, ) = msg.sender.call{value: amountOut}("");
+            require(sent, "Native transfer failed");
+        } else {
+            IERC20(token).safeTransfer(msg.sender, amountOut);
+        }
+    }
+
+    /**
+     * @notice Withdraw for a user who signed a WithdrawRequest; the assets always go to the user
+     * @param _request Signed withdrawal
+     * @param _signature User's EIP-712 signature over `_request`
+     */
+    function withdrawBySig(
+        WithdrawRequest calldata _request,
+        bytes calldata _signature
+    ) external nonReentrant returns (uint256 assets) {
+        _verifyRequest(
+            _request.user,
+            keccak256(abi.encode(WITHDRAW_TYPEHASH, _request)),
+            _request.nonce,
+            _request.deadline,
+            _signature
+        );
+        assets = _withdraw(_request.user, _request.positionId, _request.shares, _request.user);
+        require(assets >= _request.minAssetsOut, "Insufficient assets");
+    }
+
+    /**
+     * @notice Check a signed request's deadline and signer and consume its nonce
+     */
+    function _verifyRequest(
+        address _user,
+        bytes32 _structHash,
+        uint256 _nonce,
+        uint256 _deadline,
+        bytes calldata _signature
+    ) internal {
+        require(block.timestamp <= _deadline, "Request expired");
+        require(ECDSA.recover(_hashTypedDataV4(_structHash), _signature) == _user, "Invalid signature");
+        _useCheckedNonce(_user, _nonce);
+    }
+
+    /**
+     * @notice Redeem shares of a user's position to `_receiver` and update the position
+     */
+    function _withdraw(
+        address _user,
+        uint256 _positionId,
+        uint256 _shares,
+        address _receiver
+    ) internal returns (uint256 assets) {
         require(!paused, "Contract paused");
-        require(_positionIndex < userPositions[msg.sender].length, "Invalid position");
-        
-        Position storage position = userPositions[msg.sender][_positionIndex];
-        require(position.active, "Position inactive");
+
+        Position storage position = _ownedPosition(_user, _positionId);
         require(_shares > 0 && _shares <= position.shares, "Invalid shares");
 
         IERC4626 vault = IERC4626(position.vault);
 
-        // Redeem shares
-        assets = vault.redeem(_shares, address(this), msg.sender);
+        // Charge performance fee on yield since last checkpoint; the fee is paid in shares,
+        // so cap the redemption at what is left of the position
+        _chargePerformanceFee(_user, position);
+        if (_shares > position.shares) {
+            _shares = position.shares;
+        }
 
-        require(assets >= _minAssetsOut, "Insufficient assets");
+        // Redeem shares (the optimizer holds the shares)
+        assets = _redeemShares(position, _shares, _receiver);
 
-        // Update position
+        // Update position (principal is reduced pro rata to the shares withdrawn)
+        position.costBasis -= (position.costBasis * _shares) / position.shares;
         position.shares -= _shares;
         position.assets = vault.convertToAssets(position.shares);
         if (position.shares == 0) {
-            position.active = false;
+            _closePosition(_positionId);
         }
 
-        emit PositionClosed(msg.sender, position.vault, _shares, assets);
+        emit PositionClosed(_user, address(vault), _shares, assets, _positionId);
         return assets;
     }
 
+    /**
+     * @notice Authorize or revoke a keeper to optimize the caller's positions
+     * @dev A keeper cannot withdraw to itself, but it does choose the router calldata and the
+     *      minimum outputs used with the caller's funds. Besides the whitelists, each of its moves
+     *      must leave the new shares worth at least `_maxSlippageBps` less than the assets
+     *      redeemed. There is no on-chain price between different assets, so a move into another
+     *      asset compares the amounts at face value (scaled to the same decimals): set the floor
+     *      wide enough for the assets your positions may move between.
+     * @param _keeper Keeper address (e.g. the backend hot wallet)
+     * @param _enabled Whether the keeper is allowed to act for the caller
+     * @param _maxSlippageBps Most a keeper move may lose, in basis points of the assets moved
+     */
+    function setKeeperAuthorization(address _keeper, bool _enabled, uint256 _maxSlippageBps) external {
+        require(_keeper != address(0), "Invalid keeper");
+        require(_maxSlippageBps <= BPS_DENOMINATOR, "Invalid slippage");
+        authorizedKeepers[msg.sender][_keeper] = _enabled;
+        keeperMaxSlippageBps[msg.sender][_keeper] = _maxSlippageBps;
+        emit KeeperAuthorized(msg.sender, _keeper, _enabled, _maxSlippageBps);
+    }
+
     /**
      * @notice Optimize yield by reallocating assets to higher yielding vault
-     * @dev Uses GlueX Router API for swaps if asset conversion needed
-     * @param _positionIndex Index of position to optimize
+     * @dev Uses GlueX Router API for swaps if asset conversion needed. Moving only part of a
+     *      position (`_params.shares`) leaves the rest in place and mints a new position (and
+     *      receipt) for the moved shares.
+     * @param _positionId ID of a position whose receipt the caller holds
      * @param _params Optimization parameters from off-chain service
      */
     function optimizePosition(
-        uint256 _positionIndex,
+        uint256 _positionId,
         OptimizeParams calldata _params
     ) external nonReentrant returns (uint256 newShares) {
-        require(!paused, "Contract paused");
-        require(_positionIndex < userPositions[msg.sender].length, "Invalid position");
-        require(whitelistedVaults[_params.targetVault], "Target vault not whitelisted");
+        return _optimizePosition(msg.sender, _positionId, _params);
+    }
 
-        Position storage position = userPositions[msg.sender][_positionIndex];
-        require(position.active, "Position inactive");
+    /**
+     * @notice Optimize a position on behalf of its owner, who authorized the caller as keeper
+     * @dev The caller needs KEEPER_ROLE and the authorization of the receipt's current holder
+     * @param _positionId ID of position to optimize
+     * @param _params Optimization parameters from off-chain service
+     */
+    function optimizePositionFor(
+        uint256 _positionId,
+        OptimizeParams calldata _params
+    ) external nonReentrant onlyRole(KEEPER_ROLE) returns (uint256 newShares) {
+        return _optimizePosition(_authorizedOwner(_positionId), _positionId, _params);
+    }
 
-        IERC4626 fromVault = IERC4626(position.vault);
-        IERC4626 toVault = IERC4626(_params.targetVault);
+    /**
+     * @notice Split a position over several vaults in one transaction
+     * @dev Legs run in order against the same position and must all leave its source vault:
+     *      each leg with `shares` set moves that part into a new position, and a final leg with
+     *      `shares` = 0 moves whatever is left. Without such a leg the rest stays in place.
+     * @param _positionId ID of a position whose receipt the caller holds
+     * @param _legs Optimization parameters per target vault
+     */
+    function optimizePositionSplit(
+        uint256 _positionId,
+        OptimizeParams[] calldata _legs
+    ) external nonReentrant returns (uint256[] memory newShares) {
+        return _optimizePositionSplit(msg.sender, _positionId, _legs);
+    }
 
-        // Redeem all shares from current vault
-        uint256 assetsRedeemed = fromVault.redeem(
-            position.shares,
-            address(this),
-            address(this)
-        );
+    /**
+     * @notice Split a position on behalf of its owner, who authorized the caller as keeper
+     * @param _positionId ID of position to split
+     * @param _legs Optimization parameters per target vault
+     */
+    function optimizePositionSplitFor(
+        uint256 _positionId,
+        OptimizeParams[] calldata _legs
+    ) external nonReentrant onlyRole(KEEPER_ROLE) returns (uint256[] memory newShares) {
+        return _optimizePositionSplit(_authorizedOwner(_positionId), _positionId, _legs);
+    }
 
-        // If swaps are needed (asset conversion)
-        if (_params.routers.length > 0) {
-            require(
-                _params.routers.length == _params.calldatas.length &&
-                _params.routers.length == _params.inputTokens.length &&
-                _params.routers.length == _params.outputTokens.length &&
-                _params.routers.length == _params.inputAmounts.length,
-                "Array length mismatch"
-            );
+    /**
+     * @notice Holder of a position's receipt, who must have authorized the calling keeper
+     */
+    function _authorizedOwner(uint256 _positionId) internal view returns (address owner) {
+        owner = receipts.ownerOf(_positionId);
+        require(authorizedKeepers[owner][msg.sender], "Keeper not authorized");
+    }
 
-            // Execute swaps via GlueX routers
-            for (uint256 i = 0; i < _params.routers.length; i++) {
-                require(whitelistedRouters[_params.routers[i]], "Router not whitelisted");
-                
-                address inputToken = _params.inputTokens[i];
-                address outputToken = _params.outputTokens[i];
-                uint256 inputAmount = _params.inputAmounts[i];
-
-                // Approve router
-                require(inputToken != address(0), "Native ETH not supported");
-                IERC20(inputToken).safeIncreaseAllowance(_params.routers[i], inputAmount);
-
-                // Execute swap (no native ETH support)
-                (bool success, ) = _params.routers[i].call(_params.calldatas[i]);
-                require(success, "Swap failed");
-            }
+    function _optimizePositionSplit(
+        address _user,
+        uint256 _positionId,
+        OptimizeParams[] calldata _legs
+    ) internal returns (uint256[] memory newShares) {
+        require(_legs.length > 0, "No legs");
+        address sourceVault = _ownedPosition(_user, _positionId).vault;
+
+        newShares = new uint256[](_legs.length);
+        for (uint256 i = 0; i < _legs.length; i++) {
+            // After a leg moved the whole position, later legs would drain the target instead
+            require(positions[_positionId].vault == sourceVault, "Position already moved");
+            newShares[i] = _optimizePosition(_user, _positionId, _legs[i]);
         }
+        return newShares;
+    }
 
-        // Get target asset and balance
-        address targetAsset = toVault.asset();
+    function _optimizePosition(
+        address _user,
+        uint256 _positionId,
+        OptimizeParams calldata _params
+    ) internal returns (uint256 newShares) {
+        require(!paused, "Contract paused");
+        require(whitelistedVaults[_params.targetVault], "Target vault not whitelisted");
+        require(emergencyExits[_params.targetVault].shares == 0, "Vault in emergency exit");
+
+        Position storage position = _ownedPosition(_user, _positionId);
+        require(_params.shares <= position.shares, "Invalid shares");
+
+        address fromVault = position.vault;
+        address fromAsset = position.asset;
+
+        // Get target asset
+        address targetAsset = IERC4626(_params.targetVault).asset();
         require(targetAsset != address(0), "Native ETH not supported");
-        
-        uint256 targetAssetBalance = IERC20(targetAsset).balanceOf(address(this));
-        require(targetAssetBalance > 0, "No assets after swap");
+
+        // Charge performance fee before the position is moved; the fee is paid in shares,
+        // so cap the move at what is left of the position
+        _chargePerformanceFee(_user, position);
+        uint256 sharesToMove = _params.shares == 0 || _params.shares > position.shares
+            ? position.shares
+            : _params.shares;
+
+        // Redeem the shares from current vault, measuring what actually arrived
+        uint256 assetsRedeemed = _redeemShares(position, sharesToMove, address(this));
+
+        // Swap (if asset conversion is needed); only this operation's tokens are ever used
+        uint256 targetAssets = _executeSwaps(_user, fromAsset, assetsRedeemed, targetAsset, _params);
+        require(targetAssets > 0, "No assets after swap");
 
         // Approve and deposit to target vault
-        IERC20(targetAsset).safeIncreaseAllowance(_params.targetVault, targetAssetBalance);
-        newShares = toVault.deposit(targetAssetBalance, address(this));
+        IERC20(targetAsset).forceApprove(_params.targetVault, targetAssets);
+        newShares = IERC4626(_params.targetVault).deposit(targetAssets, address(this));
 
         require(newShares >= _params.minSharesOut, "Insufficient shares");
+        _checkVaultCap(_params.targetVault);
+        if (_user != msg.sender) {
+            _checkKeeperSlippage(
+                _user,
+                fromAsset,
+                assetsRedeemed,
+                targetAsset,
+                IERC4626(_params.targetVault).convertToAssets(newShares)
+            );
+        }
+
+        // Principal moves pro rata to the shares; in another asset it can't be compared with
+        // the old principal, so restart it
+        uint256 movedCostBasis = (position.costBasis * sharesToMove) / position.shares;
+        if (targetAsset != fromAsset) {
+            movedCostBasis = targetAssets;
+        }
 
-        // Update position
-        position.vault = _params.targetVault;
-        position.asset = targetAsset;
-        position.shares = newShares;
-        position.assets = targetAssetBalance;
+        uint256 newPositionId = _positionId;
+        if (sharesToMove == position.shares) {
+            // Whole position moves to the target vault
+            position.vault = _params.targetVault;
+            position.asset = targetAsset;
+            position.shares = newShares;
+            position.assets = targetAssets;
+            position.costBasis = movedCostBasis;
+        } else {
+            // Partial move: the rest stays in the source vault, the moved part is a new position
+            position.costBasis -= (position.costBasis * sharesToMove) / position.shares;
+            position.shares -= sharesToMove;
+            position.assets = IERC4626(fromVault).convertToAssets(position.shares);
+
+            newPositionId = _mintPosition(_user, Position({
+                vault: _params.targetVault,
+                asset: targetAsset,
+                shares: newShares,
+                assets: targetAssets,
+                costBasis: movedCostBasis,
+                active: true
+            }));
+        }
 
         emit PositionOptimized(
-            msg.sender,
-            address(fromVault),
+            _user,
+            fromVault,
             _params.targetVault,
             assetsRedeemed,
-            newShares
+            newShares,
+            _positionId,
+            newPositionId
         );
 
         return newShares;
     }
 
     /**
-     * @notice Get all positions for a user
+     * @notice Revert when a keeper's move lost more than the user allowed that keeper
+     * @dev Amounts of different assets are compared at face value after scaling decimals
+     */
+    function _checkKeeperSlippage(
+        address _user,
+        address _fromAsset,
+        uint256 _assetsIn,
+        address _toAsset,
+        uint256 _assetsOut
+    ) internal view {
+        if (_fromAsset != _toAsset) {
+            uint8 fromDecimals = IERC20Metadata(_fromAsset).decimals();
+            uint8 toDecimals = IERC20Metadata(_toAsset).decimals();
+            if (fromDecimals > toDecimals) {
+                _assetsOut *= 10 ** (fromDecimals - toDecimals);
+            } else {
+                _assetsIn *= 10 ** (toDecimals - fromDecimals);
+            }
+        }
+        uint256 maxSlippageBps = keeperMaxSlippageBps[_user][msg.sender];
+        require(
+            _assetsOut * BPS_DENOMINATOR >= _assetsIn * (BPS_DENOMINATOR - maxSlippageBps),
+            "Keeper slippage too high"
+        );
+    }
+
+    /**
+     * @notice Merge another of the caller's positions in the same vault into `_positionId`
+     * @dev Fees are charged on both first, so the merged position starts from one fee
+     *      checkpoint. The merged position is deleted and its receipt burned.
+     * @param _positionId Position that remains
+     * @param _mergedPositionId Position folded into it
+     */
+    function mergePositions(uint256 _positionId, uint256 _mergedPositionId) external nonReentrant {
+        require(!paused, "Contract paused");
+        require(_positionId != _mergedPositionId, "Same position");
+
+        Position storage position = _ownedPosition(msg.sender, _positionId);
+        Position storage merged = _ownedPosition(msg.sender, _mergedPositionId);
+        require(position.vault == merged.vault, "Different vaults");
+
+        _chargePerformanceFee(msg.sender, position);
+        _chargePerformanceFee(msg.sender, merged);
+        position.shares += merged.shares;
+        position.assets += merged.assets;
+        position.costBasis += merged.costBasis;
+        _closePosition(_mergedPositionId);
+
+        emit PositionsMerged(msg.sender, _positionId, _mergedPositionId);
+    }
+
+    /**
+     * @notice Redeem shares of a position, settling their pro-rata part of an emergency exit
+     *         pool at that exit's average price and the rest against the vault, as
+     *         `getPositionValues` quotes it
+     * @return assets Underlying assets sent to `_receiver`; measured by balance delta when the
+     *         receiver is this contract
+     */
+    function _redeemShares(
+        Position storage position,
+        uint256 _shares,
+        address _receiver
+    ) internal returns (uint256 assets) {
+        EmergencyExit storage exit = emergencyExits[position.vault];
+        uint256 exitShares;
+        if (exit.shares > 0) {
+            exitShares = (_shares * exit.shares) /
+                (exit.shares + IERC4626(position.vault).balanceOf(address(this)));
+            if (exitShares > _shares) {
+                exitShares = _shares;
+            }
+        }
+        if (exitShares > 0) {
+            assets = (exit.assets * exitShares) / exit.shares;
+            exit.shares -= exitShares;
+            exit.assets -= assets;
+            if (_receiver != address(this)) {
+                IERC20(position.asset).safeTransfer(_receiver, assets);
+            }
+        }
+
+        uint256 vaultShares = _shares - exitShares;
+        if (vaultShares == 0) {
+            return assets;
+        }
+        if (_receiver == address(this)) {
+            uint256 balanceBefore = IERC20(position.asset).balanceOf(address(this));
+            IERC4626(position.vault).redeem(vaultShares, address(this), address(this));
+            assets += IERC20(position.asset).balanceOf(address(this)) - balanceBefore;
+        } else {
+            assets += IERC4626(position.vault).redeem(vaultShares, _receiver, address(this));
+        }
+        return assets;
+    }
+
+    /**
+     * @notice Run the swaps of an optimization and return the target asset amount it produced
+     * @dev Token amounts are tracked per operation from balance deltas, so idle balances,
+     *      donations or another user's funds held by the contract can never be spent or credited.
+     *      Router allowances are reset after every swap. Anything left over that is not the
+     *      target asset is refunded to the user.
+     */
+    function _executeSwaps(
+        address _user,
+        address _fromAsset,
+        uint256 _assetsRedeemed,
+        address _targetAsset,
+        OptimizeParams calldata _params
+    ) internal returns (uint256 targetAssets) {
+        uint256 swapCount = _params.routers.length;
+        require(
+            swapCount == _params.calldatas.length &&
+            swapCount == _params.inputTokens.length &&
+            swapCount == _params.outputTokens.length &&
+            swapCount == _params.inputAmounts.length &&
+            swapCount == _params.minOutputAmounts.length,
+            "Array length mismatch"
+        );
+
+        // Tokens held by this operation and their amounts
+        address[] memory tokens = new address[](swapCount + 1);
+        uint256[] memory amounts = new uint256[](swapCount + 1);
+        tokens[0] = _fromAsset;
+        amounts[0] = _assetsRedeemed;
+        uint256 tokenCount = 1;
+
+        // Execute swaps via GlueX routers
+        for (uint256 i = 0; i < swapCount; i++) {
+            require(whitelistedRouters[_params.routers[i]], "Router not whitelisted");
+
+            address inputToken = _params.inputTokens[i];
+            address outputToken = _params.outputTokens[i];
+            uint256 inputAmount = _params.inputAmounts[i];
+            require(inputToken != address(0) && outputToken != address(0), "Native ETH not supported");
+            require(inputToken != outputToken, "Invalid swap tokens");
+
+            uint256 inputIndex = _indexOf(tokens, tokenCount, inputToken);
+            require(inputIndex < tokenCount && amounts[inputIndex] >= inputAmount, "Insufficient swap input");
+
+            uint256 inputBefore = IERC20(inputToken).balanceOf(address(this));
+            uint256 outputBefore = IERC20(outputToken).balanceOf(address(this));
+
+            // Approve router for exactly this swap (no native ETH support)
+            IERC20(inputToken).forceApprove(_params.routers[i], inputAmount);
+            (bool success, ) = _params.routers[i].call(_params.calldatas[i]);
+            require(success, "Swap failed");
+            IERC20(inputToken).forceApprove(_params.routers[i], 0);
+
+            uint256 inputSpent = inputBefore - IERC20(inputToken).balanceOf(address(this));
+            uint256 outputReceived = IERC20(outputToken).balanceOf(address(this)) - outputBefore;
+            require(inputSpent <= inputAmount, "Swap overspent");
+            require(outputReceived >= _params.minOutputAmounts[i], "Insufficient swap output");
+
+            amounts[inputIndex] -= inputSpent;
+
+            uint256 outputIndex = _indexOf(tokens, tokenCount, outputToken);
+            if (outputIndex == tokenCount) {
+                tokens[tokenCount] = outputToken;
+                tokenCount++;
+            }
+            amounts[outputIndex] += outputReceived;
+        }
+
+        // Refund leftovers that are not deposited
+        for (uint256 i = 0; i < tokenCount; i++) {
+            if (tokens[i] == _targetAsset) {
+                targetAssets = amounts[i];
+            } else if (amounts[i] > 0) {
+                IERC20(tokens[i]).safeTransfer(_user, amounts[i]);
+                emit DustRefunded(_user, tokens[i], amounts[i]);
+            }
+        }
+
+        return targetAssets;
+    }
+
+    /**
+     * @notice Index of `_token` in the first `_count` entries of `_tokens` (`_count` if missing)
+     */
+    function _indexOf(
+        address[] memory _tokens,
+        uint256 _count,
+        address _token
+    ) internal pure returns (uint256) {
+        for (uint256 i = 0; i < _count; i++) {
+            if (_tokens[i] == _token) {
+                return i;
+            }
+        }
+        return _count;
+    }
+
+    /**
+     * @notice Charge the protocol performance fee on yield earned since the last checkpoint
+     * @dev `position.assets` holds the asset value at the last checkpoint (deposit, withdraw,
+     *      optimization or previous fee charge). The fee is redeemed straight to the treasury.
+     * @return feeAssets Amount of underlying assets sent to the treasury
+     */
+    function _chargePerformanceFee(
+        address _user,
+        Position storage position
+    ) internal returns (uint256 feeAssets) {
+        // No fee on a vault that went through an emergency exit
+        if (protocolFeeBps == 0 || emergencyExits[position.vault].shares > 0) {
+            return 0;
+        }
+
+        IERC4626 vault = IERC4626(position.vault);
+        uint256 currentAssets = vault.convertToAssets(position.shares);
+        if (currentAssets <= position.assets) {
+            return 0;
+        }
+
+        uint256 yieldEarned = currentAssets - position.assets;
+        uint256 feeShares = vault.convertToShares(
+            (yieldEarned * protocolFeeBps) / BPS_DENOMINATOR
+        );
+        if (feeShares == 0) {
+            return 0;
+        }
+
+        position.shares -= feeShares;
+        feeAssets = vault.redeem(feeShares, treasury, address(this));
+        position.assets = vault.convertToAssets(position.shares);
+
+        emit FeeCharged(_user, position.vault, yieldEarned, feeAssets);
+        return feeAssets;
+    }
+
+    /**
+     * @notice Get the IDs of all open positions whose receipts a user holds
+     */
+    function getUserPositionIds(address _user) public view returns (uint256[] memory ids) {
+        ids = new uint256[](receipts.balanceOf(_user));
+        for (uint256 i = 0; i < ids.length; i++) {
+            ids[i] = receipts.tokenOfOwnerByIndex(_user, i);
+        }
+        return ids;
+    }
+
+    /**
+     * @notice Get all open positions for a user, in the order of getUserPositionIds
+     */
+    function getUserPositions(address _user) external view returns (Position[] memory userPositions) {
+        uint256[] memory ids = getUserPositionIds(_user);
+        userPositions = new Position[](ids.length);
+        for (uint256 i = 0; i < ids.length; i++) {
+            userPositions[i] = positions[ids[i]];
+        }
+        return userPositions;
+    }
+
+    /**
+     * @notice Get the live value of all open positions for a user
+     * @dev `Position.assets` is only a fee checkpoint; this reads each vault for the current value
+     */
+    function getPositionValues(address _user) external view returns (PositionValue[] memory values) {
+        uint256[] memory ids = getUserPositionIds(_user);
+        values = new PositionValue[](ids.length);
+
+        for (uint256 i = 0; i < ids.length; i++) {
+            Position storage position = positions[ids[i]];
+            PositionValue memory value = values[i];
+            value.id = ids[i];
+            value.vault = position.vault;
+            value.asset = position.asset;
+            value.shares = position.shares;
+            value.costBasis = position.costBasis;
+            value.active = position.active;
+
+            if (!position.active || position.shares == 0) {
+                continue;
+            }
+
+            // A position's pro-rata part of an emergency exit pool is valued at the exit price,
+            // so the pool is not counted once per position in the vault
+            IERC4626 vault = IERC4626(position.vault);
+            EmergencyExit storage exit = emergencyExits[position.vault];
+            uint256 exitShares;
+            uint256 exitAssets;
+            if (exit.shares > 0) {
+                exitShares = (position.shares * exit.shares) / (exit.shares + vault.balanceOf(address(this)));
+                if (exitShares > position.shares) {
+                    exitShares = position.shares;
+                }
+                exitAssets = (exit.assets * exitShares) / exit.shares;
+            }
+            uint256 vaultShares = position.shares - exitShares;
+
+            value.currentAssets = exitAssets + vault.convertToAssets(vaultShares);
+            if (value.currentAssets > position.costBasis) {
+                value.accruedYield = value.currentAssets - position.costBasis;
+            }
+
+            // The vault's limit applies to all shares held by the optimizer
+            uint256 redeemable = vault.previewRedeem(vaultShares);
+            uint256 vaultMaxWithdraw = vault.maxWithdraw(address(this));
+            value.maxWithdraw = exitAssets + (redeemable < vaultMaxWithdraw ? redeemable : vaultMaxWithdraw);
+        }
+
+        return values;
+    }
+
+    /**
+     * @notice Assets the optimizer holds in a vault across all users
      */
-    function getUserPositions(address _user) external view returns (Position[] memory) {
-        return userPositions[_user];
+    function vaultExposure(address _vault) public view returns (uint256) {
+        IERC4626 vault = IERC4626(_vault);
+        return vault.convertToAssets(vault.balanceOf(address(this)));
+    }
+
+    /**
+     * @notice Assets that can still be deposited into a vault before its cap is reached
+     * @return Remaining capacity (type(uint256).max when the vault has no cap)
+     */
+    function availableVaultCapacity(address _vault) external view returns (uint256) {
+        uint256 cap = vaultDepositCaps[_vault];
+        if (cap == 0) {
+            return type(uint256).max;
+        }
+        uint256 exposure = vaultExposure(_vault);
+        return exposure >= cap ? 0 : cap - exposure;
     }
 
     /**
-     * @notice Get position count for a user
+     * @notice Get open position count for a user
      */
     function getUserPositionCount(address _user) external view returns (uint256) {
-        return userPositions[_user].length;
+        return receipts.balanceOf(_user);
     }
 
     // Governance functions
 
-    function whitelistVault(address _vault, bool _enabled) external onlyOwner {
-        require(_vault != address(0), "Invalid vault");
+    /**
+     * @notice Queue a timelocked governance operation
+     * @dev Whitelist and deposit cap operations need CURATOR_ROLE; fee and delay changes need
+     *      DEFAULT_ADMIN_ROLE
+     * @return id Operation id used to execute or cancel it
+     */
+    function queueOperation(
+        GovernanceAction _action,
+        address _target,
+        uint256 _value
+    ) external returns (bytes32 id) {
+        _checkRole(_operationRole(_action));
+        _validateOperation(_action, _target, _value);
+
+        id = keccak256(abi.encode(_action, _target, _value, operationNonce++));
+        uint256 executableAt = block.timestamp + timelockDelay;
+        governanceOperations[id] = GovernanceOperation({
+            action: _action,
+            target: _target,
+            value: _value,
+            executableAt: executableAt
+        });
+        pendingOperationIds.push(id);
+
+        emit OperationQueued(id, _action, _target, _value, executableAt);
+        return id;
+    }
+
+    /**
+     * @notice Execute a queued operation once its delay has passed (and before it expires)
+     */
+    function executeOperation(bytes32 _id) external {
+        GovernanceOperation memory operation = governanceOperations[_id];
+        require(operation.executableAt != 0, "Unknown operation");
+        _checkRole(_operationRole(operation.action));
+        require(block.timestamp >= operation.executableAt, "Operation not ready");
+        require(
+            block.timestamp <= operation.executableAt + OPERATION_GRACE_PERIOD,
+            "Operation expired"
+        );
+
+        _removeOperation(_id);
+
+        if (operation.action == GovernanceAction.WhitelistVault) {
+            _whitelistVault(operation.target, operation.value != 0);
+        } else if (operation.action == GovernanceAction.WhitelistRouter) {
+            _whitelistRouter(operation.target, operation.value != 0);
+        } else if (operation.action == GovernanceAction.AddGlueXVault) {
+            _addGlueXVault(operation.target);
+        } else if (operation.action == GovernanceAction.SetVaultDepositCap) {
+            vaultDepositCaps[operation.target] = operation.value;
+            emit VaultDepositCapUpdated(operation.target, operation.value);
+        } else if (operation.action == GovernanceAction.UpdateProtocolFee) {
+            protocolFeeBps = operation.value;
+            emit ProtocolFeeUpdated(operation.value);
+        } else {
+            timelockDelay = operation.value;
+            emit TimelockDelayUpdated(operation.value);
+        }
+
+        emit OperationExecuted(_id, operation.action);
+    }
+
+    /**
+     * @notice Cancel a queued operation (admin, guardian or the role that can execute it)
+     */
+    function cancelOperation(bytes32 _id) external {
+        GovernanceOperation memory operation = governanceOperations[_id];
+        require(operation.executableAt != 0, "Unknown operation");
+        if (!hasRole(DEFAULT_ADMIN_ROLE, msg.sender) && !hasRole(GUARDIAN_ROLE, msg.sender)) {
+            _checkRole(_operationRole(operation.action));
+        }
+
+        _removeOperation(_id);
+        emit OperationCancelled(_id, operation.action);
+    }
+
+    /**
+     * @notice Get all queued operations that have not been executed or cancelled
+     */
+    function getPendingOperations()
+        external
+        view
+        returns (bytes32[] memory ids, GovernanceOperation[] memory operations)
+    {
+        ids = pendingOperationIds;
+        operations = new GovernanceOperation[](ids.length);
+        for (uint256 i = 0; i < ids.length; i++) {
+            operations[i] = governanceOperations[ids[i]];
+        }
+        return (ids, operations);
+    }
+
+    function _operationRole(GovernanceAction _action) internal pure returns (bytes32) {
+        if (
+            _action == GovernanceAction.UpdateProtocolFee ||
+            _action == GovernanceAction.SetTimelockDelay
+        ) {
+            return DEFAULT_ADMIN_ROLE;
+        }
+        return CURATOR_ROLE;
+    }
+
+    function _validateOperation(
+        GovernanceAction _action,
+        address _target,
+        uint256 _value
+    ) internal view {
+        if (_action == GovernanceAction.UpdateProtocolFee) {
+            require(_value <= MAX_FEE_BPS, "Fee too high");
+        } else if (_action == GovernanceAction.SetTimelockDelay) {
+            require(_value <= MAX_TIMELOCK_DELAY, "Delay too long");
+        } else {
+            require(_target != address(0), "Invalid target");
+            if (_action == GovernanceAction.AddGlueXVault) {
+                for (uint256 i = 0; i < GLUEX_VAULTS.length; i++) {
+                    require(GLUEX_VAULTS[i] != _target, "Vault already exists");
+                }
+            }
+        }
+    }
+
+    function _removeOperation(bytes32 _id) internal {
+        delete governanceOperations[_id];
+        for (uint256 i = 0; i < pendingOperationIds.length; i++) {
+            if (pendingOperationIds[i] == _id) {
+                pendingOperationIds[i] = pendingOperationIds[pendingOperationIds.length - 1];
+                pendingOperationIds.pop();
+                break;
+            }
+        }
+    }
+
+    // Checked after every deposit into a vault, so the cap also covers vault entry fees and rounding
+    function _checkVaultCap(address _vault) internal view {
+        uint256 cap = vaultDepositCaps[_vault];
+        require(cap == 0 || vaultExposure(_vault) <= cap, "Vault cap exceeded");
+    }
+
+    function _whitelistVault(address _vault, bool _enabled) internal {
         whitelistedVaults[_vault] = _enabled;
         emit VaultWhitelisted(_vault, _enabled);
     }
 
     /**
-     * @notice Add a vault to the GLUEX_VAULTS array (optional helper)
+     * @notice Add a vault to the GLUEX_VAULTS array and whitelist it
      */
-    function addGlueXVault(address _vault) external onlyOwner {
-        require(_vault != address(0), "Invalid vault");
+    function _addGlueXVault(address _vault) internal {
         // Check if already exists
         for (uint256 i = 0; i < GLUEX_VAULTS.length; i++) {
             require(GLUEX_VAULTS[i] != _vault, "Vault already exists");
         }
         GLUEX_VAULTS.push(_vault);
-        whitelistedVaults[_vault] = true;
-        emit VaultWhitelisted(_vault, true);
+        _whitelistVault(_vault, true);
     }
 
-    function whitelistRouter(address _router, bool _enabled) external onlyOwner {
-        require(_router != address(0), "Invalid router");
+    function _whitelistRouter(address _router, bool _enabled) internal {
         whitelistedRouters[_router] = _enabled;
         emit RouterWhitelisted(_router, _enabled);
     }
 
-    function updateProtocolFee(uint256 _newFeeBps) external onlyOwner {
-        require(_newFeeBps <= MAX_FEE_BPS, "Fee too high");
-        protocolFeeBps = _newFeeBps;
-        emit ProtocolFeeUpdated(_newFeeBps);
+    /**
+     * @notice Redeem the optimizer's shares of a failing vault into its underlying asset and
+     *         de-whitelist the vault
+     * @dev Works while paused. Positions in the vault keep their share count and settle against
+     *      the exited assets on their next withdraw or optimization. Can be called again for
+     *      shares the vault could not redeem the first time.
+     * @param _vault Vault to exit
+     * @param _shares Shares to redeem (0 = as many as the vault allows)
+     * @param _minAssetsOut Minimum underlying assets to receive
+     */
+    function emergencyExit(
+        address _vault,
+        uint256 _shares,
+        uint256 _minAssetsOut
+    ) external nonReentrant onlyRole(GUARDIAN_ROLE) returns (uint256 assets) {
+        IERC4626 vault = IERC4626(_vault);
+        uint256 held = vault.balanceOf(address(this));
+        if (_shares == 0) {
+            uint256 redeemable = vault.maxRedeem(address(this));
+            _shares = held < redeemable ? held : redeemable;
+        }
+        require(_shares > 0 && _shares <= held, "Invalid shares");
+
+        IERC20 asset = IERC20(vault.asset());
+        uint256 balanceBefore = asset.balanceOf(address(this));
+        vault.redeem(_shares, address(this), address(this));
+        assets = asset.balanceOf(address(this)) - balanceBefore;
+        require(assets >= _minAssetsOut, "Insufficient assets");
+
+        EmergencyExit storage exit = emergencyExits[_vault];
+        exit.shares += _shares;
+        exit.assets += assets;
+        if (whitelistedVaults[_vault]) {
+            _whitelistVault(_vault, false);
+        }
+
+        emit EmergencyExitExecuted(_vault, _shares, assets);
+        return assets;
     }
 
-    function setPaused(bool _paused) external onlyOwner {
+    function setTreasury(address _treasury) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        require(_treasury != address(0), "Invalid treasury");
+        treasury = _treasury;
+        emit TreasuryUpdated(_treasury);
+    }
+
+    /**
+     * @notice Pause (guardian or admin) or unpause (admin only) the contract
+     */
+    function setPaused(bool _paused) external {
+        if (_paused) {
+            require(
+                hasRole(GUARDIAN_ROLE, msg.sender) || hasRole(DEFAULT_ADMIN_ROLE, msg.sender),
+                "Not guardian"
+            );
+        } else {
+            _checkRole(DEFAULT_ADMIN_ROLE);
+        }
         paused = _paused;
         emit Paused(_paused);
     }
 
-    // Allow contract to receive ETH
-    receive() external payable {}
+    // Only WHYPE sends native HYPE here, when unwrapping for withdrawWithSwap
+    receive() external payable {
+        require(msg.sender == wrappedNative, "ETH not accepted");
+    }
 }
 
@@ -0,0 +1,38 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/token/ERC721/extensions/ERC721Enumerable.sol";
+
+/**
+ * @title YieldPositionReceipt
+ * @notice ERC-721 receipt for a YieldOptimizer position: whoever holds the token owns the position
+ * @dev Deployed by the optimizer, the only account that can mint and burn. Token IDs are the
+ *      optimizer's position IDs; a receipt is burned when its position is closed or merged.
+ */
+contract YieldPositionReceipt is ERC721Enumerable {
+    address public immutable optimizer;
+
+    constructor() ERC721("YieldX Position", "YXP") {
+        optimizer = msg.sender;
+    }
+
+    modifier onlyOptimizer() {
+        require(msg.sender == optimizer, "Only optimizer");
+        _;
+    }
+
+    /**
+     * @notice Mint the receipt of a new position
+     * @dev Not a safe mint, so a receiving contract cannot reenter in the middle of a deposit
+     */
+    function mint(address _to, uint256 _positionId) external onlyOptimizer {
+        _mint(_to, _positionId);
+    }
+
+    /**
+     * @notice Burn the receipt of a closed or merged position
+     */
+    function burn(uint256 _positionId) external onlyOptimizer {
+        _burn(_positionId);
+    }
+}
@@ -0,0 +1,116 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/token/ERC20/extensions/ERC4626.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "@openzeppelin/contracts/utils/math/Math.sol";
+
+/**
+ * @title MockERC4626
+ * @notice ERC-4626 vault with configurable entry/exit fees, deposit cap and losses (tests only)
+ * @dev Yield is simulated by minting the underlying asset straight to the vault
+ */
+contract MockERC4626 is ERC4626 {
+    using SafeERC20 for IERC20;
+    using Math for uint256;
+
+    uint256 public constant BPS_DENOMINATOR = 10_000;
+
+    uint256 public entryFeeBps;
+    uint256 public exitFeeBps;
+    uint256 public depositCap; // Max totalAssets, 0 = unlimited
+    address public feeRecipient;
+
+    constructor(
+        IERC20 _asset,
+        string memory _name,
+        string memory _symbol
+    ) ERC20(_name, _symbol) ERC4626(_asset) {
+        feeRecipient = msg.sender;
+    }
+
+    function setFees(uint256 _entryFeeBps, uint256 _exitFeeBps) external {
+        require(_entryFeeBps < BPS_DENOMINATOR && _exitFeeBps < BPS_DENOMINATOR, "Fee too high");
+        entryFeeBps = _entryFeeBps;
+        exitFeeBps = _exitFeeBps;
+    }
+
+    function setDepositCap(uint256 _depositCap) external {
+        depositCap = _depositCap;
+    }
+
+    /**
+     * @notice Simulate a loss by sending underlying assets out of the vault
+     */
+    function simulateLoss(uint256 _assets) external {
+        IERC20(asset()).safeTransfer(address(0xdEaD), _assets);
+    }
+
+    function maxDeposit(address) public view override returns (uint256) {
+        if (depositCap == 0) {
+            return type(uint256).max;
+        }
+        uint256 total = totalAssets();
+        return total >= depositCap ? 0 : depositCap - total;
+    }
+
+    function maxMint(address _receiver) public view override returns (uint256) {
+        uint256 maxAssets = maxDeposit(_receiver);
+        return maxAssets == type(uint256).max ? type(uint256).max : previewDeposit(maxAssets);
+    }
+
+    function previewDeposit(uint256 _assets) public view override returns (uint256) {
+        return super.previewDeposit(_assets - _feeOnTotal(_assets, entryFeeBps));
+    }
+
+    function previewMint(uint256 _shares) public view override returns (uint256) {
+        uint256 assets = super.previewMint(_shares);
+        return assets + _feeOnRaw(assets, entryFeeBps);
+    }
+
+    function previewWithdraw(uint256 _assets) public view override returns (uint256) {
+        return super.previewWithdraw(_assets + _feeOnRaw(_assets, exitFeeBps));
+    }
+
+    function previewRedeem(uint256 _shares) public view override returns (uint256) {
+        uint256 assets = super.previewRedeem(_shares);
+        return assets - _feeOnTotal(assets, exitFeeBps);
+    }
+
+    function _deposit(
+        address _caller,
+        address _receiver,
+        uint256 _assets,
+        uint256 _shares
+    ) internal override {
+        uint256 fee = _feeOnTotal(_assets, entryFeeBps);
+        super._deposit(_caller, _receiver, _assets, _shares);
+        if (fee > 0) {
+            IERC20(asset()).safeTransfer(feeRecipient, fee);
+        }
+    }
+
+    function _withdraw(
+        address _caller,
+        address _receiver,
+        address _owner,
+        uint256 _assets,
+        uint256 _shares
+    ) internal override {
+        uint256 fee = _feeOnRaw(_assets, exitFeeBps);
+        super._withdraw(_caller, _receiver, _owner, _assets, _shares);
+        if (fee > 0) {
+            IERC20(asset()).safeTransfer(feeRecipient, fee);
+        }
+    }
+
+    // Fee charged on top of an amount that excludes it
+    function _feeOnRaw(uint256 _assets, uint256 _feeBps) private pure returns (uint256) {
+        return _assets.mulDiv(_feeBps, BPS_DENOMINATOR, Math.Rounding.Ceil);
+    }
+
+    // Fee part of an amount that already includes it
+    function _feeOnTotal(uint256 _assets, uint256 _feeBps) private pure returns (uint256) {
+        return _assets.mulDiv(_feeBps, _feeBps + BPS_DENOMINATOR, Math.Rounding.Ceil);
+    }
+}
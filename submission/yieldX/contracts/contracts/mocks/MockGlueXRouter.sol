@@ -0,0 +1,63 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+
+/**
+ * @title MockGlueXRouter
+ * @notice Swap router with a controllable exchange rate per token pair (tests only)
+ * @dev Output tokens are paid from the router's own balance, so tests must fund it
+ */
+contract MockGlueXRouter {
+    using SafeERC20 for IERC20;
+
+    uint256 public constant RATE_PRECISION = 1e18;
+
+    mapping(address => mapping(address => uint256)) public rates; // input => output => rate (1e18 = 1:1)
+    bool public shouldFail;
+
+    event Swapped(
+        address indexed caller,
+        address indexed inputToken,
+        address indexed outputToken,
+        uint256 amountIn,
+        uint256 amountOut
+    );
+
+    function setRate(address _inputToken, address _outputToken, uint256 _rate) external {
+        rates[_inputToken][_outputToken] = _rate;
+    }
+
+    function setShouldFail(bool _shouldFail) external {
+        shouldFail = _shouldFail;
+    }
+
+    function getAmountOut(
+        address _inputToken,
+        address _outputToken,
+        uint256 _amountIn
+    ) public view returns (uint256) {
+        return (_amountIn * rates[_inputToken][_outputToken]) / RATE_PRECISION;
+    }
+
+    /**
+     * @notice Pull `_amountIn` of the input token from the caller and send back the output token
+     */
+    function swap(
+        address _inputToken,
+        address _outputToken,
+        uint256 _amountIn,
+        uint256 _minAmountOut
+    ) external returns (uint256 amountOut) {
+        require(!shouldFail, "MockGlueXRouter: swap failed");
+
+        amountOut = getAmountOut(_inputToken, _outputToken, _amountIn);
+        require(amountOut >= _minAmountOut, "MockGlueXRouter: insufficient output");
+
+        IERC20(_inputToken).safeTransferFrom(msg.sender, address(this), _amountIn);
+        IERC20(_outputToken).safeTransfer(msg.sender, amountOut);
+
+        emit Swapped(msg.sender, _inputToken, _outputToken, _amountIn, amountOut);
+    }
+}
@@ -0,0 +1,22 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+
+/**
+ * @title MockWrappedNative
+ * @notice WETH-style wrapper for the native token (tests only)
+ */
+contract MockWrappedNative is ERC20 {
+    constructor() ERC20("Wrapped HYPE", "WHYPE") {}
+
+    function deposit() external payable {
+        _mint(msg.sender, msg.value);
+    }
+
+    function withdraw(uint256 _amount) external {
+        _burn(msg.sender, _amount);
+        (bool success, ) = msg.sender.call{value: _amount}("");
+        require(success, "Native transfer failed");
+    }
+}
@@ -0,0 +1,20 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+
+export default buildModule("YieldOptimizerModule", (m) => {
+  const treasury = m.getParameter("treasury", m.getAccount(0));
+  const timelockDelay = m.getParameter("timelockDelay", 2n * 24n * 60n * 60n);
+  const wrappedNative = m.getParameter(
+    "wrappedNative",
+    "0x5555555555555555555555555555555555555555"
+  );
+
+  const yieldOptimizer = m.contract("YieldOptimizer", [treasury, timelockDelay, wrappedNative]);
+
+  // ERC-721 position receipts, deployed by the optimizer's constructor
+  const positionReceipts = m.contractAt(
+    "YieldPositionReceipt",
+    m.staticCall(yieldOptimizer, "receipts")
+  );
+
+  return { yieldOptimizer, positionReceipts };
+});
@@ -41,6 +41,15 @@ async function main() {
   const treasury = process.env.TREASURY_ADDRESS || wallet.address;
   console.log("🏦 Treasury Address:", treasury);
 
+  // Delay before queued whitelist / fee changes can be executed (default 2 days)
+  const timelockDelay = parseInt(process.env.TIMELOCK_DELAY || "172800", 10);
+  console.log("⏱️  Timelock Delay:", timelockDelay, "seconds");
+
+  // Wrapped native token that native HYPE deposits are wrapped into (WHYPE)
+  const wrappedNative =
+    process.env.WRAPPED_NATIVE_ADDRESS || "0x5555555555555555555555555555555555555555";
+  console.log("🌯 Wrapped Native:", wrappedNative);
+
   // Read contract bytecode and ABI
   const artifactsPath = path.join(__dirname, "../artifacts/contracts/YieldOptimizer.sol/YieldOptimizer.json");
 
@@ -60,7 +69,7 @@ async function main() {
   const YieldOptimizerFactory = new ethers.ContractFactory(abi, bytecode, wallet);
 
   // Deploy contract (let ethers estimate gas automatically)
-  const yieldOptimizer = await YieldOptimizerFactory.deploy(treasury);
+  const yieldOptimizer = await YieldOptimizerFactory.deploy(treasury, timelockDelay, wrappedNative);
 
   console.log("⏳ Waiting for deployment transaction...");
   await yieldOptimizer.waitForDeployment();
@@ -68,6 +77,10 @@ async function main() {
   const contractAddress = await yieldOptimizer.getAddress();
   console.log("✅ Yield Optimizer deployed to:", contractAddress);
 
+  // The optimizer deploys the ERC-721 position receipt contract in its constructor
+  const positionReceipts = await new ethers.Contract(contractAddress, abi, wallet).receipts();
+  console.log("🎟️  Position receipts (ERC-721) at:", positionReceipts);
+
   // Get deployment transaction receipt
   const deploymentTx = yieldOptimizer.deploymentTransaction();
   if (deploymentTx) {
@@ -76,12 +89,26 @@ async function main() {
     console.log("⛽ Gas Used:", receipt?.gasUsed.toString());
   }
 
+  // Grant the keeper role to the backend hot wallet (it gets no other role)
+  const keeper = process.env.KEEPER_ADDRESS;
+  if (keeper) {
+    const optimizer = new ethers.Contract(contractAddress, abi, wallet);
+    const keeperRole = await optimizer.KEEPER_ROLE();
+    const grantTx = await optimizer.grantRole(keeperRole, keeper);
+    await grantTx.wait();
+    console.log("🔑 Granted KEEPER_ROLE to:", keeper);
+  }
+
   // Save deployment info
   const deploymentInfo = {
     contractAddress,
+    positionReceipts,
     network,
     deployer: wallet.address,
     treasury,
+    timelockDelay,
+    wrappedNative,
+    keeper: keeper || null,
     timestamp: new Date().toISOString(),
     transactionHash: deploymentTx?.hash,
     gluxVaults: [
@@ -111,8 +138,11 @@ async function main() {
   console.log("\n📝 Next steps:");
   console.log(`1. Set YIELD_OPTIMIZER_CONTRACT_ADDRESS=${contractAddress} in your .env file`);
   console.log("2. The contract has already whitelisted all GlueX vaults");
-  console.log("3. Whitelist GlueX Router addresses using addRouter() function");
-  console.log("4. Start the backend service to begin yield optimization");
+  console.log("3. Queue GlueX Router whitelisting with scripts/whitelist-yield-optimizer.ts (CURATOR_ROLE)");
+  console.log("   and run it again once the timelock delay has passed to execute the operations");
+  console.log("4. Grant KEEPER_ROLE to the backend wallet if KEEPER_ADDRESS was not set, and move");
+  console.log("   DEFAULT_ADMIN_ROLE / CURATOR_ROLE / GUARDIAN_ROLE to their own wallets");
+  console.log("5. Start the backend service to begin yield optimization");
 }
 
 main()
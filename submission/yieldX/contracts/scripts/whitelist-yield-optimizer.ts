@@ -5,6 +5,8 @@ dotenv.config();
 
 async function main() {
   console.log("🚀 Whitelisting GlueX Vaults and Routers for Yield Optimizer...\n");
+  console.log("   Whitelist changes go through the governance timelock: the first run queues");
+  console.log("   them, a run after the delay executes the ones that are ready.\n");
 
   // Get network configuration
   const rpcUrl =
@@ -43,33 +45,90 @@ async function main() {
 
   // Get Yield Optimizer ABI (minimal - just the functions we need)
   const optimizerABI = [
-    "function whitelistVault(address _vault, bool _enabled) external",
-    "function whitelistRouter(address _router, bool _enabled) external",
+    "function queueOperation(uint8 _action, address _target, uint256 _value) external returns (bytes32)",
+    "function executeOperation(bytes32 _id) external",
+    "function getPendingOperations() external view returns (bytes32[] ids, tuple(uint8 action, address target, uint256 value, uint256 executableAt)[] operations)",
+    "function timelockDelay() external view returns (uint256)",
     "function whitelistedVaults(address) external view returns (bool)",
     "function whitelistedRouters(address) external view returns (bool)",
   ];
 
+  // YieldOptimizer.GovernanceAction
+  const WHITELIST_VAULT = 0;
+  const WHITELIST_ROUTER = 1;
+
   const optimizer = new ethers.Contract(
     optimizerAddress,
     optimizerABI,
     wallet
   );
 
+  const timelockDelay = await optimizer.timelockDelay();
+  console.log("⏱️  Timelock Delay:", timelockDelay.toString(), "seconds");
+
+  // Execute queued operations whose delay has passed, and remember the rest
+  // so they are not queued a second time
+  const [pendingIds, pendingOperations] = await optimizer.getPendingOperations();
+  const latestBlock = await provider.getBlock("latest");
+  const now = BigInt(latestBlock?.timestamp ?? Math.floor(Date.now() / 1000));
+  const pendingTargets = new Set<string>();
+
+  for (let i = 0; i < pendingIds.length; i++) {
+    const operation = pendingOperations[i];
+    const action = Number(operation.action);
+    if (action !== WHITELIST_VAULT && action !== WHITELIST_ROUTER) {
+      continue;
+    }
+
+    if (operation.executableAt > now) {
+      pendingTargets.add(`${action}:${operation.target.toLowerCase()}`);
+      console.log(
+        `⏳ Operation ${pendingIds[i]} for ${operation.target} executable at ${new Date(
+          Number(operation.executableAt) * 1000
+        ).toISOString()}`
+      );
+      continue;
+    }
+
+    try {
+      console.log(`🔄 Executing operation ${pendingIds[i]} for ${operation.target}...`);
+      const tx = await optimizer.executeOperation(pendingIds[i]);
+      console.log(`   Transaction hash: ${tx.hash}`);
+      await tx.wait();
+      console.log(`✅ Operation for ${operation.target} executed`);
+    } catch (error) {
+      console.error(`❌ Failed to execute operation ${pendingIds[i]}:`, error);
+    }
+  }
+
+  // Queue a whitelisting unless it is already applied or waiting in the timelock
+  const queueWhitelisting = async (
+    action: number,
+    target: string,
+    isWhitelisted: boolean,
+    label: string
+  ) => {
+    if (isWhitelisted) {
+      console.log(`✅ ${label} ${target} is already whitelisted`);
+      return;
+    }
+    if (pendingTargets.has(`${action}:${target.toLowerCase()}`)) {
+      console.log(`⏳ ${label} ${target} is already queued`);
+      return;
+    }
+
+    console.log(`🔄 Queueing whitelisting for ${label.toLowerCase()}: ${target}...`);
+    const tx = await optimizer.queueOperation(action, target, 1);
+    console.log(`   Transaction hash: ${tx.hash}`);
+    await tx.wait();
+    console.log(`✅ ${label} ${target} queued, run this script again after the delay`);
+  };
+
   console.log("\n📦 Whitelisting GlueX Vaults...");
   for (const vault of GLUEX_VAULTS) {
     try {
-      // Check if already whitelisted
       const isWhitelisted = await optimizer.whitelistedVaults(vault);
-      if (isWhitelisted) {
-        console.log(`✅ Vault ${vault} is already whitelisted`);
-        continue;
-      }
-
-      console.log(`🔄 Whitelisting vault: ${vault}...`);
-      const tx = await optimizer.whitelistVault(vault, true);
-      console.log(`   Transaction hash: ${tx.hash}`);
-      await tx.wait();
-      console.log(`✅ Vault ${vault} whitelisted successfully`);
+      await queueWhitelisting(WHITELIST_VAULT, vault, isWhitelisted, "Vault");
     } catch (error) {
       console.error(`❌ Failed to whitelist vault ${vault}:`, error);
     }
@@ -102,18 +161,8 @@ async function main() {
     console.log("\n🔄 Whitelisting GlueX Routers...");
     for (const router of routerAddresses) {
       try {
-        // Check if already whitelisted
         const isWhitelisted = await optimizer.whitelistedRouters(router);
-        if (isWhitelisted) {
-          console.log(`✅ Router ${router} is already whitelisted`);
-          continue;
-        }
-
-        console.log(`🔄 Whitelisting router: ${router}...`);
-        const tx = await optimizer.whitelistRouter(router, true);
-        console.log(`   Transaction hash: ${tx.hash}`);
-        await tx.wait();
-        console.log(`✅ Router ${router} whitelisted successfully`);
+        await queueWhitelisting(WHITELIST_ROUTER, router, isWhitelisted, "Router");
       } catch (error) {
         console.error(`❌ Failed to whitelist router ${router}:`, error);
       }
@@ -122,8 +171,8 @@ async function main() {
 
   console.log("\n✅ Whitelisting complete!");
   console.log("\n📝 Summary:");
-  console.log(`   Whitelisted ${GLUEX_VAULTS.length} GlueX vaults`);
-  console.log(`   Whitelisted ${routerAddresses.length} router(s)`);
+  console.log(`   Processed ${GLUEX_VAULTS.length} GlueX vaults`);
+  console.log(`   Processed ${routerAddresses.length} router(s)`);
   console.log(
     "\n💡 Note: Router addresses are returned dynamically by GlueX Router API."
   );
@@ -0,0 +1,1405 @@
+import { expect } from "chai";
+import { network } from "hardhat";
+
+const { ethers, networkHelpers } = await network.connect();
+
+const ONE = 10n ** 18n;
+const DEPOSIT = 1_000n * ONE;
+const TIMELOCK_DELAY = 2n * 24n * 60n * 60n;
+const GRACE_PERIOD = 14n * 24n * 60n * 60n;
+
+// YieldOptimizer.GovernanceAction
+const Action = {
+  WhitelistVault: 0,
+  WhitelistRouter: 1,
+  AddGlueXVault: 2,
+  UpdateProtocolFee: 3,
+  SetTimelockDelay: 4,
+  SetVaultDepositCap: 5,
+} as const;
+
+describe("YieldOptimizer", function () {
+  async function deployFixture() {
+    const [owner, user, keeper, treasury, other, guardian, curator] = await ethers.getSigners();
+
+    const usdc = await ethers.deployContract("MockERC20", ["Mock USDC", "USDC", 18]);
+    const usdt = await ethers.deployContract("MockERC20", ["Mock USDT", "USDT", 18]);
+
+    const vaultA = await ethers.deployContract("MockERC4626", [usdc, "Vault A", "vA"]);
+    const vaultB = await ethers.deployContract("MockERC4626", [usdc, "Vault B", "vB"]);
+    const vaultC = await ethers.deployContract("MockERC4626", [usdt, "Vault C", "vC"]);
+    const router = await ethers.deployContract("MockGlueXRouter");
+    const whype = await ethers.deployContract("MockWrappedNative");
+
+    const optimizer = await ethers.deployContract("YieldOptimizer", [
+      treasury.address,
+      TIMELOCK_DELAY,
+      whype,
+    ]);
+
+    const setupIds: string[] = [];
+    for (const vault of [vaultA, vaultB, vaultC]) {
+      setupIds.push(await queue(optimizer, Action.WhitelistVault, await vault.getAddress(), 1n));
+    }
+    setupIds.push(await queue(optimizer, Action.WhitelistRouter, await router.getAddress(), 1n));
+    await networkHelpers.time.increase(TIMELOCK_DELAY);
+    for (const id of setupIds) {
+      await optimizer.executeOperation(id);
+    }
+
+    await optimizer.grantRole(await optimizer.KEEPER_ROLE(), keeper.address);
+    await optimizer.grantRole(await optimizer.GUARDIAN_ROLE(), guardian.address);
+    await optimizer.grantRole(await optimizer.CURATOR_ROLE(), curator.address);
+
+    // 1 USDC = 0.99 USDT, router holds enough USDT to pay out
+    await router.setRate(usdc, usdt, (ONE * 99n) / 100n);
+    await usdt.mint(router, 1_000_000n * ONE);
+
+    await usdc.mint(user.address, 10_000n * ONE);
+    await usdc.connect(user).approve(optimizer, ethers.MaxUint256);
+
+    return {
+      optimizer,
+      usdc,
+      usdt,
+      vaultA,
+      vaultB,
+      vaultC,
+      router,
+      whype,
+      owner,
+      user,
+      keeper,
+      treasury,
+      other,
+      guardian,
+      curator,
+    };
+  }
+
+  type Optimizer = Awaited<ReturnType<typeof deployFixture>>["optimizer"];
+
+  // The receipt NFT contract the optimizer deployed
+  async function receipts(optimizer: Optimizer) {
+    return ethers.getContractAt("YieldPositionReceipt", await optimizer.receipts());
+  }
+
+  // Queue a governance operation and return its id
+  async function queue(optimizer: Optimizer, action: number, target: string, value: bigint) {
+    const id = await optimizer.queueOperation.staticCall(action, target, value);
+    await optimizer.queueOperation(action, target, value);
+    return id;
+  }
+
+  // Queue a governance operation, wait out the timelock and execute it
+  async function govern(optimizer: Optimizer, action: number, target: string, value: bigint) {
+    const id = await queue(optimizer, action, target, value);
+    await networkHelpers.time.increase(TIMELOCK_DELAY);
+    await optimizer.executeOperation(id);
+  }
+
+  async function depositFixture() {
+    const fixture = await deployFixture();
+    await fixture.optimizer.connect(fixture.user).deposit(fixture.vaultA, DEPOSIT, 0n);
+    return fixture;
+  }
+
+  // OptimizeParams with no swaps
+  function directParams(targetVault: string, minSharesOut: bigint = 0n) {
+    return {
+      routers: [],
+      calldatas: [],
+      inputTokens: [],
+      outputTokens: [],
+      inputAmounts: [],
+      minOutputAmounts: [],
+      targetVault,
+      minSharesOut,
+      shares: 0n,
+    };
+  }
+
+  // Single USDC -> USDT swap into vault C
+  async function usdcToUsdtParams(
+    fixture: Awaited<ReturnType<typeof depositFixture>>,
+    { swapAmount = DEPOSIT, inputAmount = DEPOSIT, minOutputAmount = 0n } = {},
+  ) {
+    const { router, usdc, usdt, vaultC } = fixture;
+    return {
+      routers: [await router.getAddress()],
+      calldatas: [
+        router.interface.encodeFunctionData("swap", [
+          await usdc.getAddress(),
+          await usdt.getAddress(),
+          swapAmount,
+          0n,
+        ]),
+      ],
+      inputTokens: [await usdc.getAddress()],
+      outputTokens: [await usdt.getAddress()],
+      inputAmounts: [inputAmount],
+      minOutputAmounts: [minOutputAmount],
+      targetVault: await vaultC.getAddress(),
+      minSharesOut: 0n,
+      shares: 0n,
+    };
+  }
+
+  describe("deposit", function () {
+    it("Should open a position and hold the vault shares", async function () {
+      const { optimizer, usdc, vaultA, user } = await networkHelpers.loadFixture(deployFixture);
+
+      await expect(optimizer.connect(user).deposit(vaultA, DEPOSIT, DEPOSIT))
+        .to.emit(optimizer, "PositionOpened")
+        .withArgs(user.address, await vaultA.getAddress(), await usdc.getAddress(), DEPOSIT, DEPOSIT, 1n);
+
+      const [position] = await optimizer.getUserPositions(user.address);
+      expect(position.vault).to.equal(await vaultA.getAddress());
+      expect(position.asset).to.equal(await usdc.getAddress());
+      expect(position.shares).to.equal(DEPOSIT);
+      expect(position.assets).to.equal(DEPOSIT);
+      expect(position.active).to.equal(true);
+      expect(await vaultA.balanceOf(optimizer)).to.equal(DEPOSIT);
+      expect(await optimizer.getUserPositionCount(user.address)).to.equal(1n);
+      expect(await optimizer.getUserPositionIds(user.address)).to.deep.equal([1n]);
+      expect(await (await receipts(optimizer)).ownerOf(1n)).to.equal(user.address);
+    });
+
+    it("Should revert for a vault that is not whitelisted", async function () {
+      const { optimizer, usdc, user } = await networkHelpers.loadFixture(deployFixture);
+      const rogueVault = await ethers.deployContract("MockERC4626", [usdc, "Rogue", "R"]);
+
+      await expect(
+        optimizer.connect(user).deposit(rogueVault, DEPOSIT, 0n),
+      ).to.be.revertedWith("Vault not whitelisted");
+    });
+
+    it("Should revert for a zero amount", async function () {
+      const { optimizer, vaultA, user } = await networkHelpers.loadFixture(deployFixture);
+
+      await expect(optimizer.connect(user).deposit(vaultA, 0n, 0n)).to.be.revertedWith(
+        "Invalid amount",
+      );
+    });
+
+    it("Should revert when the vault entry fee leaves too few shares", async function () {
+      const { optimizer, vaultA, user } = await networkHelpers.loadFixture(deployFixture);
+      await vaultA.setFees(100n, 0n); // 1% entry fee
+
+      await expect(
+        optimizer.connect(user).deposit(vaultA, DEPOSIT, DEPOSIT),
+      ).to.be.revertedWith("Insufficient shares");
+    });
+
+    it("Should revert when the vault deposit cap is exceeded", async function () {
+      const { optimizer, vaultA, user } = await networkHelpers.loadFixture(deployFixture);
+      await vaultA.setDepositCap(DEPOSIT / 2n);
+
+      await expect(
+        optimizer.connect(user).deposit(vaultA, DEPOSIT, 0n),
+      ).to.be.revertedWithCustomError(vaultA, "ERC4626ExceededMaxDeposit");
+    });
+  });
+
+  describe("depositWithSwap", function () {
+    it("Should swap the input token into the vault asset and open a position", async function () {
+      const { optimizer, usdc, usdt, vaultC, router, user } = await networkHelpers.loadFixture(deployFixture);
+
+      const expectedOut = (DEPOSIT * 99n) / 100n;
+      const params = {
+        ...directParams(await vaultC.getAddress(), expectedOut),
+        routers: [await router.getAddress()],
+        calldatas: [
+          router.interface.encodeFunctionData("swap", [
+            await usdc.getAddress(),
+            await usdt.getAddress(),
+            DEPOSIT,
+            expectedOut,
+          ]),
+        ],
+        inputTokens: [await usdc.getAddress()],
+        outputTokens: [await usdt.getAddress()],
+        inputAmounts: [DEPOSIT],
+        minOutputAmounts: [expectedOut],
+      };
+
+      await expect(optimizer.connect(user).depositWithSwap(usdc, DEPOSIT, params))
+        .to.emit(optimizer, "PositionOpened")
+        .withArgs(user.address, await vaultC.getAddress(), await usdt.getAddress(), expectedOut, expectedOut, 1n);
+
+      const [position] = await optimizer.getUserPositions(user.address);
+      expect(position.asset).to.equal(await usdt.getAddress());
+      expect(position.costBasis).to.equal(expectedOut);
+      expect(await usdc.balanceOf(optimizer)).to.equal(0n);
+    });
+
+    it("Should wrap native HYPE for a vault of the wrapped token", async function () {
+      const { optimizer, whype, user } = await networkHelpers.loadFixture(deployFixture);
+
+      const vaultW = await ethers.deployContract("MockERC4626", [whype, "Vault W", "vW"]);
+      await govern(optimizer, Action.WhitelistVault, await vaultW.getAddress(), 1n);
+
+      await optimizer
+        .connect(user)
+        .depositWithSwap(ethers.ZeroAddress, DEPOSIT, directParams(await vaultW.getAddress()), { value: DEPOSIT });
+
+      const [position] = await optimizer.getUserPositions(user.address);
+      expect(position.vault).to.equal(await vaultW.getAddress());
+      expect(position.shares).to.equal(DEPOSIT);
+      expect(await whype.balanceOf(vaultW)).to.equal(DEPOSIT);
+    });
+
+    it("Should reject native HYPE that does not match the amount or goes to deposit", async function () {
+      const { optimizer, whype, vaultA, user } = await networkHelpers.loadFixture(deployFixture);
+
+      await expect(
+        optimizer
+          .connect(user)
+          .depositWithSwap(ethers.ZeroAddress, DEPOSIT, directParams(await vaultA.getAddress()), { value: 1n }),
+      ).to.be.revertedWith("Invalid native amount");
+      await expect(optimizer.connect(user).deposit(vaultA, DEPOSIT, 0n, { value: 1n })).to.be.revertedWith(
+        "ETH not accepted, use depositWithSwap",
+      );
+      expect(await whype.balanceOf(optimizer)).to.equal(0n);
+    });
+  });
+
+  describe("withdraw", function () {
+    it("Should redeem shares to the user and close the position", async function () {
+      const { optimizer, usdc, vaultA, user } = await networkHelpers.loadFixture(depositFixture);
+      const balanceBefore = await usdc.balanceOf(user.address);
+
+      await expect(optimizer.connect(user).withdraw(1n, DEPOSIT, DEPOSIT))
+        .to.emit(optimizer, "PositionClosed")
+        .withArgs(user.address, await vaultA.getAddress(), DEPOSIT, DEPOSIT, 1n);
+
+      const position = await optimizer.positions(1n);
+      expect(position.shares).to.equal(0n);
+      expect(position.active).to.equal(false);
+      expect(await optimizer.getUserPositionCount(user.address)).to.equal(0n);
+      const receipt = await receipts(optimizer);
+      await expect(receipt.ownerOf(1n)).to.be.revertedWithCustomError(receipt, "ERC721NonexistentToken");
+      expect(await usdc.balanceOf(user.address)).to.equal(balanceBefore + DEPOSIT);
+    });
+
+    it("Should keep a partially withdrawn position active", async function () {
+      const { optimizer, user } = await networkHelpers.loadFixture(depositFixture);
+
+      await optimizer.connect(user).withdraw(1n, DEPOSIT / 4n, 0n);
+
+      const [position] = await optimizer.getUserPositions(user.address);
+      expect(position.shares).to.equal((DEPOSIT * 3n) / 4n);
+      expect(position.active).to.equal(true);
+    });
+
+    it("Should revert when the vault lost value below minAssetsOut", async function () {
+      const { optimizer, vaultA, user } = await networkHelpers.loadFixture(depositFixture);
+      await vaultA.simulateLoss(DEPOSIT / 10n);
+
+      await expect(
+        optimizer.connect(user).withdraw(1n, DEPOSIT, DEPOSIT),
+      ).to.be.revertedWith("Insufficient assets");
+    });
+
+    it("Should revert for more shares than the position holds", async function () {
+      const { optimizer, user } = await networkHelpers.loadFixture(depositFixture);
+
+      await expect(
+        optimizer.connect(user).withdraw(1n, DEPOSIT + 1n, 0n),
+      ).to.be.revertedWith("Invalid shares");
+    });
+
+    it("Should revert for an unknown position or one the caller does not hold", async function () {
+      const { optimizer, user, other } = await networkHelpers.loadFixture(depositFixture);
+
+      await expect(optimizer.connect(user).withdraw(2n, 1n, 0n)).to.be.revertedWith(
+        "Invalid position",
+      );
+      await expect(optimizer.connect(other).withdraw(1n, 1n, 0n)).to.be.revertedWith(
+        "Not position owner",
+      );
+    });
+
+    it("Should send the performance fee on yield to the treasury", async function () {
+      const { optimizer, usdc, vaultA, user, treasury } =
+        await networkHelpers.loadFixture(depositFixture);
+      await govern(optimizer, Action.UpdateProtocolFee, ethers.ZeroAddress, 100n); // 1%
+      await usdc.mint(vaultA, 100n * ONE); // 10% yield
+
+      await expect(optimizer.connect(user).withdraw(1n, DEPOSIT, 0n)).to.emit(
+        optimizer,
+        "FeeCharged",
+      );
+
+      // 1% of ~100 USDC of yield, minus vault rounding
+      const feeAssets = await usdc.balanceOf(treasury.address);
+      expect(feeAssets).to.be.closeTo(ONE, ONE / 1000n);
+    });
+  });
+
+  describe("withdrawWithSwap", function () {
+    it("Should redeem the position and send the swapped token to the user", async function () {
+      const fixture = await networkHelpers.loadFixture(depositFixture);
+      const { optimizer, usdc, usdt, vaultA, user } = fixture;
+      const expectedOut = (DEPOSIT * 99n) / 100n;
+      const params = await usdcToUsdtParams(fixture, { minOutputAmount: expectedOut });
+
+      await expect(optimizer.connect(user).withdrawWithSwap(1n, DEPOSIT, usdt, expectedOut, params))
+        .to.emit(optimizer, "PositionClosed")
+        .withArgs(user.address, await vaultA.getAddress(), DEPOSIT, DEPOSIT, 1n);
+
+      expect(await optimizer.getUserPositionCount(user.address)).to.equal(0n);
+      expect(await usdt.balanceOf(user.address)).to.equal(expectedOut);
+      expect(await usdc.balanceOf(optimizer)).to.equal(0n);
+      expect(await usdt.balanceOf(optimizer)).to.equal(0n);
+    });
+
+    it("Should unwrap to native HYPE", async function () {
+      const { optimizer, whype, user } = await networkHelpers.loadFixture(deployFixture);
+      const vaultW = await ethers.deployContract("MockERC4626", [whype, "Vault W", "vW"]);
+      await govern(optimizer, Action.WhitelistVault, await vaultW.getAddress(), 1n);
+      await optimizer
+        .connect(user)
+        .depositWithSwap(ethers.ZeroAddress, DEPOSIT, directParams(await vaultW.getAddress()), { value: DEPOSIT });
+      const balanceBefore = await ethers.provider.getBalance(user.address);
+
+      const tx = await optimizer
+        .connect(user)
+        .withdrawWithSwap(1n, DEPOSIT, ethers.ZeroAddress, DEPOSIT, directParams(ethers.ZeroAddress));
+      const receipt = await tx.wait();
+      const gasCost = receipt!.gasUsed * receipt!.gasPrice;
+
+      expect(await ethers.provider.getBalance(user.address)).to.equal(balanceBefore + DEPOSIT - gasCost);
+      expect(await whype.balanceOf(optimizer)).to.equal(0n);
+      expect(await ethers.provider.getBalance(optimizer)).to.equal(0n);
+    });
+
+    it("Should revert below the minimum output and refuse stray native HYPE", async function () {
+      const fixture = await networkHelpers.loadFixture(depositFixture);
+      const { optimizer, usdt, user } = fixture;
+      const params = await usdcToUsdtParams(fixture);
+
+      await expect(
+        optimizer.connect(user).withdrawWithSwap(1n, DEPOSIT, usdt, DEPOSIT, params),
+      ).to.be.revertedWith("Insufficient output");
+      await expect(
+        user.sendTransaction({ to: await optimizer.getAddress(), value: 1n }),
+      ).to.be.revertedWith("ETH not accepted");
+    });
+  });
+
+  describe("signed requests", function () {
+    const DepositRequest = [
+      { name: "user", type: "address" },
+      { name: "vault", type: "address" },
+      { name: "amount", type: "uint256" },
+      { name: "minSharesOut", type: "uint256" },
+      { name: "nonce", type: "uint256" },
+      { name: "deadline", type: "uint256" },
+    ];
+    const WithdrawRequest = [
+      { name: "user", type: "address" },
+      { name: "positionId", type: "uint256" },
+      { name: "shares", type: "uint256" },
+      { name: "minAssetsOut", type: "uint256" },
+      { name: "nonce", type: "uint256" },
+      { name: "deadline", type: "uint256" },
+    ];
+
+    async function domain(optimizer: Optimizer) {
+      const { chainId } = await ethers.provider.getNetwork();
+      return { name: "YieldOptimizer", version: "1", chainId, verifyingContract: await optimizer.getAddress() };
+    }
+
+    it("Should deposit with a permit for a user who never sends a transaction", async function () {
+      const { optimizer, usdc, vaultA, other } = await networkHelpers.loadFixture(deployFixture);
+      const signer = ethers.Wallet.createRandom();
+      await usdc.mint(signer.address, DEPOSIT);
+      const deadline = BigInt(await networkHelpers.time.latest()) + 3600n;
+
+      const { chainId } = await ethers.provider.getNetwork();
+      const permit = ethers.Signature.from(
+        await signer.signTypedData(
+          { name: "Mock USDC", version: "1", chainId, verifyingContract: await usdc.getAddress() },
+          {
+            Permit: [
+              { name: "owner", type: "address" },
+              { name: "spender", type: "address" },
+              { name: "value", type: "uint256" },
+              { name: "nonce", type: "uint256" },
+              { name: "deadline", type: "uint256" },
+            ],
+          },
+          { owner: signer.address, spender: await optimizer.getAddress(), value: DEPOSIT, nonce: 0n, deadline },
+        ),
+      );
+      const request = {
+        user: signer.address,
+        vault: await vaultA.getAddress(),
+        amount: DEPOSIT,
+        minSharesOut: DEPOSIT,
+        nonce: 0n,
+        deadline,
+      };
+      const signature = await signer.signTypedData(await domain(optimizer), { DepositRequest }, request);
+
+      await expect(
+        optimizer.connect(other).depositBySig(request, signature, permit.v, permit.r, permit.s),
+      )
+        .to.emit(optimizer, "PositionOpened")
+        .withArgs(signer.address, await vaultA.getAddress(), await usdc.getAddress(), DEPOSIT, DEPOSIT, 1n);
+
+      const [position] = await optimizer.getUserPositions(signer.address);
+      expect(position.shares).to.equal(DEPOSIT);
+      expect(await optimizer.nonces(signer.address)).to.equal(1n);
+      expect(await optimizer.getUserPositionCount(other.address)).to.equal(0n);
+    });
+
+    it("Should withdraw to the signer and reject a replayed request", async function () {
+      const { optimizer, usdc, user, other } = await networkHelpers.loadFixture(depositFixture);
+      const balanceBefore = await usdc.balanceOf(user.address);
+      const request = {
+        user: user.address,
+        positionId: 1n,
+        shares: DEPOSIT,
+        minAssetsOut: DEPOSIT,
+        nonce: 0n,
+        deadline: BigInt(await networkHelpers.time.latest()) + 3600n,
+      };
+      const signature = await user.signTypedData(await domain(optimizer), { WithdrawRequest }, request);
+
+      await optimizer.connect(other).withdrawBySig(request, signature);
+
+      expect(await usdc.balanceOf(user.address)).to.equal(balanceBefore + DEPOSIT);
+      expect(await usdc.balanceOf(other.address)).to.equal(0n);
+      await expect(
+        optimizer.connect(other).withdrawBySig(request, signature),
+      ).to.be.revertedWithCustomError(optimizer, "InvalidAccountNonce");
+    });
+
+    it("Should reject requests signed by someone else or past their deadline", async function () {
+      const { optimizer, user, other } = await networkHelpers.loadFixture(depositFixture);
+      const request = {
+        user: user.address,
+        positionId: 1n,
+        shares: DEPOSIT,
+        minAssetsOut: 0n,
+        nonce: 0n,
+        deadline: BigInt(await networkHelpers.time.latest()) + 3600n,
+      };
+      const forged = await other.signTypedData(await domain(optimizer), { WithdrawRequest }, request);
+
+      await expect(optimizer.connect(other).withdrawBySig(request, forged)).to.be.revertedWith(
+        "Invalid signature",
+      );
+
+      const signature = await user.signTypedData(await domain(optimizer), { WithdrawRequest }, request);
+      await networkHelpers.time.increase(3601n);
+      await expect(optimizer.connect(other).withdrawBySig(request, signature)).to.be.revertedWith(
+        "Request expired",
+      );
+    });
+  });
+
+  describe("getPositionValues", function () {
+    it("Should report live value and accrued yield against the cost basis", async function () {
+      const { optimizer, usdc, vaultA, user } = await networkHelpers.loadFixture(depositFixture);
+      await usdc.mint(vaultA, 100n * ONE); // 10% yield
+
+      const [value] = await optimizer.getPositionValues(user.address);
+      expect(value.id).to.equal(1n);
+      expect(value.costBasis).to.equal(DEPOSIT);
+      expect(value.currentAssets).to.be.closeTo(1_100n * ONE, ONE / 1000n);
+      expect(value.accruedYield).to.equal(value.currentAssets - DEPOSIT);
+      expect(value.maxWithdraw).to.equal(await vaultA.previewRedeem(DEPOSIT));
+
+      // The stored checkpoint is not updated until the next interaction
+      const [position] = await optimizer.getUserPositions(user.address);
+      expect(position.assets).to.equal(DEPOSIT);
+    });
+
+    it("Should report no yield after a vault loss", async function () {
+      const { optimizer, vaultA, user } = await networkHelpers.loadFixture(depositFixture);
+      await vaultA.simulateLoss(DEPOSIT / 10n);
+
+      const [value] = await optimizer.getPositionValues(user.address);
+      expect(value.currentAssets).to.be.closeTo((DEPOSIT * 9n) / 10n, ONE / 1000n);
+      expect(value.accruedYield).to.equal(0n);
+    });
+
+    it("Should net vault exit fees out of maxWithdraw", async function () {
+      const { optimizer, vaultA, user } = await networkHelpers.loadFixture(depositFixture);
+      await vaultA.setFees(0n, 100n); // 1% exit fee
+
+      const [value] = await optimizer.getPositionValues(user.address);
+      expect(value.currentAssets).to.equal(DEPOSIT);
+      expect(value.maxWithdraw).to.be.lessThan(DEPOSIT);
+    });
+
+    it("Should reduce the cost basis pro rata on withdraw", async function () {
+      const { optimizer, user } = await networkHelpers.loadFixture(depositFixture);
+
+      await optimizer.connect(user).withdraw(1n, DEPOSIT / 4n, 0n);
+
+      const [value] = await optimizer.getPositionValues(user.address);
+      expect(value.costBasis).to.equal((DEPOSIT * 3n) / 4n);
+    });
+
+    it("Should leave closed positions out", async function () {
+      const { optimizer, user } = await networkHelpers.loadFixture(depositFixture);
+
+      await optimizer.connect(user).withdraw(1n, DEPOSIT, 0n);
+
+      expect(await optimizer.getPositionValues(user.address)).to.have.length(0);
+      expect(await optimizer.getUserPositions(user.address)).to.have.length(0);
+    });
+  });
+
+  describe("optimizePosition", function () {
+    it("Should move a position to another vault of the same asset", async function () {
+      const { optimizer, vaultA, vaultB, user } = await networkHelpers.loadFixture(depositFixture);
+
+      await expect(
+        optimizer.connect(user).optimizePosition(1n, directParams(await vaultB.getAddress(), DEPOSIT)),
+      )
+        .to.emit(optimizer, "PositionOptimized")
+        .withArgs(
+          user.address,
+          await vaultA.getAddress(),
+          await vaultB.getAddress(),
+          DEPOSIT,
+          DEPOSIT,
+          1n,
+          1n,
+        );
+
+      const [position] = await optimizer.getUserPositions(user.address);
+      expect(position.vault).to.equal(await vaultB.getAddress());
+      expect(position.shares).to.equal(DEPOSIT);
+      expect(await vaultA.balanceOf(optimizer)).to.equal(0n);
+      expect(await vaultB.balanceOf(optimizer)).to.equal(DEPOSIT);
+    });
+
+    it("Should move part of a position into a new position", async function () {
+      const { optimizer, vaultA, vaultB, user } = await networkHelpers.loadFixture(depositFixture);
+
+      const params = { ...directParams(await vaultB.getAddress()), shares: DEPOSIT / 4n };
+      await expect(optimizer.connect(user).optimizePosition(1n, params))
+        .to.emit(optimizer, "PositionOptimized")
+        .withArgs(
+          user.address,
+          await vaultA.getAddress(),
+          await vaultB.getAddress(),
+          DEPOSIT / 4n,
+          DEPOSIT / 4n,
+          1n,
+          2n,
+        );
+
+      expect(await optimizer.getUserPositionIds(user.address)).to.deep.equal([1n, 2n]);
+      const [rest, moved] = await optimizer.getUserPositions(user.address);
+      expect(rest.vault).to.equal(await vaultA.getAddress());
+      expect(rest.shares).to.equal((DEPOSIT * 3n) / 4n);
+      expect(rest.costBasis).to.equal((DEPOSIT * 3n) / 4n);
+      expect(moved.vault).to.equal(await vaultB.getAddress());
+      expect(moved.shares).to.equal(DEPOSIT / 4n);
+      expect(moved.costBasis).to.equal(DEPOSIT / 4n);
+      expect(moved.active).to.equal(true);
+    });
+
+    it("Should revert when moving more shares than the position holds", async function () {
+      const { optimizer, vaultB, user } = await networkHelpers.loadFixture(depositFixture);
+
+      const params = { ...directParams(await vaultB.getAddress()), shares: DEPOSIT + 1n };
+      await expect(optimizer.connect(user).optimizePosition(1n, params)).to.be.revertedWith(
+        "Invalid shares",
+      );
+    });
+
+    it("Should split a position over several legs in one transaction", async function () {
+      const { optimizer, usdc, vaultA, vaultB, user } = await networkHelpers.loadFixture(depositFixture);
+
+      // A second vault of the same asset, so the legs go to different vaults
+      const vaultD = await ethers.deployContract("MockERC4626", [usdc, "Vault D", "vD"]);
+      await govern(optimizer, Action.WhitelistVault, await vaultD.getAddress(), 1n);
+
+      const legs = [
+        { ...directParams(await vaultB.getAddress()), shares: DEPOSIT / 4n },
+        { ...directParams(await vaultD.getAddress()), shares: DEPOSIT / 2n },
+      ];
+      await optimizer.connect(user).optimizePositionSplit(1n, legs);
+
+      const positions = await optimizer.getUserPositions(user.address);
+      expect(positions.map((position) => position.vault)).to.deep.equal([
+        await vaultA.getAddress(),
+        await vaultB.getAddress(),
+        await vaultD.getAddress(),
+      ]);
+      expect(positions.map((position) => position.shares)).to.deep.equal([
+        DEPOSIT / 4n,
+        DEPOSIT / 4n,
+        DEPOSIT / 2n,
+      ]);
+      expect(await vaultA.balanceOf(optimizer)).to.equal(DEPOSIT / 4n);
+    });
+
+    it("Should move the rest of a split with a final whole-position leg", async function () {
+      const { optimizer, vaultA, vaultB, user } = await networkHelpers.loadFixture(depositFixture);
+
+      const legs = [
+        { ...directParams(await vaultB.getAddress()), shares: DEPOSIT / 4n },
+        directParams(await vaultB.getAddress()),
+      ];
+      await optimizer.connect(user).optimizePositionSplit(1n, legs);
+
+      const [rest, moved] = await optimizer.getUserPositions(user.address);
+      expect(rest.vault).to.equal(await vaultB.getAddress());
+      expect(rest.shares).to.equal((DEPOSIT * 3n) / 4n);
+      expect(moved.shares).to.equal(DEPOSIT / 4n);
+      expect(await vaultA.balanceOf(optimizer)).to.equal(0n);
+
+      // No leg may follow one that moved the whole position
+      await optimizer.connect(user).deposit(vaultA, DEPOSIT, 0n);
+      const invalidLegs = [
+        directParams(await vaultB.getAddress()),
+        { ...directParams(await vaultB.getAddress()), shares: 1n },
+      ];
+      await expect(optimizer.connect(user).optimizePositionSplit(3n, invalidLegs)).to.be.revertedWith(
+        "Position already moved",
+      );
+    });
+
+    it("Should swap through the router when the target vault uses another asset", async function () {
+      const { optimizer, usdc, usdt, vaultC, router, user } =
+        await networkHelpers.loadFixture(depositFixture);
+      const expectedOut = (DEPOSIT * 99n) / 100n;
+
+      const params = {
+        routers: [await router.getAddress()],
+        calldatas: [
+          router.interface.encodeFunctionData("swap", [
+            await usdc.getAddress(),
+            await usdt.getAddress(),
+            DEPOSIT,
+            expectedOut,
+          ]),
+        ],
+        inputTokens: [await usdc.getAddress()],
+        outputTokens: [await usdt.getAddress()],
+        inputAmounts: [DEPOSIT],
+        minOutputAmounts: [expectedOut],
+        targetVault: await vaultC.getAddress(),
+        minSharesOut: expectedOut,
+        shares: 0n,
+      };
+
+      await expect(optimizer.connect(user).optimizePosition(1n, params))
+        .to.emit(router, "Swapped")
+        .withArgs(
+          await optimizer.getAddress(),
+          await usdc.getAddress(),
+          await usdt.getAddress(),
+          DEPOSIT,
+          expectedOut,
+        );
+
+      const [position] = await optimizer.getUserPositions(user.address);
+      expect(position.vault).to.equal(await vaultC.getAddress());
+      expect(position.asset).to.equal(await usdt.getAddress());
+      expect(position.shares).to.equal(expectedOut);
+      expect(position.assets).to.equal(expectedOut);
+      expect(position.costBasis).to.equal(expectedOut); // restarted in the new asset
+    });
+
+    it("Should revert when the swap output is below minSharesOut", async function () {
+      const { optimizer, usdc, usdt, vaultC, router, user } =
+        await networkHelpers.loadFixture(depositFixture);
+
+      const params = {
+        routers: [await router.getAddress()],
+        calldatas: [
+          router.interface.encodeFunctionData("swap", [
+            await usdc.getAddress(),
+            await usdt.getAddress(),
+            DEPOSIT,
+            0n,
+          ]),
+        ],
+        inputTokens: [await usdc.getAddress()],
+        outputTokens: [await usdt.getAddress()],
+        inputAmounts: [DEPOSIT],
+        minOutputAmounts: [0n],
+        targetVault: await vaultC.getAddress(),
+        minSharesOut: DEPOSIT, // expects 1:1 but the router pays 0.99
+        shares: 0n,
+      };
+
+      await expect(optimizer.connect(user).optimizePosition(1n, params)).to.be.revertedWith(
+        "Insufficient shares",
+      );
+    });
+
+    it("Should revert when the router call fails", async function () {
+      const { optimizer, usdc, usdt, vaultC, router, user } =
+        await networkHelpers.loadFixture(depositFixture);
+      await router.setShouldFail(true);
+
+      const params = {
+        routers: [await router.getAddress()],
+        calldatas: [
+          router.interface.encodeFunctionData("swap", [
+            await usdc.getAddress(),
+            await usdt.getAddress(),
+            DEPOSIT,
+            0n,
+          ]),
+        ],
+        inputTokens: [await usdc.getAddress()],
+        outputTokens: [await usdt.getAddress()],
+        inputAmounts: [DEPOSIT],
+        minOutputAmounts: [0n],
+        targetVault: await vaultC.getAddress(),
+        minSharesOut: 0n,
+        shares: 0n,
+      };
+
+      await expect(optimizer.connect(user).optimizePosition(1n, params)).to.be.revertedWith(
+        "Swap failed",
+      );
+    });
+
+    it("Should revert when swap arrays have different lengths", async function () {
+      const { optimizer, usdc, usdt, vaultC, router, user } =
+        await networkHelpers.loadFixture(depositFixture);
+
+      const params = {
+        routers: [await router.getAddress()],
+        calldatas: [],
+        inputTokens: [await usdc.getAddress()],
+        outputTokens: [await usdt.getAddress()],
+        inputAmounts: [DEPOSIT],
+        minOutputAmounts: [0n],
+        targetVault: await vaultC.getAddress(),
+        minSharesOut: 0n,
+        shares: 0n,
+      };
+
+      await expect(optimizer.connect(user).optimizePosition(1n, params)).to.be.revertedWith(
+        "Array length mismatch",
+      );
+    });
+
+    it("Should revert for a router that is not whitelisted", async function () {
+      const { optimizer, usdc, usdt, vaultC, router, user } =
+        await networkHelpers.loadFixture(depositFixture);
+      await govern(optimizer, Action.WhitelistRouter, await router.getAddress(), 0n);
+
+      const params = {
+        routers: [await router.getAddress()],
+        calldatas: ["0x"],
+        inputTokens: [await usdc.getAddress()],
+        outputTokens: [await usdt.getAddress()],
+        inputAmounts: [DEPOSIT],
+        minOutputAmounts: [0n],
+        targetVault: await vaultC.getAddress(),
+        minSharesOut: 0n,
+        shares: 0n,
+      };
+
+      await expect(optimizer.connect(user).optimizePosition(1n, params)).to.be.revertedWith(
+        "Router not whitelisted",
+      );
+    });
+
+    it("Should revert for a target vault that is not whitelisted", async function () {
+      const { optimizer, vaultB, user } = await networkHelpers.loadFixture(depositFixture);
+      await govern(optimizer, Action.WhitelistVault, await vaultB.getAddress(), 0n);
+
+      await expect(
+        optimizer.connect(user).optimizePosition(1n, directParams(await vaultB.getAddress())),
+      ).to.be.revertedWith("Target vault not whitelisted");
+    });
+
+    it("Should revert when the target vault entry fee breaks minSharesOut", async function () {
+      const { optimizer, vaultB, user } = await networkHelpers.loadFixture(depositFixture);
+      await vaultB.setFees(50n, 0n); // 0.5% entry fee
+
+      await expect(
+        optimizer.connect(user).optimizePosition(1n, directParams(await vaultB.getAddress(), DEPOSIT)),
+      ).to.be.revertedWith("Insufficient shares");
+    });
+  });
+
+  describe("balance-delta accounting", function () {
+    it("Should not credit idle tokens held by the contract to the optimizer", async function () {
+      const { optimizer, usdc, vaultB, user, other } =
+        await networkHelpers.loadFixture(depositFixture);
+      await usdc.mint(other.address, 500n * ONE);
+      await usdc.connect(other).transfer(optimizer, 500n * ONE); // donation / stray funds
+
+      await optimizer.connect(user).optimizePosition(1n, directParams(await vaultB.getAddress()));
+
+      const [position] = await optimizer.getUserPositions(user.address);
+      expect(position.shares).to.equal(DEPOSIT);
+      expect(position.assets).to.equal(DEPOSIT);
+      expect(await usdc.balanceOf(optimizer)).to.equal(500n * ONE);
+    });
+
+    it("Should not let a swap spend more than the position redeemed", async function () {
+      const fixture = await networkHelpers.loadFixture(depositFixture);
+      const { optimizer, usdc, user } = fixture;
+      await usdc.mint(optimizer, 500n * ONE);
+
+      const params = await usdcToUsdtParams(fixture, {
+        swapAmount: DEPOSIT + 500n * ONE,
+        inputAmount: DEPOSIT + 500n * ONE,
+      });
+
+      await expect(optimizer.connect(user).optimizePosition(1n, params)).to.be.revertedWith(
+        "Insufficient swap input",
+      );
+      expect(await usdc.balanceOf(optimizer)).to.equal(500n * ONE);
+    });
+
+    it("Should revert when a swap returns less than its minimum output", async function () {
+      const fixture = await networkHelpers.loadFixture(depositFixture);
+
+      const params = await usdcToUsdtParams(fixture, { minOutputAmount: DEPOSIT });
+
+      await expect(
+        fixture.optimizer.connect(fixture.user).optimizePosition(1n, params),
+      ).to.be.revertedWith("Insufficient swap output");
+    });
+
+    it("Should refund unswapped input to the user", async function () {
+      const fixture = await networkHelpers.loadFixture(depositFixture);
+      const { optimizer, usdc, user } = fixture;
+      const balanceBefore = await usdc.balanceOf(user.address);
+
+      // The router only pulls 600 of the 1000 USDC the swap was allowed to use
+      const params = await usdcToUsdtParams(fixture, { swapAmount: 600n * ONE });
+
+      await expect(optimizer.connect(user).optimizePosition(1n, params))
+        .to.emit(optimizer, "DustRefunded")
+        .withArgs(user.address, await usdc.getAddress(), 400n * ONE);
+
+      const [position] = await optimizer.getUserPositions(user.address);
+      expect(position.assets).to.equal((600n * ONE * 99n) / 100n);
+      expect(await usdc.balanceOf(user.address)).to.equal(balanceBefore + 400n * ONE);
+      expect(await usdc.balanceOf(optimizer)).to.equal(0n);
+    });
+
+    it("Should reset the router allowance after each swap", async function () {
+      const fixture = await networkHelpers.loadFixture(depositFixture);
+      const { optimizer, usdc, router, user } = fixture;
+
+      const params = await usdcToUsdtParams(fixture, { swapAmount: 600n * ONE });
+      await optimizer.connect(user).optimizePosition(1n, params);
+
+      expect(await usdc.allowance(optimizer, router)).to.equal(0n);
+    });
+  });
+
+  describe("optimizePositionFor", function () {
+    it("Should let an authorized keeper optimize a user's position", async function () {
+      const { optimizer, vaultB, user, keeper } = await networkHelpers.loadFixture(depositFixture);
+
+      await expect(optimizer.connect(user).setKeeperAuthorization(keeper.address, true, 100n))
+        .to.emit(optimizer, "KeeperAuthorized")
+        .withArgs(user.address, keeper.address, true, 100n);
+      expect(await optimizer.keeperMaxSlippageBps(user.address, keeper.address)).to.equal(100n);
+
+      await optimizer
+        .connect(keeper)
+        .optimizePositionFor(1n, directParams(await vaultB.getAddress()));
+
+      const [position] = await optimizer.getUserPositions(user.address);
+      expect(position.vault).to.equal(await vaultB.getAddress());
+    });
+
+    it("Should revert for a keeper the user did not authorize", async function () {
+      const { optimizer, vaultB, user, keeper } = await networkHelpers.loadFixture(depositFixture);
+
+      await expect(
+        optimizer
+          .connect(keeper)
+          .optimizePositionFor(1n, directParams(await vaultB.getAddress())),
+      ).to.be.revertedWith("Keeper not authorized");
+    });
+
+    it("Should follow the authorization of the receipt's current holder", async function () {
+      const { optimizer, vaultB, user, keeper, other } = await networkHelpers.loadFixture(depositFixture);
+      await optimizer.connect(user).setKeeperAuthorization(keeper.address, true, 100n);
+      await (await receipts(optimizer)).connect(user).transferFrom(user.address, other.address, 1n);
+
+      const params = directParams(await vaultB.getAddress());
+      await expect(optimizer.connect(keeper).optimizePositionFor(1n, params)).to.be.revertedWith(
+        "Keeper not authorized",
+      );
+
+      await optimizer.connect(other).setKeeperAuthorization(keeper.address, true, 100n);
+      await optimizer.connect(keeper).optimizePositionFor(1n, params);
+      expect((await optimizer.positions(1n)).vault).to.equal(await vaultB.getAddress());
+    });
+
+    it("Should hold a keeper's move to the slippage the user allowed it", async function () {
+      const { optimizer, vaultB, user, keeper } = await networkHelpers.loadFixture(depositFixture);
+      await vaultB.setFees(200n, 0n); // 2% entry fee
+      await optimizer.connect(user).setKeeperAuthorization(keeper.address, true, 100n);
+
+      const params = directParams(await vaultB.getAddress());
+      await expect(optimizer.connect(keeper).optimizePositionFor(1n, params)).to.be.revertedWith(
+        "Keeper slippage too high",
+      );
+
+      await optimizer.connect(user).setKeeperAuthorization(keeper.address, true, 300n);
+      await optimizer.connect(keeper).optimizePositionFor(1n, params);
+      expect((await optimizer.positions(1n)).vault).to.equal(await vaultB.getAddress());
+    });
+
+    it("Should compare a keeper's swap into another asset at face value", async function () {
+      const fixture = await networkHelpers.loadFixture(depositFixture);
+      const { optimizer, vaultC, user, keeper } = fixture;
+      const params = await usdcToUsdtParams(fixture); // 1 USDC = 0.99 USDT
+
+      await optimizer.connect(user).setKeeperAuthorization(keeper.address, true, 50n);
+      await expect(optimizer.connect(keeper).optimizePositionFor(1n, params)).to.be.revertedWith(
+        "Keeper slippage too high",
+      );
+
+      await optimizer.connect(user).setKeeperAuthorization(keeper.address, true, 100n);
+      await optimizer.connect(keeper).optimizePositionFor(1n, params);
+      expect((await optimizer.positions(1n)).vault).to.equal(await vaultC.getAddress());
+    });
+
+    it("Should not apply the keeper floor to the user's own moves", async function () {
+      const { optimizer, vaultB, user, keeper } = await networkHelpers.loadFixture(depositFixture);
+      await vaultB.setFees(200n, 0n);
+      await optimizer.connect(user).setKeeperAuthorization(keeper.address, true, 0n);
+
+      await optimizer.connect(user).optimizePosition(1n, directParams(await vaultB.getAddress()));
+      expect((await optimizer.positions(1n)).vault).to.equal(await vaultB.getAddress());
+      await expect(
+        optimizer.connect(user).setKeeperAuthorization(keeper.address, true, 10_001n),
+      ).to.be.revertedWith("Invalid slippage");
+    });
+  });
+
+  describe("position receipts", function () {
+    it("Should hand a transferred position to the new holder", async function () {
+      const { optimizer, usdc, user, other } = await networkHelpers.loadFixture(depositFixture);
+
+      await (await receipts(optimizer)).connect(user).transferFrom(user.address, other.address, 1n);
+
+      expect(await optimizer.getUserPositionCount(user.address)).to.equal(0n);
+      expect(await optimizer.getUserPositionIds(other.address)).to.deep.equal([1n]);
+      await expect(optimizer.connect(user).withdraw(1n, DEPOSIT, 0n)).to.be.revertedWith(
+        "Not position owner",
+      );
+      await optimizer.connect(other).withdraw(1n, DEPOSIT, 0n);
+      expect(await usdc.balanceOf(other.address)).to.equal(DEPOSIT);
+    });
+
+    it("Should merge two positions in the same vault and burn the merged receipt", async function () {
+      const { optimizer, vaultA, user } = await networkHelpers.loadFixture(depositFixture);
+      await optimizer.connect(user).deposit(vaultA, DEPOSIT, 0n);
+
+      await expect(optimizer.connect(user).mergePositions(1n, 2n))
+        .to.emit(optimizer, "PositionsMerged")
+        .withArgs(user.address, 1n, 2n);
+
+      expect(await optimizer.getUserPositionIds(user.address)).to.deep.equal([1n]);
+      const position = await optimizer.positions(1n);
+      expect(position.shares).to.equal(2n * DEPOSIT);
+      expect(position.costBasis).to.equal(2n * DEPOSIT);
+      expect((await optimizer.positions(2n)).active).to.equal(false);
+    });
+
+    it("Should only merge the caller's own positions in one vault", async function () {
+      const { optimizer, vaultA, vaultB, user, other } = await networkHelpers.loadFixture(depositFixture);
+      await optimizer.connect(user).deposit(vaultB, DEPOSIT, 0n);
+      await optimizer.connect(user).deposit(vaultA, DEPOSIT, 0n);
+
+      await expect(optimizer.connect(user).mergePositions(1n, 2n)).to.be.revertedWith(
+        "Different vaults",
+      );
+      await expect(optimizer.connect(user).mergePositions(1n, 1n)).to.be.revertedWith(
+        "Same position",
+      );
+      await expect(optimizer.connect(other).mergePositions(1n, 3n)).to.be.revertedWith(
+        "Not position owner",
+      );
+    });
+
+    it("Should only let the optimizer mint and burn receipts", async function () {
+      const { optimizer, user } = await networkHelpers.loadFixture(depositFixture);
+      const receipt = await receipts(optimizer);
+
+      expect(await receipt.optimizer()).to.equal(await optimizer.getAddress());
+      await expect(receipt.connect(user).mint(user.address, 5n)).to.be.revertedWith("Only optimizer");
+      await expect(receipt.connect(user).burn(1n)).to.be.revertedWith("Only optimizer");
+    });
+  });
+
+  describe("pause", function () {
+    it("Should block deposit, withdraw and optimizePosition while paused", async function () {
+      const { optimizer, vaultA, vaultB, user } = await networkHelpers.loadFixture(depositFixture);
+
+      await expect(optimizer.setPaused(true)).to.emit(optimizer, "Paused").withArgs(true);
+
+      await expect(optimizer.connect(user).deposit(vaultA, DEPOSIT, 0n)).to.be.revertedWith(
+        "Contract paused",
+      );
+      await expect(optimizer.connect(user).withdraw(1n, DEPOSIT, 0n)).to.be.revertedWith(
+        "Contract paused",
+      );
+      await expect(
+        optimizer.connect(user).optimizePosition(1n, directParams(await vaultB.getAddress())),
+      ).to.be.revertedWith("Contract paused");
+    });
+
+    it("Should let a guardian pause but not unpause", async function () {
+      const { optimizer, guardian } = await networkHelpers.loadFixture(deployFixture);
+
+      await optimizer.connect(guardian).setPaused(true);
+      expect(await optimizer.paused()).to.equal(true);
+
+      await expect(optimizer.connect(guardian).setPaused(false)).to.be.revertedWithCustomError(
+        optimizer,
+        "AccessControlUnauthorizedAccount",
+      );
+
+      await optimizer.setPaused(false);
+      expect(await optimizer.paused()).to.equal(false);
+    });
+
+    it("Should not let anyone else pause", async function () {
+      const { optimizer, other, keeper, curator } = await networkHelpers.loadFixture(deployFixture);
+
+      for (const account of [other, keeper, curator]) {
+        await expect(optimizer.connect(account).setPaused(true)).to.be.revertedWith(
+          "Not guardian",
+        );
+      }
+    });
+  });
+
+  describe("vault deposit caps", function () {
+    it("Should reject deposits that take the optimizer's holdings above the cap", async function () {
+      const { optimizer, vaultA, user } = await networkHelpers.loadFixture(depositFixture);
+      await govern(optimizer, Action.SetVaultDepositCap, await vaultA.getAddress(), DEPOSIT + 500n * ONE);
+
+      expect(await optimizer.vaultExposure(vaultA)).to.equal(DEPOSIT);
+      expect(await optimizer.availableVaultCapacity(vaultA)).to.equal(500n * ONE);
+
+      // The cap counts what the optimizer already holds in the vault
+      await expect(
+        optimizer.connect(user).deposit(vaultA, 600n * ONE, 0n),
+      ).to.be.revertedWith("Vault cap exceeded");
+      await optimizer.connect(user).deposit(vaultA, 500n * ONE, 0n);
+      expect(await optimizer.availableVaultCapacity(vaultA)).to.equal(0n);
+    });
+
+    it("Should reject optimizations into a vault that is at its cap", async function () {
+      const { optimizer, vaultB, user } = await networkHelpers.loadFixture(depositFixture);
+      await govern(optimizer, Action.SetVaultDepositCap, await vaultB.getAddress(), DEPOSIT / 2n);
+
+      await expect(
+        optimizer.connect(user).optimizePosition(1n, directParams(await vaultB.getAddress())),
+      ).to.be.revertedWith("Vault cap exceeded");
+    });
+
+    it("Should report unlimited capacity without a cap and only change caps through the timelock", async function () {
+      const { optimizer, vaultB, curator, keeper } = await networkHelpers.loadFixture(deployFixture);
+
+      expect(await optimizer.availableVaultCapacity(vaultB)).to.equal(ethers.MaxUint256);
+
+      await expect(
+        optimizer.connect(keeper).queueOperation(Action.SetVaultDepositCap, vaultB, ONE),
+      ).to.be.revertedWithCustomError(optimizer, "AccessControlUnauthorizedAccount");
+
+      const id = await queue(optimizer.connect(curator), Action.SetVaultDepositCap, await vaultB.getAddress(), ONE);
+      await networkHelpers.time.increase(TIMELOCK_DELAY);
+      await expect(optimizer.connect(curator).executeOperation(id))
+        .to.emit(optimizer, "VaultDepositCapUpdated")
+        .withArgs(await vaultB.getAddress(), ONE);
+      expect(await optimizer.vaultDepositCaps(vaultB)).to.equal(ONE);
+    });
+  });
+
+  describe("emergencyExit", function () {
+    it("Should redeem a failing vault into the exit pool and de-whitelist it", async function () {
+      const { optimizer, usdc, vaultA, user, guardian } =
+        await networkHelpers.loadFixture(depositFixture);
+      await vaultA.simulateLoss(100n * ONE); // 10% loss
+
+      await expect(optimizer.connect(guardian).emergencyExit(vaultA, 0n, 900n * ONE))
+        .to.emit(optimizer, "EmergencyExitExecuted")
+        .withArgs(await vaultA.getAddress(), DEPOSIT, 900n * ONE);
+
+      expect(await optimizer.whitelistedVaults(vaultA)).to.equal(false);
+      expect(await vaultA.balanceOf(optimizer)).to.equal(0n);
+      expect(await usdc.balanceOf(optimizer)).to.equal(900n * ONE);
+
+      const [value] = await optimizer.getPositionValues(user.address);
+      expect(value.currentAssets).to.equal(900n * ONE);
+      expect(value.maxWithdraw).to.equal(900n * ONE);
+
+      // The position settles against the exit pool on withdraw
+      const balanceBefore = await usdc.balanceOf(user.address);
+      await optimizer.connect(user).withdraw(1n, DEPOSIT, 900n * ONE);
+      expect(await usdc.balanceOf(user.address)).to.equal(balanceBefore + 900n * ONE);
+      expect(await usdc.balanceOf(optimizer)).to.equal(0n);
+
+      const exit = await optimizer.emergencyExits(vaultA);
+      expect(exit.shares).to.equal(0n);
+      expect(exit.assets).to.equal(0n);
+    });
+
+    it("Should let an exited position be optimized into another vault", async function () {
+      const { optimizer, vaultA, vaultB, user, guardian } =
+        await networkHelpers.loadFixture(depositFixture);
+      await optimizer.connect(guardian).emergencyExit(vaultA, 0n, 0n);
+
+      await optimizer.connect(user).optimizePosition(1n, directParams(await vaultB.getAddress(), DEPOSIT));
+
+      const [position] = await optimizer.getUserPositions(user.address);
+      expect(position.vault).to.equal(await vaultB.getAddress());
+      expect(position.shares).to.equal(DEPOSIT);
+      expect(await vaultB.balanceOf(optimizer)).to.equal(DEPOSIT);
+    });
+
+    it("Should settle a partial exit from the pool first and the vault for the rest", async function () {
+      const { optimizer, usdc, vaultA, user, guardian } =
+        await networkHelpers.loadFixture(depositFixture);
+      await optimizer.connect(guardian).emergencyExit(vaultA, DEPOSIT / 4n, 0n);
+
+      expect(await optimizer.vaultExposure(vaultA)).to.equal((DEPOSIT * 3n) / 4n);
+
+      const balanceBefore = await usdc.balanceOf(user.address);
+      await optimizer.connect(user).withdraw(1n, DEPOSIT, DEPOSIT);
+      expect(await usdc.balanceOf(user.address)).to.equal(balanceBefore + DEPOSIT);
+      expect((await optimizer.emergencyExits(vaultA)).shares).to.equal(0n);
+    });
+
+    it("Should value each position at its pro-rata part of the exit pool", async function () {
+      const { optimizer, vaultA, user, guardian } = await networkHelpers.loadFixture(depositFixture);
+      await optimizer.connect(user).deposit(vaultA, DEPOSIT, 0n);
+
+      // A quarter of the shares exit at par, then the vault loses 10% of what is left
+      await optimizer.connect(guardian).emergencyExit(vaultA, DEPOSIT / 2n, 0n);
+      await vaultA.simulateLoss(150n * ONE);
+
+      const values = await optimizer.getPositionValues(user.address);
+      expect(values.length).to.equal(2);
+      const perPosition = 250n * ONE + 675n * ONE;
+      for (const value of values) {
+        expect(value.currentAssets).to.be.closeTo(perPosition, 10n);
+      }
+      // Together the positions hold the pool plus the rest of the vault, nothing more
+      expect(values[0].currentAssets + values[1].currentAssets).to.be.closeTo(
+        500n * ONE + 1_350n * ONE,
+        10n,
+      );
+    });
+
+    it("Should pay each user their quoted value when they withdraw one after another", async function () {
+      const { optimizer, usdc, vaultA, user, other, guardian } =
+        await networkHelpers.loadFixture(depositFixture);
+      await usdc.mint(other.address, DEPOSIT);
+      await usdc.connect(other).approve(optimizer, ethers.MaxUint256);
+      await optimizer.connect(other).deposit(vaultA, DEPOSIT, 0n);
+
+      // Half of the shares exit at par, then the vault loses 10% of what is left
+      await optimizer.connect(guardian).emergencyExit(vaultA, DEPOSIT, 0n);
+      await vaultA.simulateLoss(100n * ONE);
+
+      const [userValue] = await optimizer.getPositionValues(user.address);
+      const [otherValue] = await optimizer.getPositionValues(other.address);
+      expect(userValue.currentAssets).to.be.closeTo(950n * ONE, 10n);
+      expect(otherValue.currentAssets).to.be.closeTo(950n * ONE, 10n);
+
+      for (const [account, value] of [
+        [user, userValue],
+        [other, otherValue],
+      ] as const) {
+        const balanceBefore = await usdc.balanceOf(account.address);
+        await optimizer.connect(account).withdraw(value.id, value.shares, 0n);
+        expect((await usdc.balanceOf(account.address)) - balanceBefore).to.be.closeTo(
+          value.currentAssets,
+          10n,
+        );
+      }
+    });
+
+    it("Should only let guardians exit, and block deposits into the exited vault", async function () {
+      const { optimizer, vaultA, user, keeper, curator, guardian } =
+        await networkHelpers.loadFixture(depositFixture);
+
+      for (const account of [user, keeper, curator]) {
+        await expect(
+          optimizer.connect(account).emergencyExit(vaultA, 0n, 0n),
+        ).to.be.revertedWithCustomError(optimizer, "AccessControlUnauthorizedAccount");
+      }
+
+      await optimizer.connect(guardian).emergencyExit(vaultA, DEPOSIT / 2n, 0n);
+      await govern(optimizer, Action.WhitelistVault, await vaultA.getAddress(), 1n);
+
+      await expect(optimizer.connect(user).deposit(vaultA, ONE, 0n)).to.be.revertedWith(
+        "Vault in emergency exit",
+      );
+    });
+  });
+
+  describe("roles", function () {
+    it("Should let only curators queue whitelist changes", async function () {
+      const { optimizer, usdc, router, curator, keeper, guardian } =
+        await networkHelpers.loadFixture(deployFixture);
+      const vault = await ethers.deployContract("MockERC4626", [usdc, "Vault D", "vD"]);
+
+      await govern(optimizer.connect(curator), Action.AddGlueXVault, await vault.getAddress(), 0n);
+      expect(await optimizer.whitelistedVaults(vault)).to.equal(true);
+      expect(await optimizer.GLUEX_VAULTS(0n)).to.equal(await vault.getAddress());
+
+      for (const account of [keeper, guardian]) {
+        await expect(
+          optimizer.connect(account).queueOperation(Action.WhitelistRouter, router, 1n),
+        ).to.be.revertedWithCustomError(optimizer, "AccessControlUnauthorizedAccount");
+        await expect(
+          optimizer.connect(account).queueOperation(Action.AddGlueXVault, vault, 0n),
+        ).to.be.revertedWithCustomError(optimizer, "AccessControlUnauthorizedAccount");
+      }
+    });
+
+    it("Should let only the admin change the fee and treasury", async function () {
+      const { optimizer, curator, other } = await networkHelpers.loadFixture(deployFixture);
+
+      await govern(optimizer, Action.UpdateProtocolFee, ethers.ZeroAddress, 50n);
+      expect(await optimizer.protocolFeeBps()).to.equal(50n);
+      await expect(optimizer.setTreasury(other.address))
+        .to.emit(optimizer, "TreasuryUpdated")
+        .withArgs(other.address);
+
+      await expect(
+        optimizer.connect(curator).queueOperation(Action.UpdateProtocolFee, ethers.ZeroAddress, 100n),
+      ).to.be.revertedWithCustomError(optimizer, "AccessControlUnauthorizedAccount");
+      await expect(
+        optimizer.connect(curator).setTreasury(curator.address),
+      ).to.be.revertedWithCustomError(optimizer, "AccessControlUnauthorizedAccount");
+    });
+
+    it("Should require the keeper role even when the user authorized the caller", async function () {
+      const { optimizer, vaultB, user, other } = await networkHelpers.loadFixture(depositFixture);
+      await optimizer.connect(user).setKeeperAuthorization(other.address, true, 100n);
+
+      await expect(
+        optimizer
+          .connect(other)
+          .optimizePositionFor(1n, directParams(await vaultB.getAddress())),
+      ).to.be.revertedWithCustomError(optimizer, "AccessControlUnauthorizedAccount");
+    });
+
+    it("Should not let a keeper withdraw or manage the contract", async function () {
+      const { optimizer, router, keeper } = await networkHelpers.loadFixture(depositFixture);
+
+      await expect(optimizer.connect(keeper).withdraw(1n, 1n, 0n)).to.be.revertedWith(
+        "Not position owner",
+      );
+      await expect(
+        optimizer.connect(keeper).queueOperation(Action.WhitelistRouter, router, 1n),
+      ).to.be.revertedWithCustomError(optimizer, "AccessControlUnauthorizedAccount");
+      await expect(
+        optimizer.connect(keeper).queueOperation(Action.UpdateProtocolFee, ethers.ZeroAddress, 1n),
+      ).to.be.revertedWithCustomError(optimizer, "AccessControlUnauthorizedAccount");
+    });
+  });
+
+  describe("governance timelock", function () {
+    it("Should only execute a router whitelisting after the delay", async function () {
+      const { optimizer, curator } = await networkHelpers.loadFixture(deployFixture);
+      const newRouter = await ethers.deployContract("MockGlueXRouter");
+      const optimizerAsCurator = optimizer.connect(curator);
+
+      const id = await queue(optimizerAsCurator, Action.WhitelistRouter, await newRouter.getAddress(), 1n);
+      await expect(optimizerAsCurator.executeOperation(id)).to.be.revertedWith(
+        "Operation not ready",
+      );
+
+      await networkHelpers.time.increase(TIMELOCK_DELAY);
+      await expect(optimizerAsCurator.executeOperation(id))
+        .to.emit(optimizer, "RouterWhitelisted")
+        .withArgs(await newRouter.getAddress(), true);
+      expect(await optimizer.whitelistedRouters(newRouter)).to.equal(true);
+
+      await expect(optimizerAsCurator.executeOperation(id)).to.be.revertedWith("Unknown operation");
+    });
+
+    it("Should list pending operations with their execution time", async function () {
+      const { optimizer, router } = await networkHelpers.loadFixture(deployFixture);
+
+      const feeId = await queue(optimizer, Action.UpdateProtocolFee, ethers.ZeroAddress, 25n);
+      const routerId = await queue(optimizer, Action.WhitelistRouter, await router.getAddress(), 0n);
+      const queuedAt = BigInt(await networkHelpers.time.latest());
+
+      const [ids, operations] = await optimizer.getPendingOperations();
+      expect(ids).to.deep.equal([feeId, routerId]);
+      expect(operations[0].action).to.equal(BigInt(Action.UpdateProtocolFee));
+      expect(operations[0].value).to.equal(25n);
+      expect(operations[1].target).to.equal(await router.getAddress());
+      expect(operations[1].executableAt).to.equal(queuedAt + TIMELOCK_DELAY);
+
+      await networkHelpers.time.increase(TIMELOCK_DELAY);
+      await optimizer.executeOperation(feeId);
+
+      const [remainingIds] = await optimizer.getPendingOperations();
+      expect(remainingIds).to.deep.equal([routerId]);
+    });
+
+    it("Should let a guardian cancel a queued operation", async function () {
+      const { optimizer, guardian, other } = await networkHelpers.loadFixture(deployFixture);
+
+      const id = await queue(optimizer, Action.WhitelistRouter, other.address, 1n);
+      await expect(optimizer.connect(other).cancelOperation(id)).to.be.revertedWithCustomError(
+        optimizer,
+        "AccessControlUnauthorizedAccount",
+      );
+      await expect(optimizer.connect(guardian).cancelOperation(id))
+        .to.emit(optimizer, "OperationCancelled")
+        .withArgs(id, Action.WhitelistRouter);
+
+      await networkHelpers.time.increase(TIMELOCK_DELAY);
+      await expect(optimizer.executeOperation(id)).to.be.revertedWith("Unknown operation");
+      expect(await optimizer.whitelistedRouters(other.address)).to.equal(false);
+    });
+
+    it("Should not execute an operation after the grace period", async function () {
+      const { optimizer } = await networkHelpers.loadFixture(deployFixture);
+
+      const id = await queue(optimizer, Action.UpdateProtocolFee, ethers.ZeroAddress, 10n);
+      await networkHelpers.time.increase(TIMELOCK_DELAY + GRACE_PERIOD + 1n);
+
+      await expect(optimizer.executeOperation(id)).to.be.revertedWith("Operation expired");
+    });
+
+    it("Should validate operations when they are queued", async function () {
+      const { optimizer } = await networkHelpers.loadFixture(deployFixture);
+
+      await expect(
+        optimizer.queueOperation(Action.UpdateProtocolFee, ethers.ZeroAddress, 101n),
+      ).to.be.revertedWith("Fee too high");
+      await expect(
+        optimizer.queueOperation(Action.WhitelistVault, ethers.ZeroAddress, 1n),
+      ).to.be.revertedWith("Invalid target");
+      await expect(
+        optimizer.queueOperation(Action.SetTimelockDelay, ethers.ZeroAddress, 31n * 24n * 60n * 60n),
+      ).to.be.revertedWith("Delay too long");
+    });
+
+    it("Should change the delay itself through the timelock", async function () {
+      const { optimizer } = await networkHelpers.loadFixture(deployFixture);
+
+      await govern(optimizer, Action.SetTimelockDelay, ethers.ZeroAddress, 3600n);
+      expect(await optimizer.timelockDelay()).to.equal(3600n);
+    });
+  });
+});